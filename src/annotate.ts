@@ -0,0 +1,88 @@
+import * as idb from "./idb.js";
+import { ToolError } from "./errors.js";
+import { elementCenter, flattenElements } from "./elements.js";
+import { drawDigits, fillRect, measureDigits, strokeRect, type Color } from "./draw.js";
+import { decodePng, encodePng } from "./png.js";
+
+// Set-of-marks screenshots: every element from describe_screen gets a numbered
+// box so a vision model can answer with a mark instead of guessing coordinates.
+
+export interface Mark {
+  mark: number;
+  id: string;
+  type: string;
+  label: string | null;
+  // Points
+  center: { x: number; y: number };
+}
+
+export interface AnnotatedScreenshot {
+  // Base64 PNG
+  image: string;
+  legend: Mark[];
+}
+
+const PALETTE: Color[] = [
+  [230, 25, 75],
+  [60, 180, 75],
+  [0, 130, 200],
+  [245, 130, 48],
+  [145, 30, 180],
+  [0, 160, 160],
+  [240, 50, 230],
+  [128, 128, 0],
+];
+const WHITE: Color = [255, 255, 255];
+
+// Marks from the last annotated screenshot per simulator
+const lastMarks = new Map<string, Mark[]>();
+
+export async function annotateScreenshot(udid: string): Promise<AnnotatedScreenshot> {
+  const image = decodePng(Buffer.from(await idb.takeScreenshot(udid), "base64"));
+  const tree = await idb.describeTree(udid);
+  const { scale } = await idb.screenSizeFor(udid, image, tree);
+
+  const elements = flattenElements(tree).filter(
+    (el) => el.type !== "Application" && el.frame.width > 0 && el.frame.height > 0
+  );
+
+  const legend: Mark[] = [];
+  const thickness = Math.max(1, Math.round(scale));
+  const dot = Math.max(2, Math.round(scale * 2));
+  const pad = dot;
+
+  elements.forEach((el, i) => {
+    const mark = i + 1;
+    const color = PALETTE[i % PALETTE.length];
+    const x = el.frame.x * scale;
+    const y = el.frame.y * scale;
+    strokeRect(image, x, y, el.frame.width * scale, el.frame.height * scale, color, thickness);
+
+    // Number tag in the top-left corner, inside the box when it would go off-screen
+    const text = String(mark);
+    const size = measureDigits(text, dot);
+    const tagWidth = size.width + pad * 2;
+    const tagHeight = size.height + pad * 2;
+    const tagX = Math.min(Math.max(0, x), image.width - tagWidth);
+    const tagY = y - tagHeight >= 0 ? y - tagHeight : Math.max(0, y);
+    fillRect(image, tagX, tagY, tagWidth, tagHeight, color, 0.9);
+    drawDigits(image, text, tagX + pad, tagY + pad, dot, WHITE);
+
+    legend.push({ mark, id: el.id, type: el.type, label: el.label, center: elementCenter(el) });
+  });
+
+  lastMarks.set(udid, legend);
+  return { image: encodePng(image).toString("base64"), legend };
+}
+
+export function getMark(udid: string, mark: number): Mark {
+  const marks = lastMarks.get(udid);
+  if (!marks) {
+    throw new ToolError("INVALID_ARGUMENT", "No annotated screenshot taken yet. Call annotated_screenshot first, then tap with mark.");
+  }
+  const found = marks.find((m) => m.mark === mark);
+  if (!found) {
+    throw new ToolError("ELEMENT_NOT_FOUND", `No mark ${mark} in the last annotated screenshot (marks 1-${marks.length}).`);
+  }
+  return found;
+}
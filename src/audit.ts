@@ -0,0 +1,314 @@
+import * as idb from "./idb.js";
+import { currentClient } from "./clients.js";
+import { ToolError } from "./errors.js";
+import { flattenElements, type ElementNode } from "./elements.js";
+import { screenBounds } from "./gestures.js";
+import type { Frame } from "./types.js";
+
+// Accessibility audit of the AX tree: missing labels, small tap targets,
+// off-screen and overlapping controls, duplicate labels, unexplained disabled controls
+
+export const AUDIT_RULES = ["missing-label", "small-target", "off-screen", "overlap", "duplicate-label", "disabled-no-hint"] as const;
+
+export type AuditRule = (typeof AUDIT_RULES)[number];
+
+export type Severity = "error" | "warning" | "info";
+
+export interface AuditFinding {
+  rule: AuditRule;
+  severity: Severity;
+  message: string;
+  element: { id: string; type: string; label: string | null };
+  frame: Frame;
+  // Other elements involved: the overlapping sibling, the controls sharing a label
+  related?: string[];
+}
+
+export interface AuditReport {
+  screen: string;
+  udid: string;
+  capturedAt: string;
+  elements: number;
+  counts: Record<Severity, number>;
+  findings: AuditFinding[];
+}
+
+interface CapturedScreen {
+  udid: string;
+  tree: ElementNode[];
+  bounds: Frame;
+  capturedAt: number;
+}
+
+// Minimum tap target from Apple's Human Interface Guidelines, in points
+export const MIN_TARGET_SIZE = 44;
+const CONTROL_TYPES = [
+  "Button",
+  "Link",
+  "TextField",
+  "SecureTextField",
+  "TextView",
+  "SearchField",
+  "Switch",
+  "Toggle",
+  "Slider",
+  "Stepper",
+  "SegmentedControl",
+  "PopUpButton",
+  "Picker",
+  "Cell",
+];
+// Containers whose content is expected to extend past the screen
+const SCROLL_TYPES = ["ScrollView", "Table", "CollectionView", "WebView"];
+const SEVERITY_ORDER: Severity[] = ["error", "warning", "info"];
+// Screens kept for a session audit; the oldest are dropped first
+const MAX_SCREENS = 50;
+// Time for a transition to finish before a visited screen is read
+const SETTLE_DELAY = 500;
+
+// Screens seen while session recording runs with audit enabled, by screen
+// signature. Kept per client, like the session recording they belong to.
+const visitedScreens = new Map<string, Map<string, CapturedScreen>>();
+const collecting = new Set<string>();
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isControl(node: ElementNode): boolean {
+  return CONTROL_TYPES.includes(node.type);
+}
+
+function hasSize(frame: Frame): boolean {
+  return frame.width > 0 && frame.height > 0;
+}
+
+function overlapArea(a: Frame, b: Frame): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function inside(frame: Frame, area: Frame): boolean {
+  return frame.x >= area.x && frame.y >= area.y && frame.x + frame.width <= area.x + area.width && frame.y + frame.height <= area.y + area.height;
+}
+
+function describeNode(node: ElementNode): string {
+  return node.label ? `${node.type} "${node.label}"` : node.type;
+}
+
+function finding(rule: AuditRule, severity: Severity, node: ElementNode, message: string, related?: string[]): AuditFinding {
+  return {
+    rule,
+    severity,
+    message,
+    element: { id: node.id, type: node.type, label: node.label },
+    frame: node.frame,
+    ...(related ? { related } : {}),
+  };
+}
+
+// Title for reports: the app name and the first piece of static text
+function screenName(tree: ElementNode[]): string {
+  const app = tree.find((n) => n.type === "Application")?.label;
+  const title = flattenElements(tree).find((el) => el.type === "StaticText" && el.label)?.label;
+  return [app, title].filter(Boolean).join(": ") || "Untitled screen";
+}
+
+// Same screen when the same elements carry the same labels; values and frames
+// are ignored so typing or scrolling doesn't make a new screen
+export function screenSignature(udid: string, tree: ElementNode[]): string {
+  return `${udid}|${flattenElements(tree)
+    .map((el) => `${el.type}:${el.label ?? ""}`)
+    .join("|")}`;
+}
+
+export function auditTree(tree: ElementNode[], bounds: Frame, rules: readonly AuditRule[] = AUDIT_RULES): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  const enabled = (rule: AuditRule) => rules.includes(rule);
+  const controls: ElementNode[] = [];
+
+  const visit = (nodes: ElementNode[], scrolled: boolean) => {
+    for (const node of nodes) {
+      const visible = hasSize(node.frame);
+      if (isControl(node) && visible) controls.push(node);
+
+      if (enabled("missing-label") && !node.label) {
+        if (isControl(node) && !node.value) {
+          findings.push(finding("missing-label", "error", node, `${node.type} has no accessibility label, so VoiceOver announces nothing useful.`));
+        } else if (node.type === "Image") {
+          findings.push(finding("missing-label", "warning", node, "Image has no accessibility label. Give it one, or hide it from accessibility if it is decorative."));
+        }
+      }
+      if (enabled("small-target") && isControl(node) && visible && (node.frame.width < MIN_TARGET_SIZE || node.frame.height < MIN_TARGET_SIZE)) {
+        findings.push(
+          finding(
+            "small-target",
+            "warning",
+            node,
+            `${describeNode(node)} is ${node.frame.width}x${node.frame.height} pt, smaller than the ${MIN_TARGET_SIZE}x${MIN_TARGET_SIZE} pt minimum tap target.`
+          )
+        );
+      }
+      if (enabled("off-screen") && visible && !scrolled && node.type !== "Application" && (node.label || isControl(node)) && !inside(node.frame, bounds)) {
+        const gone = overlapArea(node.frame, bounds) === 0;
+        findings.push(
+          finding(
+            "off-screen",
+            gone ? "error" : "warning",
+            node,
+            gone
+              ? `${describeNode(node)} is entirely off-screen but still reachable with VoiceOver.`
+              : `${describeNode(node)} is partly off-screen and may be clipped.`
+          )
+        );
+      }
+      if (enabled("disabled-no-hint") && isControl(node) && !node.enabled && !node.help) {
+        findings.push(finding("disabled-no-hint", "info", node, `${describeNode(node)} is disabled with no accessibility hint explaining why or how to enable it.`));
+      }
+
+      if (enabled("overlap")) {
+        const siblings = node.children.filter((child) => isControl(child) && hasSize(child.frame));
+        for (let i = 0; i < siblings.length; i++) {
+          for (let j = i + 1; j < siblings.length; j++) {
+            if (overlapArea(siblings[i].frame, siblings[j].frame) === 0) continue;
+            findings.push(
+              finding(
+                "overlap",
+                "warning",
+                siblings[j],
+                `${describeNode(siblings[j])} overlaps ${describeNode(siblings[i])}: a tap in the shared area may hit either control.`,
+                [siblings[i].id]
+              )
+            );
+          }
+        }
+      }
+      visit(node.children, scrolled || SCROLL_TYPES.includes(node.type));
+    }
+  };
+  visit(tree, false);
+
+  if (enabled("duplicate-label")) {
+    const byLabel = new Map<string, ElementNode[]>();
+    for (const node of controls) {
+      const key = node.label?.trim().toLowerCase();
+      if (!key) continue;
+      byLabel.set(key, [...(byLabel.get(key) ?? []), node]);
+    }
+    for (const nodes of byLabel.values()) {
+      if (nodes.length < 2) continue;
+      findings.push(
+        finding(
+          "duplicate-label",
+          "warning",
+          nodes[0],
+          `${nodes.length} controls are labeled "${nodes[0].label}". VoiceOver users can't tell them apart; add context to the labels.`,
+          nodes.slice(1).map((n) => n.id)
+        )
+      );
+    }
+  }
+
+  return findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+function report(screen: CapturedScreen, rules: readonly AuditRule[]): AuditReport {
+  const findings = auditTree(screen.tree, screen.bounds, rules);
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  for (const f of findings) counts[f.severity]++;
+  return {
+    screen: screenName(screen.tree),
+    udid: screen.udid,
+    capturedAt: new Date(screen.capturedAt).toISOString(),
+    elements: flattenElements(screen.tree).length,
+    counts,
+    findings,
+  };
+}
+
+async function capture(udid: string): Promise<CapturedScreen> {
+  const tree = await idb.describeTree(udid);
+  return { udid, tree, bounds: await screenBounds(udid, tree), capturedAt: Date.now() };
+}
+
+function isCollecting(): boolean {
+  return collecting.has(currentClient().id);
+}
+
+function remember(screen: CapturedScreen): void {
+  const id = currentClient().id;
+  const screens = visitedScreens.get(id) ?? new Map<string, CapturedScreen>();
+  visitedScreens.set(id, screens);
+  const key = screenSignature(screen.udid, screen.tree);
+  // Re-inserting moves the screen to the end, and keeps its most recent (settled) tree
+  screens.delete(key);
+  screens.set(key, screen);
+  if (screens.size > MAX_SCREENS) screens.delete(screens.keys().next().value!);
+}
+
+export async function auditScreen(udid: string, rules: readonly AuditRule[] = AUDIT_RULES): Promise<AuditReport> {
+  const screen = await capture(udid);
+  if (isCollecting()) remember(screen);
+  return report(screen, rules);
+}
+
+// Collect screens for auditSession. Called when session recording starts and stops.
+export function setScreenCollection(enabled: boolean, clear = false): void {
+  const id = currentClient().id;
+  if (enabled) collecting.add(id);
+  else collecting.delete(id);
+  if (clear) visitedScreens.delete(id);
+}
+
+// Drop a client's collected screens, e.g. when its session ends
+export function forgetScreens(clientId: string): void {
+  collecting.delete(clientId);
+  visitedScreens.delete(clientId);
+}
+
+// Remember the current screen. Never fails: a missed screen must not break the call that triggered it.
+export async function noteScreen(udid: string): Promise<void> {
+  if (!isCollecting()) return;
+  try {
+    await sleep(SETTLE_DELAY);
+    remember(await capture(udid));
+  } catch {
+    // The screen may be mid-transition or the app gone; the next call tries again
+  }
+}
+
+export function auditSession(rules: readonly AuditRule[] = AUDIT_RULES): AuditReport[] {
+  const screens = visitedScreens.get(currentClient().id);
+  if (!screens || screens.size === 0) {
+    throw new ToolError(
+      "PRECONDITION_FAILED",
+      "No screens collected.",
+      "Call start_session_recording with audit: true, navigate through the app, then audit with scope \"session\"."
+    );
+  }
+  return [...screens.values()].map((screen) => report(screen, rules));
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function countSummary(counts: Record<Severity, number>): string {
+  const parts = SEVERITY_ORDER.filter((s) => counts[s] > 0).map((s) => `${counts[s]} ${s}${counts[s] === 1 ? "" : "s"}`);
+  return parts.length > 0 ? parts.join(", ") : "no issues";
+}
+
+export function formatAuditMarkdown(reports: AuditReport[]): string {
+  const lines = ["# Accessibility audit", ""];
+  for (const r of reports) {
+    lines.push(`## ${r.screen}`, "", `${r.elements} elements, ${countSummary(r.counts)}. Captured ${r.capturedAt} on ${r.udid}.`, "");
+    if (r.findings.length === 0) continue;
+    lines.push("| Severity | Rule | Element | Frame | Issue |", "|----------|------|---------|-------|-------|");
+    for (const f of r.findings) {
+      const { x, y, width, height } = f.frame;
+      const element = `${f.element.type}${f.element.label ? ` "${f.element.label}"` : ""} (${f.element.id})`;
+      lines.push(`| ${f.severity} | ${f.rule} | ${escapeCell(element)} | (${x}, ${y}, ${width}x${height}) | ${escapeCell(f.message)} |`);
+    }
+    lines.push("");
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
@@ -0,0 +1,105 @@
+import type { Coordinate, CrashLogInfo, PermissionAction, RawAXNode, ScreenSize, Simulator } from "./types.js";
+import { createIdbCliBackend } from "./idb-cli.js";
+import { createCompanionBackend, parseCompanionAddresses } from "./companion.js";
+import { createFakeBackend, loadFakeModel } from "./fake-backend.js";
+
+// Running log stream; stop() ends it
+export interface LogStream {
+  stop(): void;
+}
+
+// Running screen recording. stop() finalizes the file; kill() is for process exit.
+export interface VideoRecording {
+  stop(): Promise<void>;
+  kill(): void;
+}
+
+// Low-level device operations. idb.ts layers parsing and element search on top.
+export interface DeviceBackend {
+  name: string;
+  listSimulators(): Promise<Simulator[]>;
+  bootSimulator(udid: string): Promise<void>;
+  shutdownSimulator(udid: string): Promise<void>;
+  // Base64-encoded PNG
+  takeScreenshot(udid: string): Promise<string>;
+  getScreenSize(udid: string): Promise<ScreenSize>;
+  launchApp(udid: string, bundleId: string): Promise<void>;
+  terminateApp(udid: string, bundleId: string): Promise<void>;
+  // Raw `idb list-apps` text: bundle ID | name | install type | architectures | process state | ...
+  listApps(udid: string): Promise<string>;
+  // .app directory or .ipa file; returns the installed bundle ID when known
+  installApp(udid: string, appPath: string): Promise<string | null>;
+  uninstallApp(udid: string, bundleId: string): Promise<void>;
+  // Paths are relative to the app's data container
+  pushFile(udid: string, bundleId: string, localPath: string, remoteDir: string): Promise<void>;
+  // Writes the file into localDir under its own name
+  pullFile(udid: string, bundleId: string, remotePath: string, localDir: string): Promise<void>;
+  listFiles(udid: string, bundleId: string, remoteDir: string): Promise<string[]>;
+  tap(udid: string, x: number, y: number): Promise<void>;
+  // Touch and hold in place
+  longPress(udid: string, x: number, y: number, durationMs: number): Promise<void>;
+  swipe(udid: string, startX: number, startY: number, endX: number, endY: number, duration?: number): Promise<void>;
+  // Touch down, hold for holdMs, move to the end point, hold again, then lift
+  drag(udid: string, startX: number, startY: number, endX: number, endY: number, holdMs: number): Promise<void>;
+  typeText(udid: string, text: string): Promise<void>;
+  // HID usage codes; modifiers (also usage codes) are held down around the key
+  pressKey(udid: string, keycode: number, modifiers: number[]): Promise<void>;
+  // Several keys without modifiers, one after the other
+  pressKeySequence(udid: string, keycodes: number[]): Promise<void>;
+  // Button name is already validated and lowercased
+  pressButton(udid: string, button: string): Promise<void>;
+  openUrl(udid: string, url: string): Promise<void>;
+  // Raw nested accessibility tree
+  describeScreen(udid: string): Promise<RawAXNode[]>;
+  describePoint(udid: string, x: number, y: number): Promise<string>;
+  setLocation(udid: string, location: Coordinate): Promise<void>;
+  // Service is a `simctl privacy` name, e.g. "photos" or "location"; "all" for every service
+  setPermission(udid: string, action: PermissionAction, service: string, bundleId: string): Promise<void>;
+  // Photos and videos go to the Photos library, .vcf cards to Contacts
+  addMedia(udid: string, files: string[]): Promise<void>;
+  clearKeychain(udid: string): Promise<void>;
+  listCrashes(udid: string): Promise<CrashLogInfo[]>;
+  // Raw crash report text (.ips JSON or legacy text format)
+  getCrash(udid: string, name: string): Promise<string>;
+  deleteCrash(udid: string, name: string): Promise<void>;
+  // Long-lived `log stream --style ndjson` output, one line per callback.
+  // onExit gets an error when the stream ends without stop() being called.
+  streamLogs(udid: string, onLine: (line: string) => void, onExit: (error?: Error) => void): LogStream;
+  // Record the screen to an MP4 file until stopped
+  recordVideo(udid: string, file: string): VideoRecording;
+}
+
+// Pick backend from environment:
+//   IOS_SIM_BACKEND=idb (default) - real idb CLI; with IOS_SIM_COMPANION set, calls
+//                                   idb_companion over gRPC first and the CLI as fallback
+//   IOS_SIM_BACKEND=fake          - scripted device model loaded from IOS_SIM_FAKE_MODEL
+export function createBackendFromEnv(env: NodeJS.ProcessEnv = process.env): DeviceBackend {
+  const kind = (env.IOS_SIM_BACKEND || "idb").toLowerCase();
+  switch (kind) {
+    case "idb": {
+      const cli = createIdbCliBackend();
+      return env.IOS_SIM_COMPANION ? createCompanionBackend(cli, parseCompanionAddresses(env.IOS_SIM_COMPANION)) : cli;
+    }
+    case "fake": {
+      if (!env.IOS_SIM_FAKE_MODEL) {
+        throw new Error("IOS_SIM_BACKEND=fake requires IOS_SIM_FAKE_MODEL to point at a device model JSON file.");
+      }
+      return createFakeBackend(loadFakeModel(env.IOS_SIM_FAKE_MODEL));
+    }
+    default:
+      throw new Error(`Unknown IOS_SIM_BACKEND '${kind}'. Valid options: idb, fake.`);
+  }
+}
+
+let current: DeviceBackend | null = null;
+
+export function getBackend(): DeviceBackend {
+  if (!current) {
+    current = createBackendFromEnv();
+  }
+  return current;
+}
+
+export function setBackend(backend: DeviceBackend): void {
+  current = backend;
+}
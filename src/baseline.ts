@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as idb from "./idb.js";
+import { ToolError } from "./errors.js";
+import { diffImages, type Region } from "./imagediff.js";
+import { decodePng, encodePng, type Bitmap } from "./png.js";
+import { selectElements, type ElementSelector } from "./selector.js";
+import { getSimulators } from "./session.js";
+import type { Frame } from "./types.js";
+
+// Screenshot baselines for visual regression, stored as
+//   $IOS_SIM_BASELINE_DIR/<device name>_<os version>/<name>.png
+
+// Point rectangle or elements to leave out of the comparison
+export interface IgnoreRegion extends Partial<Frame> {
+  selector?: ElementSelector;
+}
+
+export interface CompareOptions {
+  // Maximum mismatch percentage that still passes. Default 0.1.
+  threshold?: number;
+  // Per-pixel color sensitivity, 0-1. Default 0.1.
+  colorThreshold?: number;
+  ignoreRegions?: IgnoreRegion[];
+}
+
+export interface CompareResult {
+  name: string;
+  baseline: string;
+  passed: boolean;
+  mismatchPercent: number;
+  diffPixels: number;
+  comparedPixels: number;
+  threshold: number;
+  // Ignored regions in pixels
+  ignored: Region[];
+  // Base64 PNG: changed pixels red, anti-aliasing yellow, ignored regions blue
+  diffImage: string;
+}
+
+export const DEFAULT_MISMATCH_THRESHOLD = 0.1;
+
+export function baselineDir(): string {
+  return path.resolve(process.env.IOS_SIM_BASELINE_DIR || "baselines");
+}
+
+function slug(text: string): string {
+  return text.replace(/[^A-Za-z0-9.]+/g, "-").replace(/^-|-$/g, "") || "unknown";
+}
+
+async function baselinePath(udid: string, name: string): Promise<string> {
+  const sim = (await getSimulators()).find((s) => s.udid === udid);
+  const device = sim ? `${slug(sim.name)}_${slug(sim.os_version)}` : slug(udid);
+  return path.join(baselineDir(), device, `${name}.png`);
+}
+
+export async function saveBaseline(udid: string, name: string): Promise<string> {
+  const file = await baselinePath(udid, name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, Buffer.from(await idb.takeScreenshot(udid), "base64"));
+  return file;
+}
+
+function toPixels(frame: Frame, scale: number): Region {
+  return {
+    x: Math.floor(frame.x * scale),
+    y: Math.floor(frame.y * scale),
+    width: Math.ceil(frame.width * scale),
+    height: Math.ceil(frame.height * scale),
+  };
+}
+
+async function resolveIgnoreRegions(udid: string, regions: IgnoreRegion[], image: Bitmap): Promise<Region[]> {
+  if (regions.length === 0) return [];
+  const tree = await idb.describeTree(udid);
+  const { scale } = await idb.screenSizeFor(udid, image, tree);
+
+  const frames: Frame[] = [];
+  for (const region of regions) {
+    if (region.selector) {
+      frames.push(...selectElements(tree, region.selector).map((el) => el.frame));
+    } else {
+      const { x, y, width, height } = region;
+      if (x === undefined || y === undefined || width === undefined || height === undefined) {
+        throw new ToolError("INVALID_ARGUMENT", "Ignore regions need either a selector or x, y, width and height in points");
+      }
+      frames.push({ x, y, width, height });
+    }
+  }
+  return frames.map((frame) => toPixels(frame, scale));
+}
+
+export async function compareScreenshot(udid: string, name: string, options: CompareOptions = {}): Promise<CompareResult> {
+  const file = await baselinePath(udid, name);
+  if (!fs.existsSync(file)) {
+    throw new ToolError("PRECONDITION_FAILED", `No baseline named "${name}" for this device (${file}).`, "Save one with save_baseline first.");
+  }
+
+  const baseline = decodePng(fs.readFileSync(file));
+  const current = decodePng(Buffer.from(await idb.takeScreenshot(udid), "base64"));
+  const threshold = options.threshold ?? DEFAULT_MISMATCH_THRESHOLD;
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    throw new ToolError(
+      "PRECONDITION_FAILED",
+      `Screenshot is ${current.width}x${current.height} but baseline "${name}" is ${baseline.width}x${baseline.height}.`,
+      "The baseline was probably taken in another orientation. Rotate the simulator back, or save a new baseline with save_baseline."
+    );
+  }
+
+  const ignored = await resolveIgnoreRegions(udid, options.ignoreRegions || [], current);
+  const diff = diffImages(baseline, current, { threshold: options.colorThreshold, ignore: ignored });
+
+  return {
+    name,
+    baseline: file,
+    passed: diff.mismatchPercent <= threshold,
+    mismatchPercent: Math.round(diff.mismatchPercent * 1000) / 1000,
+    diffPixels: diff.diffPixels,
+    comparedPixels: diff.comparedPixels,
+    threshold,
+    ignored,
+    diffImage: encodePng(diff.diff).toString("base64"),
+  };
+}
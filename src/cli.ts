@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+import { parseArgs } from "util";
+import { loadFlow, runFlow, type StepResult } from "./flow.js";
+
+const USAGE = `Usage: ios-sim-flow <flow.yaml|flow.json> [options]
+
+Options:
+  --udid <udid>        Simulator to run on (default: flow's udid, then the booted simulator)
+  --var <name=value>   Set a flow variable (repeatable)
+  --artifacts <dir>    Directory for failure screenshots
+  --json               Print the full JSON report instead of step lines
+  -h, --help           Show this help`;
+
+function printStep(step: StepResult) {
+  const mark = step.status === "passed" ? "✓" : step.status === "failed" ? "✗" : "-";
+  const attempts = step.attempts > 1 ? `, ${step.attempts} attempts` : "";
+  console.log(`${mark} ${step.index + 1}. ${step.name} (${step.durationMs}ms${attempts})`);
+  if (step.status === "failed") {
+    console.log(`    ${step.code ? `[${step.code}] ` : ""}${step.error}`);
+    if (step.screenshot) console.log(`    screenshot: ${step.screenshot}`);
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      udid: { type: "string" },
+      var: { type: "string", multiple: true },
+      artifacts: { type: "string" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 2);
+  }
+
+  const vars: Record<string, string> = {};
+  for (const assignment of values.var || []) {
+    const eq = assignment.indexOf("=");
+    if (eq <= 0) throw new Error(`Invalid --var '${assignment}', expected name=value`);
+    vars[assignment.slice(0, eq)] = assignment.slice(eq + 1);
+  }
+
+  const flow = loadFlow(positionals[0]);
+  const result = await runFlow(flow, {
+    udid: values.udid,
+    vars,
+    artifactsDir: values.artifacts,
+    onStep: values.json ? undefined : printStep,
+  });
+
+  if (values.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    const passed = result.steps.filter((s) => s.status === "passed").length;
+    console.log(`\n${result.passed ? "PASSED" : "FAILED"}: ${result.name} - ${passed}/${result.steps.length} steps in ${result.durationMs}ms`);
+  }
+  process.exit(result.passed ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error(`Error: ${error.message}`);
+  process.exit(2);
+});
@@ -0,0 +1,111 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { ToolError } from "./errors.js";
+
+// Which client a tool call comes from, and which simulators each client holds.
+// Over stdio there is one client; over HTTP every MCP session is its own client,
+// so two agents on a shared Mac never drive the same simulator at once.
+//
+// A client holds a simulator from its first call on it until it has been idle for
+// IDLE_LEASE_TTL. lease_simulator reserves one for longer, before using it.
+
+export interface ClientInfo {
+  id: string;
+  // Client name from the MCP handshake, shown to other clients
+  name: string;
+}
+
+export interface Lease {
+  udid: string;
+  owner: string;
+  ownerName: string;
+  expiresAt: number;
+  // Taken with lease_simulator rather than by using the simulator
+  reserved: boolean;
+}
+
+const LOCAL_CLIENT: ClientInfo = { id: "local", name: "local" };
+
+// How long a simulator stays held after a client's last call on it
+export const IDLE_LEASE_TTL = 5 * 60 * 1000;
+export const DEFAULT_LEASE_MINUTES = 30;
+export const MAX_LEASE_MINUTES = 24 * 60;
+
+const clientContext = new AsyncLocalStorage<ClientInfo>();
+const leases = new Map<string, Lease>();
+
+// Run fn, and everything it calls, on behalf of a client
+export function runAsClient<T>(client: ClientInfo, fn: () => T): T {
+  return clientContext.run(client, fn);
+}
+
+export function currentClient(): ClientInfo {
+  return clientContext.getStore() ?? LOCAL_CLIENT;
+}
+
+// Whether the call comes over stdio, from the user running the server, rather than over HTTP
+export function isLocalClient(): boolean {
+  return currentClient().id === LOCAL_CLIENT.id;
+}
+
+export function getLease(udid: string): Lease | undefined {
+  const lease = leases.get(udid);
+  if (lease && lease.expiresAt <= Date.now()) {
+    leases.delete(udid);
+    return undefined;
+  }
+  return lease;
+}
+
+export function leasedByOther(udid: string): Lease | undefined {
+  const lease = getLease(udid);
+  return lease && lease.owner !== currentClient().id ? lease : undefined;
+}
+
+export function leaseError(lease: Lease): ToolError {
+  return new ToolError(
+    "SIMULATOR_LEASED",
+    `Simulator ${lease.udid} is in use by another client (${lease.ownerName}) until ${new Date(lease.expiresAt).toISOString()}. ` +
+      "Use list_sessions to find a free simulator, or lease_simulator without udid to take one."
+  );
+}
+
+function hold(udid: string, ttl: number, reserved: boolean): Lease {
+  const other = leasedByOther(udid);
+  if (other) throw leaseError(other);
+  const client = currentClient();
+  const current = getLease(udid);
+  const expiresAt = Math.max(current?.expiresAt ?? 0, Date.now() + ttl);
+  const lease = { udid, owner: client.id, ownerName: client.name, expiresAt, reserved: reserved || !!current?.reserved };
+  leases.set(udid, lease);
+  return lease;
+}
+
+// Hold a simulator for the calling client because it is about to use it. Fails
+// when another client holds it; extends the caller's own lease.
+export function claimSimulator(udid: string): void {
+  hold(udid, IDLE_LEASE_TTL, false);
+}
+
+// Reserve a simulator for the calling client
+export function leaseSimulator(udid: string, minutes = DEFAULT_LEASE_MINUTES): Lease {
+  return hold(udid, minutes * 60 * 1000, true);
+}
+
+// Give up the caller's lease on one simulator, or on every simulator it holds.
+// Returns the released UDIDs.
+export function releaseSimulator(udid?: string): string[] {
+  const client = currentClient();
+  if (udid) {
+    const other = leasedByOther(udid);
+    if (other) throw leaseError(other);
+    return leases.delete(udid) ? [udid] : [];
+  }
+  return releaseClient(client.id);
+}
+
+// Drop every lease a client holds, e.g. when its session ends
+export function releaseClient(clientId: string): string[] {
+  const released = [...leases.values()].filter((lease) => lease.owner === clientId).map((lease) => lease.udid);
+  for (const udid of released) leases.delete(udid);
+  return released;
+}
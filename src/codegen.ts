@@ -0,0 +1,496 @@
+import YAML from "yaml";
+import { ToolError } from "./errors.js";
+import { DEFAULT_MAX_SWIPES } from "./gestures.js";
+import { characterForKey, nameForKey, parseKey, textForKey } from "./keyboard.js";
+import type { RecordedAction, RecordedElement, RecordedTarget } from "./recorder.js";
+import type { ElementSelector } from "./selector.js";
+
+// Turn a recorded session into a replayable flow, Maestro YAML or an XCUITest method
+
+export type ExportFormat = "flow" | "maestro" | "xcuitest";
+
+function firstBundleId(actions: RecordedAction[]): string | undefined {
+  return actions.find((a) => a.tool === "launch_app")?.args.bundleId as string | undefined;
+}
+
+// A recorded step a format can't express: the export fails rather than leave it out
+function unsupported(action: RecordedAction, index: number, format: string, reason: string): ToolError {
+  return new ToolError(
+    "UNSUPPORTED",
+    `Step ${index + 1} (${action.tool}) can't be exported to ${format}: ${reason}.`,
+    "Export as flow, which replays every recorded tool, or record the session again without this step."
+  );
+}
+
+// Where a point gesture landed, resolved when it was recorded
+function recordedPoint(action: RecordedAction, index: number, format: string): { x: number; y: number } {
+  if (!action.point) throw unsupported(action, index, format, "where it landed wasn't resolved when it was recorded");
+  return action.point;
+}
+
+// edge_swipe's start and end points (see gestures.ts) as fractions of the screen
+const EDGE_SWIPES: Record<string, [number, number, number, number]> = {
+  left: [0, 0.5, 0.7, 0.5],
+  right: [1, 0.5, 0.3, 0.5],
+  top: [0.5, 0, 0.5, 0.6],
+  bottom: [0.5, 1, 0.5, 0.4],
+};
+const EDGE_SWIPE_DURATION = 300;
+
+// One text field filled by fill_field or fill_form
+interface FieldFill {
+  target: RecordedTarget;
+  // What the call asked for, used when the field wasn't resolved
+  selector: ElementSelector;
+  text: string;
+  clear: boolean;
+  submit: boolean;
+  verify: boolean;
+}
+
+// fill_form is fill_field per field in order, pressing return after the last one only
+function fieldFills(action: RecordedAction): FieldFill[] {
+  const { args } = action;
+  const options = { clear: args.clear !== false, verify: args.verify !== false };
+  if (action.tool === "fill_field") {
+    const selector = { ...(args.selector as ElementSelector | undefined), ...(args.label !== undefined ? { label: args.label as string } : {}) };
+    return [{ target: action, selector, text: String(args.text), submit: args.submit === true, ...options }];
+  }
+  const entries = Object.entries(args.fields as Record<string, string>);
+  return entries.map(([label, text], i) => ({
+    target: action.fields?.[i] ?? {},
+    selector: { label },
+    text,
+    submit: args.submit === true && i === entries.length - 1,
+    ...options,
+  }));
+}
+
+// Flow (see flow.ts)
+
+function flowSteps(action: RecordedAction, index: number): Record<string, unknown>[] {
+  const { args } = action;
+  switch (action.tool) {
+    case "launch_app":
+      return [{ launchApp: args.bundleId }];
+    case "terminate_app":
+      return [{ terminateApp: args.bundleId }];
+    case "open_url":
+      return [{ openUrl: args.url }];
+    case "tap":
+    case "tap_element":
+      if (action.selector) return [{ tapElement: action.selector }];
+      return action.point ? [{ tap: action.point }] : [];
+    case "swipe":
+      return [{ swipe: args }];
+    case "long_press":
+      return [{ longPress: { ...recordedPoint(action, index, "a flow"), ...(args.duration !== undefined ? { duration: args.duration } : {}) } }];
+    case "double_tap":
+      return [{ doubleTap: recordedPoint(action, index, "a flow") }];
+    case "drag_and_drop":
+      return [{
+        dragAndDrop: {
+          from: recordedPoint(action, index, "a flow"),
+          to: action.end,
+          ...(args.holdDuration !== undefined ? { holdDuration: args.holdDuration } : {}),
+        },
+      }];
+    case "edge_swipe":
+      return [{ edgeSwipe: args.edge ?? "left" }];
+    case "scroll_to_element":
+      return [{ scrollToElement: args }];
+    case "type_text":
+      return [{ typeText: args.text }];
+    case "fill_field":
+    case "fill_form":
+      return fieldFills(action).map((fill) => ({
+        fillField: {
+          ...(fill.target.selector ?? fill.selector),
+          text: fill.text,
+          ...(fill.clear ? {} : { clear: false }),
+          ...(fill.submit ? { submit: true } : {}),
+          ...(fill.verify ? {} : { verify: false }),
+        },
+      }));
+    case "press_key":
+      return [{ pressKey: args.key }];
+    case "press_keys":
+      return [{ pressKeys: args.keys }];
+    case "press_button":
+      return [{ pressButton: args.button }];
+    default:
+      return [];
+  }
+}
+
+export function toFlow(actions: RecordedAction[], name: string): string {
+  const steps = actions.flatMap(flowSteps);
+  return JSON.stringify({ name, steps }, null, 2);
+}
+
+// Maestro
+
+// By key name (see nameForKey)
+const MAESTRO_KEYS: Record<string, string> = {
+  enter: "Enter",
+  delete: "Backspace",
+  tab: "Tab",
+};
+
+const MAESTRO_BUTTONS: Record<string, string> = {
+  home: "Home",
+  lock: "Lock",
+};
+
+// Maestro matches text as a regex
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Selector for a recorded element, by identifier or exact label
+function maestroElement(action: RecordedTarget): unknown {
+  const el = action.element;
+  const index = action.selector?.index;
+  if (el?.identifier) {
+    return index !== undefined ? { id: el.identifier, index } : { id: el.identifier };
+  }
+  if (el?.label) {
+    const text = escapeRegex(el.label);
+    return index !== undefined ? { text, index } : text;
+  }
+  return null;
+}
+
+// What tapOn, longPressOn and doubleTapOn hit: the element, or the point for unlabeled space
+function maestroTarget(action: RecordedTarget): unknown {
+  const element = maestroElement(action);
+  if (element !== null) return element;
+  if (action.point) return { point: `${Math.round(action.point.x)},${Math.round(action.point.y)}` };
+  return null;
+}
+
+function maestroTap(action: RecordedTarget): unknown {
+  const target = maestroTarget(action);
+  return target !== null ? { tapOn: target } : null;
+}
+
+function percent(fraction: number): string {
+  return `${Math.round(fraction * 100)}%`;
+}
+
+// Maestro can't read a field's value back, so fills are not verified
+function maestroFill(fill: FieldFill, action: RecordedAction, index: number): unknown[] {
+  const tap = maestroTap(fill.target);
+  if (!tap) throw unsupported(action, index, "Maestro", "the field wasn't found on the recorded screen");
+  const value = fill.target.element?.value;
+  return [
+    tap,
+    ...(fill.clear && value ? [{ eraseText: [...value].length }] : []),
+    ...(fill.text ? [{ inputText: fill.text }] : []),
+    ...(fill.submit ? [{ pressKey: "Enter" }] : []),
+  ];
+}
+
+// Maestro presses a few named keys and types text, but holds no modifiers
+function maestroKey(spec: string, action: RecordedAction, index: number): unknown {
+  const key = parseKey(spec);
+  const text = textForKey(key);
+  if (text !== null) return { inputText: text };
+  const name = key.modifiers.length === 0 ? nameForKey(key.keycode) : null;
+  if (name && MAESTRO_KEYS[name]) return { pressKey: MAESTRO_KEYS[name] };
+  const reason = key.modifiers.length > 0 ? `Maestro can't press key combos like '${spec}'` : `Maestro has no '${spec}' key`;
+  throw unsupported(action, index, "Maestro", reason);
+}
+
+function maestroCommands(action: RecordedAction, index: number): unknown[] {
+  const { args } = action;
+  switch (action.tool) {
+    case "launch_app":
+      return [{ launchApp: { appId: args.bundleId } }];
+    case "terminate_app":
+      return [{ stopApp: args.bundleId }];
+    case "open_url":
+      return [{ openLink: args.url }];
+    case "tap":
+    case "tap_element": {
+      const tap = maestroTap(action);
+      return tap ? [tap] : [];
+    }
+    case "swipe":
+      return [{
+        swipe: {
+          start: `${args.startX},${args.startY}`,
+          end: `${args.endX},${args.endY}`,
+          ...(args.duration !== undefined ? { duration: args.duration } : {}),
+        },
+      }];
+    case "long_press":
+    case "double_tap": {
+      const target = maestroTarget(action);
+      if (target === null) throw unsupported(action, index, "Maestro", "where it landed wasn't resolved when it was recorded");
+      return [{ [action.tool === "long_press" ? "longPressOn" : "doubleTapOn"]: target }];
+    }
+    case "drag_and_drop":
+      throw unsupported(action, index, "Maestro", "Maestro has no press-and-hold drag");
+    case "edge_swipe": {
+      const [startX, startY, endX, endY] = EDGE_SWIPES[(args.edge as string | undefined) ?? "left"];
+      return [{ swipe: { start: `${percent(startX)},${percent(startY)}`, end: `${percent(endX)},${percent(endY)}`, duration: EDGE_SWIPE_DURATION } }];
+    }
+    case "scroll_to_element": {
+      if (args.container !== undefined) throw unsupported(action, index, "Maestro", "Maestro can't scroll inside a given container");
+      const element = maestroElement(action);
+      if (element === null) throw unsupported(action, index, "Maestro", "the element it scrolled to has no label or identifier");
+      return [{ scrollUntilVisible: { element, direction: String(args.direction ?? "down").toUpperCase() } }];
+    }
+    case "type_text":
+      return [{ inputText: args.text }];
+    case "fill_field":
+    case "fill_form":
+      return fieldFills(action).flatMap((fill) => maestroFill(fill, action, index));
+    case "press_key":
+      return [maestroKey(String(args.key), action, index)];
+    case "press_keys":
+      return (args.keys as string[]).map((spec) => maestroKey(spec, action, index));
+    case "press_button": {
+      const button = MAESTRO_BUTTONS[String(args.button).toLowerCase()];
+      return button ? [{ pressKey: button }] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+export function toMaestro(actions: RecordedAction[]): string {
+  const appId = firstBundleId(actions) ?? "com.example.app";
+  const commands = actions.flatMap(maestroCommands);
+  return `${YAML.stringify({ appId })}---\n${YAML.stringify(commands)}`;
+}
+
+// XCUITest
+
+const XCUI_QUERIES: Record<string, string> = {
+  Button: "buttons",
+  TextField: "textFields",
+  SecureTextField: "secureTextFields",
+  TextView: "textViews",
+  SearchField: "searchFields",
+  StaticText: "staticTexts",
+  Switch: "switches",
+  Slider: "sliders",
+  Image: "images",
+  Cell: "cells",
+  Link: "links",
+  Tab: "tabs",
+};
+
+function swiftString(text: string): string {
+  const escaped = text
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r")
+    .replace(/\t/g, "\\t");
+  return `"${escaped}"`;
+}
+
+function swiftIdentifier(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const camel = words.map((w) => w[0].toUpperCase() + w.slice(1)).join("");
+  return `test${camel || "RecordedSession"}`;
+}
+
+// Label-based query for an element, e.g. app.buttons["Sign In"]
+function xcuiQuery(el: RecordedElement, index?: number): string | null {
+  const key = el.identifier || el.label;
+  if (!key) return null;
+  const collection = XCUI_QUERIES[el.type];
+  const base = collection ? `app.${collection}` : "app.descendants(matching: .any)";
+  if (index === undefined) return `${base}[${swiftString(key)}]`;
+  const matching = el.identifier
+    ? `matching(identifier: ${swiftString(key)})`
+    : `matching(NSPredicate(format: "label == %@", ${swiftString(key)}))`;
+  return `${base}.${matching}.element(boundBy: ${index})`;
+}
+
+function coordinate(x: unknown, y: unknown): string {
+  return `app.coordinate(withNormalizedOffset: .zero).withOffset(CGVector(dx: ${x}, dy: ${y}))`;
+}
+
+// By key name (see nameForKey): typed as text where the software keyboard has the key
+const XCUI_TYPED_KEYS: Record<string, string> = {
+  enter: '"\\n"',
+  tab: '"\\t"',
+  delete: "XCUIKeyboardKey.delete.rawValue",
+};
+
+// XCUIKeyboardKey members by key name
+const XCUI_KEYS: Record<string, string> = {
+  enter: "return",
+  escape: "escape",
+  delete: "delete",
+  tab: "tab",
+  space: "space",
+  capslock: "capsLock",
+  // The Help key sits where PC keyboards have Insert
+  insert: "help",
+  home: "home",
+  pageup: "pageUp",
+  forwarddelete: "forwardDelete",
+  end: "end",
+  pagedown: "pageDown",
+  right: "rightArrow",
+  left: "leftArrow",
+  down: "downArrow",
+  up: "upArrow",
+};
+for (let i = 1; i <= 12; i++) XCUI_KEYS[`f${i}`] = `F${i}`;
+
+// Modifier usage codes (see keyboard.ts) to XCUIElement.KeyModifierFlags
+const XCUI_MODIFIERS: Record<number, string> = {
+  224: ".control",
+  225: ".shift",
+  226: ".option",
+  227: ".command",
+};
+
+// Text and keys the software keyboard has are typed; anything else, combos
+// included, is sent as a hardware key press
+function xcuiKey(spec: string, action: RecordedAction, index: number): string {
+  const key = parseKey(spec);
+  const text = textForKey(key);
+  if (text !== null) return `app.typeText(${swiftString(text)})`;
+  const name = nameForKey(key.keycode);
+  if (key.modifiers.length === 0 && name && XCUI_TYPED_KEYS[name]) return `app.typeText(${XCUI_TYPED_KEYS[name]})`;
+  const char = characterForKey(key.keycode, false);
+  const keyArg = name ? (XCUI_KEYS[name] ? `.${XCUI_KEYS[name]}` : null) : char !== null ? swiftString(char) : null;
+  if (keyArg === null) throw unsupported(action, index, "XCUITest", `XCUIKeyboardKey has no '${spec}' key`);
+  return `app.typeKey(${keyArg}, modifierFlags: [${key.modifiers.map((m) => XCUI_MODIFIERS[m]).join(", ")}])`;
+}
+
+function normalizedCoordinate(x: number, y: number): string {
+  return `app.coordinate(withNormalizedOffset: CGVector(dx: ${x}, dy: ${y}))`;
+}
+
+// Swipe that moves the content the way scroll_to_element's direction does
+const XCUI_SCROLL_SWIPES: Record<string, string> = {
+  down: "swipeUp",
+  up: "swipeDown",
+  left: "swipeRight",
+  right: "swipeLeft",
+};
+
+function xcuiFill(fill: FieldFill, action: RecordedAction, index: number): string[] {
+  const { element, selector, point } = fill.target;
+  const query = element ? xcuiQuery(element, selector?.index) : null;
+  const lines: string[] = [];
+  if (query) {
+    lines.push(`XCTAssertTrue(${query}.waitForExistence(timeout: 5))`, `${query}.tap()`);
+  } else if (point) {
+    lines.push(`${coordinate(point.x, point.y)}.tap()`);
+  } else {
+    throw unsupported(action, index, "XCUITest", "the field wasn't found on the recorded screen");
+  }
+  const field = query ?? "app";
+  const length = (text: string) => [...text].length;
+  if (fill.clear && element?.value) {
+    lines.push(`${field}.typeText(String(repeating: XCUIKeyboardKey.delete.rawValue, count: ${length(element.value)}))`);
+  }
+  if (fill.text) lines.push(`${field}.typeText(${swiftString(fill.text)})`);
+  if (fill.verify && query) {
+    // Secure fields show one bullet per character
+    lines.push(
+      element?.type === "SecureTextField"
+        ? `XCTAssertEqual((${query}.value as? String)?.count, ${length(fill.text)})`
+        : `XCTAssertEqual(${query}.value as? String, ${swiftString(fill.text)})`
+    );
+  }
+  if (fill.submit) lines.push(`${field}.typeText("\\n")`);
+  return lines;
+}
+
+function xcuiLines(action: RecordedAction, index: number): string[] {
+  const { args } = action;
+  const query = action.element ? xcuiQuery(action.element, action.selector?.index) : null;
+  switch (action.tool) {
+    case "launch_app":
+      return ["app.launch()"];
+    case "terminate_app":
+      return ["app.terminate()"];
+    case "open_url":
+      return [`app.open(URL(string: ${swiftString(String(args.url))})!)`];
+    case "tap":
+    case "tap_element":
+      if (query) {
+        return [`XCTAssertTrue(${query}.waitForExistence(timeout: 5))`, `${query}.tap()`];
+      }
+      return action.point ? [`${coordinate(action.point.x, action.point.y)}.tap()`] : [];
+    case "swipe": {
+      const duration = ((args.duration as number | undefined) ?? 300) / 1000;
+      return [`${coordinate(args.startX, args.startY)}.press(forDuration: ${duration}, thenDragTo: ${coordinate(args.endX, args.endY)})`];
+    }
+    case "long_press":
+    case "double_tap": {
+      const gesture = action.tool === "long_press" ? `press(forDuration: ${((args.duration as number | undefined) ?? 1000) / 1000})` : "doubleTap()";
+      if (query) return [`XCTAssertTrue(${query}.waitForExistence(timeout: 5))`, `${query}.${gesture}`];
+      const { x, y } = recordedPoint(action, index, "XCUITest");
+      return [`${coordinate(x, y)}.${gesture}`];
+    }
+    case "drag_and_drop": {
+      const from = recordedPoint(action, index, "XCUITest");
+      const hold = ((args.holdDuration as number | undefined) ?? 800) / 1000;
+      return [`${coordinate(from.x, from.y)}.press(forDuration: ${hold}, thenDragTo: ${coordinate(action.end!.x, action.end!.y)})`];
+    }
+    case "edge_swipe": {
+      const [startX, startY, endX, endY] = EDGE_SWIPES[(args.edge as string | undefined) ?? "left"];
+      return [`${normalizedCoordinate(startX, startY)}.press(forDuration: 0.05, thenDragTo: ${normalizedCoordinate(endX, endY)})`];
+    }
+    case "scroll_to_element": {
+      if (args.container !== undefined) throw unsupported(action, index, "XCUITest", "it can't scroll inside a given container");
+      if (!query) throw unsupported(action, index, "XCUITest", "the element it scrolled to has no label or identifier");
+      const swipe = XCUI_SCROLL_SWIPES[(args.direction as string | undefined) ?? "down"];
+      const maxSwipes = (args.maxSwipes as number | undefined) ?? DEFAULT_MAX_SWIPES;
+      return [`for _ in 0..<${maxSwipes} where !${query}.isHittable { app.${swipe}() }`, `XCTAssertTrue(${query}.isHittable)`];
+    }
+    case "type_text":
+      return [`${query ?? "app"}.typeText(${swiftString(String(args.text))})`];
+    case "fill_field":
+    case "fill_form":
+      return fieldFills(action).flatMap((fill) => xcuiFill(fill, action, index));
+    case "press_key":
+      return [xcuiKey(String(args.key), action, index)];
+    case "press_keys":
+      return (args.keys as string[]).map((spec) => xcuiKey(spec, action, index));
+    case "press_button": {
+      const button = String(args.button).toLowerCase();
+      if (button === "home") return ["XCUIDevice.shared.press(.home)"];
+      return [`// press_button ${swiftString(button)} has no XCUITest equivalent`];
+    }
+    default:
+      return [];
+  }
+}
+
+export function toXCUITest(actions: RecordedAction[], name: string): string {
+  let bundleId = firstBundleId(actions);
+  const body = [bundleId ? `var app = XCUIApplication(bundleIdentifier: ${swiftString(bundleId)})` : "var app = XCUIApplication()"];
+  for (const [index, action] of actions.entries()) {
+    // Switching apps retargets every following query
+    if (action.tool === "launch_app" && action.args.bundleId !== bundleId) {
+      bundleId = action.args.bundleId as string;
+      body.push(`app = XCUIApplication(bundleIdentifier: ${swiftString(bundleId)})`);
+    }
+    body.push(...xcuiLines(action, index));
+  }
+  return [`func ${swiftIdentifier(name)}() throws {`, ...body.map((line) => `    ${line}`), "}"].join("\n") + "\n";
+}
+
+export function exportSession(actions: RecordedAction[], format: ExportFormat, name: string): string {
+  switch (format) {
+    case "maestro":
+      return toMaestro(actions);
+    case "xcuitest":
+      return toXCUITest(actions, name);
+    default:
+      return toFlow(actions, name);
+  }
+}
@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+
+import { parseArgs } from "util";
+import type * as http2 from "http2";
+import type { DeviceBackend } from "./backend.js";
+import { createFakeBackend, loadFakeModel } from "./fake-backend.js";
+import { createGrpcServer, GrpcError, GrpcStatus } from "./grpc.js";
+import { characterForKey } from "./keyboard.js";
+import { ProtoMessage, ProtoWriter } from "./protobuf.js";
+
+// Stand-in idb_companion for testing the gRPC client without a Mac: serves the
+// subset of idb.CompanionService the client uses, on top of any backend (the
+// fake one when run from the command line).
+
+const USAGE = `Usage: companion-stub [options]
+
+Options:
+  --model <file>   Fake device model (default: IOS_SIM_FAKE_MODEL)
+  --port <port>    Port to listen on (default: 10882)
+  --udid <udid>    Simulator to serve (default: the first booted one in the model)
+  -h, --help       Show this help`;
+
+const DEFAULT_PORT = 10882;
+// Held this long without moving, a touch is a long press rather than a tap
+const LONG_PRESS_MS = 400;
+// HIDEvent.HIDButtonType, by enum value
+const BUTTON_NAMES = ["apple_pay", "home", "lock", "side_button", "siri"];
+const MODIFIER_KEYS = [224, 225, 226, 227, 228, 229, 230, 231];
+const SHIFT_KEYS = [225, 229];
+const DOWN = 0;
+
+// Turn a stream of HID events back into backend gestures
+async function replayHid(backend: DeviceBackend, udid: string, events: ProtoMessage[]): Promise<void> {
+  // Virtual clock advanced by delay events, for hold times
+  let elapsed = 0;
+  let path: { x: number; y: number }[] = [];
+  let downAt = 0;
+  let holdMs: number | null = null;
+  const held = new Set<number>();
+
+  for (const event of events) {
+    const press = event.message(1);
+    const swipe = event.message(2);
+    const delay = event.message(3);
+    if (delay) {
+      elapsed += delay.double(1) * 1000;
+    } else if (swipe) {
+      const start = swipe.message(1);
+      const end = swipe.message(2);
+      const duration = swipe.double(4);
+      await backend.swipe(udid, start?.double(1) ?? 0, start?.double(2) ?? 0, end?.double(1) ?? 0, end?.double(2) ?? 0, duration ? duration * 1000 : undefined);
+    } else if (press) {
+      const action = press.message(1);
+      const down = press.uint(2) === DOWN;
+      const touch = action?.message(1)?.message(1);
+      const button = action?.message(2);
+      const key = action?.message(3);
+
+      if (touch) {
+        const point = { x: touch.double(1), y: touch.double(2) };
+        if (down) {
+          if (path.length === 0) downAt = elapsed;
+          else if (holdMs === null) holdMs = elapsed - downAt;
+          path.push(point);
+          continue;
+        }
+        const start = path[0] ?? point;
+        const moved = [...path, point].some((p) => p.x !== start.x || p.y !== start.y);
+        if (moved) await backend.drag(udid, start.x, start.y, point.x, point.y, holdMs ?? 0);
+        else if (elapsed - downAt >= LONG_PRESS_MS) await backend.longPress(udid, point.x, point.y, elapsed - downAt);
+        else await backend.tap(udid, point.x, point.y);
+        path = [];
+        holdMs = null;
+      } else if (button && !down) {
+        const name = BUTTON_NAMES[button.uint(1)];
+        if (!name) throw new GrpcError(GrpcStatus.INVALID_ARGUMENT, `Unknown button ${button.uint(1)}`);
+        await backend.pressButton(udid, name);
+      } else if (key) {
+        const keycode = key.uint(1);
+        if (MODIFIER_KEYS.includes(keycode)) {
+          if (down) held.add(keycode);
+          else held.delete(keycode);
+          continue;
+        }
+        if (down) continue;
+        // Printable keys with at most shift held type their character, as on a keyboard
+        const shift = [...held].some((k) => SHIFT_KEYS.includes(k));
+        const char = [...held].every((k) => SHIFT_KEYS.includes(k)) ? characterForKey(keycode, shift) : null;
+        if (char !== null) await backend.typeText(udid, char);
+        else await backend.pressKey(udid, keycode, [...held]);
+      }
+    }
+  }
+}
+
+export function createStubCompanion(backend: DeviceBackend, udid: string): http2.Http2Server {
+  const empty = async () => [new ProtoWriter().finish()];
+  const first = (requests: Buffer[]) => new ProtoMessage(requests[0] ?? Buffer.alloc(0));
+
+  return createGrpcServer({
+    "/idb.CompanionService/describe": async () => {
+      const sim = (await backend.listSimulators()).find((s) => s.udid === udid);
+      const size = await backend.getScreenSize(udid);
+      const dimensions = new ProtoWriter()
+        .uint(1, size.pixels.width)
+        .uint(2, size.pixels.height)
+        .double(3, size.scale)
+        .uint(4, size.points.width)
+        .uint(5, size.points.height);
+      const target = new ProtoWriter()
+        .string(1, udid)
+        .string(2, sim?.name ?? "")
+        .message(3, dimensions)
+        .string(4, sim?.state ?? "")
+        .string(5, sim?.type ?? "simulator")
+        .string(6, sim?.os_version ?? "");
+      return [new ProtoWriter().message(1, target).finish()];
+    },
+
+    "/idb.CompanionService/accessibility_info": async (requests) => {
+      const request = first(requests);
+      const point = request.message(1);
+      const json = point ? await backend.describePoint(udid, point.double(1), point.double(2)) : JSON.stringify(await backend.describeScreen(udid));
+      return [new ProtoWriter().string(1, json).finish()];
+    },
+
+    "/idb.CompanionService/screenshot": async () => {
+      const png = Buffer.from(await backend.takeScreenshot(udid), "base64");
+      return [new ProtoWriter().bytes(1, png).string(2, "png").finish()];
+    },
+
+    "/idb.CompanionService/hid": async (requests) => {
+      await replayHid(backend, udid, requests.map((r) => new ProtoMessage(r)));
+      return empty();
+    },
+
+    "/idb.CompanionService/launch": async (requests) => {
+      const bundleId = first(requests).message(1)?.string(1);
+      if (!bundleId) throw new GrpcError(GrpcStatus.INVALID_ARGUMENT, "launch needs a start request with a bundle ID");
+      await backend.launchApp(udid, bundleId);
+      return [];
+    },
+
+    "/idb.CompanionService/terminate": async (requests) => {
+      await backend.terminateApp(udid, first(requests).string(1));
+      return empty();
+    },
+
+    "/idb.CompanionService/open_url": async (requests) => {
+      await backend.openUrl(udid, first(requests).string(1));
+      return empty();
+    },
+
+    "/idb.CompanionService/set_location": async (requests) => {
+      const location = first(requests).message(1);
+      await backend.setLocation(udid, { latitude: location?.double(1) ?? 0, longitude: location?.double(2) ?? 0 });
+      return empty();
+    },
+
+    "/idb.CompanionService/clear_keychain": async () => {
+      await backend.clearKeychain(udid);
+      return empty();
+    },
+  });
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      model: { type: "string" },
+      port: { type: "string" },
+      udid: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const modelPath = values.model ?? process.env.IOS_SIM_FAKE_MODEL;
+  if (!modelPath) throw new Error("Pass --model or set IOS_SIM_FAKE_MODEL to a fake device model JSON file.");
+  const backend = createFakeBackend(loadFakeModel(modelPath));
+  const udid = values.udid ?? (await backend.listSimulators()).find((s) => s.state === "Booted")?.udid;
+  if (!udid) throw new Error("The model has no booted simulator; pass --udid.");
+  const port = values.port ? Number(values.port) : DEFAULT_PORT;
+
+  const server = createStubCompanion(backend, udid);
+  server.listen(port, () => console.error(`Stub companion for ${udid} listening on port ${port}`));
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(`Error: ${error.message}`);
+    process.exit(2);
+  });
+}
@@ -0,0 +1,312 @@
+import type { DeviceBackend } from "./backend.js";
+import { classifyMessage, ToolError } from "./errors.js";
+import { GrpcChannel, GrpcError, GrpcStatus } from "./grpc.js";
+import { parseCharacter } from "./keyboard.js";
+import { ProtoMessage, ProtoWriter } from "./protobuf.js";
+
+// Direct gRPC client for idb_companion (idb.CompanionService), layered over the
+// idb CLI backend. Taps, gestures, keys, the accessibility tree, screenshots and
+// a few app calls go straight to the companion over a pooled HTTP/2 connection;
+// everything else, and every call while a companion is unreachable, uses the CLI.
+
+export interface CompanionAddress {
+  // Simulator the companion serves; learned from the companion when not given
+  udid?: string;
+  // host:port
+  address: string;
+}
+
+const SERVICE = "/idb.CompanionService/";
+// How long an unreachable companion is skipped before it is tried again
+const RETRY_AFTER = 30000;
+// Waits before each retry of a call the companion did not answer, before
+// falling back to the CLI
+const RETRY_DELAYS = [250, 500];
+// Deadline for the describe call that finds out which simulator a companion serves
+const DISCOVERY_TIMEOUT = 2000;
+// Distance between touch points while dragging, in points
+const DRAG_STEP = 10;
+const DRAG_STEP_DELAY = 10;
+
+// HIDEvent.HIDDirection
+const DOWN = 0;
+const UP = 1;
+// HIDEvent.HIDButtonType
+const BUTTONS: Record<string, number> = { apple_pay: 0, home: 1, lock: 2, side_button: 3, siri: 4 };
+// AccessibilityInfoRequest.Format
+const LEGACY = 0;
+const NESTED = 1;
+// Left shift usage code, held for capitals and shifted symbols
+const SHIFT = 225;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A companion error status as a classified error
+function companionError(error: GrpcError): ToolError {
+  const message = `idb companion: ${error.message}`;
+  if (error.code === GrpcStatus.DEADLINE_EXCEEDED) return new ToolError("TIMEOUT", message);
+  if (error.code === GrpcStatus.INVALID_ARGUMENT) return new ToolError("INVALID_ARGUMENT", message);
+  if (error.code === GrpcStatus.UNKNOWN && /dropped/.test(error.message)) {
+    return new ToolError("UNKNOWN", message, "The action may have happened. Check the screen with describe_screen before repeating it.");
+  }
+  const code = classifyMessage(error.message);
+  return new ToolError(code === "COMPANION_UNREACHABLE" ? "UNKNOWN" : code, message);
+}
+
+// Parse IOS_SIM_COMPANION: comma-separated `host:port` or `udid=host:port` entries
+export function parseCompanionAddresses(spec: string): CompanionAddress[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [udid, address] = entry.includes("=") ? entry.split("=", 2).map((part) => part.trim()) : [undefined, entry];
+      if (!/^[^\s:]+:\d+$/.test(address)) {
+        throw new Error(`Invalid IOS_SIM_COMPANION entry '${entry}'. Use host:port or udid=host:port, e.g. localhost:10882.`);
+      }
+      return udid ? { udid, address } : { address };
+    });
+}
+
+function point(x: number, y: number): ProtoWriter {
+  return new ProtoWriter().double(1, x).double(2, y);
+}
+
+function press(action: ProtoWriter, direction: number): ProtoWriter {
+  return new ProtoWriter().message(1, new ProtoWriter().message(1, action).uint(2, direction));
+}
+
+function touch(x: number, y: number, direction: number): ProtoWriter {
+  return press(new ProtoWriter().message(1, new ProtoWriter().message(1, point(x, y))), direction);
+}
+
+function key(keycode: number, direction: number): ProtoWriter {
+  return press(new ProtoWriter().message(3, new ProtoWriter().uint(1, keycode)), direction);
+}
+
+function button(type: number, direction: number): ProtoWriter {
+  return press(new ProtoWriter().message(2, new ProtoWriter().uint(1, type)), direction);
+}
+
+function delay(ms: number): ProtoWriter {
+  return new ProtoWriter().message(3, new ProtoWriter().double(1, ms / 1000));
+}
+
+function swipe(startX: number, startY: number, endX: number, endY: number, durationMs?: number): ProtoWriter {
+  const event = new ProtoWriter().message(1, point(startX, startY)).message(2, point(endX, endY));
+  if (durationMs) event.double(4, durationMs / 1000);
+  return new ProtoWriter().message(2, event);
+}
+
+// Key presses with modifiers held down around the key
+function keyEvents(keycode: number, modifiers: number[]): ProtoWriter[] {
+  return [
+    ...modifiers.map((m) => key(m, DOWN)),
+    key(keycode, DOWN),
+    key(keycode, UP),
+    ...[...modifiers].reverse().map((m) => key(m, UP)),
+  ];
+}
+
+// Key events that type the text, or null if a character has no key on the US layout
+function textEvents(text: string): ProtoWriter[] | null {
+  const events: ProtoWriter[] = [];
+  for (const char of text) {
+    const parsed = parseCharacter(char);
+    if (!parsed) return null;
+    events.push(...keyEvents(parsed.keycode, parsed.shift ? [SHIFT] : []));
+  }
+  return events;
+}
+
+export function createCompanionBackend(cli: DeviceBackend, addresses: CompanionAddress[]): DeviceBackend {
+  const channels = new Map(addresses.map((a) => [a.address, new GrpcChannel(a.address)]));
+  const byUdid = new Map<string, GrpcChannel>();
+  for (const a of addresses) if (a.udid) byUdid.set(a.udid, channels.get(a.address)!);
+  // Address -> time until which it is skipped
+  const downUntil = new Map<string, number>();
+
+  const isDown = (address: string) => (downUntil.get(address) ?? 0) > Date.now();
+
+  async function rpc(channel: GrpcChannel, method: string, requests: ProtoWriter[], timeout?: number): Promise<ProtoMessage[]> {
+    const responses = await channel.call(SERVICE + method, requests.map((r) => r.finish()), timeout);
+    return responses.map((r) => new ProtoMessage(r));
+  }
+
+  // Ask companions without a configured UDID which simulator they serve
+  async function discover(): Promise<void> {
+    const known = new Set(byUdid.values());
+    const pending = [...channels.values()].filter((c) => !known.has(c) && !isDown(c.address));
+    await Promise.all(
+      pending.map(async (channel) => {
+        try {
+          const [response] = await rpc(channel, "describe", [new ProtoWriter()], DISCOVERY_TIMEOUT);
+          const udid = response?.message(1)?.string(1);
+          if (udid) byUdid.set(udid, channel);
+        } catch {
+          downUntil.set(channel.address, Date.now() + RETRY_AFTER);
+        }
+      })
+    );
+  }
+
+  async function channelFor(udid: string): Promise<GrpcChannel | null> {
+    if (!byUdid.has(udid)) await discover();
+    const channel = byUdid.get(udid);
+    return channel && !isDown(channel.address) ? channel : null;
+  }
+
+  // Run over gRPC when a companion serves the simulator. A call that never reached
+  // the companion is retried with backoff; after that, and when there is no companion
+  // or it doesn't implement the call, the CLI runs it instead. In those cases the
+  // companion did nothing, so nothing runs twice. A connection that drops after the
+  // request went out fails the call: the companion may already have acted on it.
+  async function viaCompanion<T>(udid: string, call: (channel: GrpcChannel) => Promise<T>, fallback: () => Promise<T>): Promise<T> {
+    const channel = await channelFor(udid);
+    if (!channel) return await fallback();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await call(channel);
+      } catch (error) {
+        if (!(error instanceof GrpcError)) throw error;
+        if (error.code === GrpcStatus.UNAVAILABLE) {
+          if (attempt < RETRY_DELAYS.length) {
+            await sleep(RETRY_DELAYS[attempt]);
+            continue;
+          }
+          downUntil.set(channel.address, Date.now() + RETRY_AFTER);
+          channel.close();
+          return await fallback();
+        }
+        if (error.code === GrpcStatus.UNIMPLEMENTED) return await fallback();
+        throw companionError(error);
+      }
+    }
+  }
+
+  async function hid(udid: string, events: ProtoWriter[], fallback: () => Promise<void>): Promise<void> {
+    await viaCompanion(udid, async (channel) => void (await rpc(channel, "hid", events)), fallback);
+  }
+
+  async function accessibilityInfo(channel: GrpcChannel, request: ProtoWriter): Promise<string> {
+    const [response] = await rpc(channel, "accessibility_info", [request]);
+    return response?.string(1) ?? "";
+  }
+
+  return {
+    ...cli,
+    name: "idb-companion",
+
+    async takeScreenshot(udid) {
+      return await viaCompanion(
+        udid,
+        async (channel) => {
+          const [response] = await rpc(channel, "screenshot", [new ProtoWriter()]);
+          return (response?.bytes(1) ?? Buffer.alloc(0)).toString("base64");
+        },
+        () => cli.takeScreenshot(udid)
+      );
+    },
+
+    async getScreenSize(udid) {
+      return await viaCompanion(
+        udid,
+        async (channel) => {
+          const [response] = await rpc(channel, "describe", [new ProtoWriter()]);
+          const dimensions = response?.message(1)?.message(3);
+          if (!dimensions || !dimensions.uint(4)) return await cli.getScreenSize(udid);
+          return {
+            pixels: { width: dimensions.uint(1), height: dimensions.uint(2) },
+            points: { width: dimensions.uint(4), height: dimensions.uint(5) },
+            scale: dimensions.double(3) || Math.round(dimensions.uint(1) / dimensions.uint(4)),
+          };
+        },
+        () => cli.getScreenSize(udid)
+      );
+    },
+
+    async launchApp(udid, bundleId) {
+      const start = new ProtoWriter().string(1, bundleId);
+      await viaCompanion(udid, async (channel) => void (await rpc(channel, "launch", [new ProtoWriter().message(1, start)])), () => cli.launchApp(udid, bundleId));
+    },
+
+    async terminateApp(udid, bundleId) {
+      await viaCompanion(udid, async (channel) => void (await rpc(channel, "terminate", [new ProtoWriter().string(1, bundleId)])), () => cli.terminateApp(udid, bundleId));
+    },
+
+    async tap(udid, x, y) {
+      await hid(udid, [touch(x, y, DOWN), touch(x, y, UP)], () => cli.tap(udid, x, y));
+    },
+
+    async longPress(udid, x, y, durationMs) {
+      await hid(udid, [touch(x, y, DOWN), delay(durationMs), touch(x, y, UP)], () => cli.longPress(udid, x, y, durationMs));
+    },
+
+    async swipe(udid, startX, startY, endX, endY, duration) {
+      await hid(udid, [swipe(startX, startY, endX, endY, duration)], () => cli.swipe(udid, startX, startY, endX, endY, duration));
+    },
+
+    // A real drag: the finger stays down through the hold, the move and the drop
+    async drag(udid, startX, startY, endX, endY, holdMs) {
+      const steps = Math.max(1, Math.ceil(Math.hypot(endX - startX, endY - startY) / DRAG_STEP));
+      const events = [touch(startX, startY, DOWN), delay(holdMs)];
+      for (let i = 1; i <= steps; i++) {
+        events.push(touch(startX + ((endX - startX) * i) / steps, startY + ((endY - startY) * i) / steps, DOWN), delay(DRAG_STEP_DELAY));
+      }
+      events.push(delay(holdMs), touch(endX, endY, UP));
+      await hid(udid, events, () => cli.drag(udid, startX, startY, endX, endY, holdMs));
+    },
+
+    async typeText(udid, text) {
+      const events = textEvents(text);
+      if (!events) return await cli.typeText(udid, text);
+      await hid(udid, events, () => cli.typeText(udid, text));
+    },
+
+    async pressKey(udid, keycode, modifiers) {
+      await hid(udid, keyEvents(keycode, modifiers), () => cli.pressKey(udid, keycode, modifiers));
+    },
+
+    async pressKeySequence(udid, keycodes) {
+      await hid(udid, keycodes.flatMap((k) => keyEvents(k, [])), () => cli.pressKeySequence(udid, keycodes));
+    },
+
+    async pressButton(udid, name) {
+      const type = BUTTONS[name];
+      if (type === undefined) return await cli.pressButton(udid, name);
+      await hid(udid, [button(type, DOWN), button(type, UP)], () => cli.pressButton(udid, name));
+    },
+
+    async openUrl(udid, url) {
+      await viaCompanion(udid, async (channel) => void (await rpc(channel, "open_url", [new ProtoWriter().string(1, url)])), () => cli.openUrl(udid, url));
+    },
+
+    async describeScreen(udid) {
+      return await viaCompanion(
+        udid,
+        async (channel) => {
+          const raw = JSON.parse((await accessibilityInfo(channel, new ProtoWriter().uint(2, NESTED))) || "[]");
+          return Array.isArray(raw) ? raw : [raw];
+        },
+        () => cli.describeScreen(udid)
+      );
+    },
+
+    async describePoint(udid, x, y) {
+      return await viaCompanion(
+        udid,
+        (channel) => accessibilityInfo(channel, new ProtoWriter().message(1, point(x, y)).uint(2, LEGACY)),
+        () => cli.describePoint(udid, x, y)
+      );
+    },
+
+    async setLocation(udid, location) {
+      const request = new ProtoWriter().message(1, new ProtoWriter().double(1, location.latitude).double(2, location.longitude));
+      await viaCompanion(udid, async (channel) => void (await rpc(channel, "set_location", [request])), () => cli.setLocation(udid, location));
+    },
+
+    async clearKeychain(udid) {
+      await viaCompanion(udid, async (channel) => void (await rpc(channel, "clear_keychain", [new ProtoWriter()])), () => cli.clearKeychain(udid));
+    },
+  };
+}
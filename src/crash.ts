@@ -0,0 +1,170 @@
+import { getBackend } from "./backend.js";
+import type { CrashLogInfo } from "./types.js";
+
+// Crash reports: parsing of both the legacy text format and the JSON .ips format
+// (iOS 15+), and detection of new crashes after interaction tools.
+
+export interface CrashSummary {
+  name: string;
+  process: string;
+  bundleId: string | null;
+  timestamp: string | null;
+  exceptionType: string | null;
+  // Abort message, assertion text or termination reason when the report has one
+  reason: string | null;
+  crashedThread: number | null;
+  // "0  libswiftCore.dylib  _assertionFailure + 244"
+  topFrames: string[];
+}
+
+export const TOP_FRAMES = 8;
+
+// Tools after which new crash reports are looked for when IOS_SIM_CRASH_CHECK is set
+export const CRASH_CHECKED_TOOLS = [
+  "launch_app",
+  "tap",
+  "tap_element",
+  "swipe",
+  "long_press",
+  "double_tap",
+  "drag_and_drop",
+  "edge_swipe",
+  "scroll_to_element",
+  "type_text",
+  "fill_field",
+  "fill_form",
+  "press_key",
+  "press_keys",
+  "press_button",
+  "open_url",
+];
+
+function parseJsonReport(name: string, text: string): CrashSummary | null {
+  // First line is a JSON header, the rest the JSON body
+  const newline = text.indexOf("\n");
+  if (!text.trimStart().startsWith("{") || newline < 0) return null;
+  let header: any;
+  let body: any;
+  try {
+    header = JSON.parse(text.slice(0, newline));
+    body = JSON.parse(text.slice(newline + 1));
+  } catch {
+    return null;
+  }
+
+  const exception = body.exception ?? {};
+  const exceptionType = exception.type ? `${exception.type}${exception.signal ? ` (${exception.signal})` : ""}` : null;
+  const crashedThread: number | null = typeof body.faultingThread === "number" ? body.faultingThread : null;
+  const threads: any[] = Array.isArray(body.threads) ? body.threads : [];
+  const thread = threads.find((t) => t.triggered) ?? (crashedThread !== null ? threads[crashedThread] : undefined);
+  const images: any[] = Array.isArray(body.usedImages) ? body.usedImages : [];
+  const topFrames = (thread?.frames ?? []).slice(0, TOP_FRAMES).map((frame: any, i: number) => {
+    const image = images[frame.imageIndex]?.name ?? "???";
+    const symbol = frame.symbol ? `${frame.symbol} + ${frame.symbolLocation ?? 0}` : `0x${Number(frame.imageOffset ?? 0).toString(16)}`;
+    return `${i}  ${image}  ${symbol}`;
+  });
+  const asi = body.asi ? Object.values(body.asi).flat().join(" ") : "";
+
+  return {
+    name,
+    process: body.procName ?? header.app_name ?? header.name ?? "",
+    bundleId: body.bundleInfo?.CFBundleIdentifier ?? header.bundleID ?? null,
+    timestamp: header.timestamp ?? body.captureTime ?? null,
+    exceptionType,
+    reason: asi || body.termination?.indicator || null,
+    crashedThread: crashedThread ?? (thread ? threads.indexOf(thread) : null),
+    topFrames,
+  };
+}
+
+function field(text: string, label: string): string | null {
+  const match = text.match(new RegExp(`^${label}:\\s*(.+)$`, "m"));
+  return match ? match[1].trim() : null;
+}
+
+function parseTextReport(name: string, text: string): CrashSummary {
+  const threadField = field(text, "Triggered by Thread") ?? field(text, "Crashed Thread");
+  const crashedThread = threadField !== null ? parseInt(threadField, 10) : null;
+  const topFrames: string[] = [];
+  const section = text.match(/^Thread \d+ Crashed:.*$/m);
+  if (section?.index !== undefined) {
+    for (const line of text.slice(section.index).split("\n").slice(1)) {
+      // "0   libsystem_kernel.dylib        0x00000001 __pthread_kill + 8"
+      const frame = line.match(/^(\d+)\s+(\S+)\s+0x[0-9a-fA-F]+\s+(.*)$/);
+      if (!frame) break;
+      topFrames.push(`${frame[1]}  ${frame[2]}  ${frame[3].trim()}`);
+      if (topFrames.length === TOP_FRAMES) break;
+    }
+  }
+  const reason = text.match(/^Application Specific Information:\n(.+)$/m)?.[1].trim() ?? field(text, "Termination Reason");
+
+  return {
+    name,
+    process: (field(text, "Process") ?? "").replace(/\s*\[\d+\]$/, ""),
+    bundleId: field(text, "Identifier"),
+    timestamp: field(text, "Date/Time"),
+    exceptionType: field(text, "Exception Type"),
+    reason,
+    crashedThread: Number.isNaN(crashedThread) ? null : crashedThread,
+    topFrames,
+  };
+}
+
+export function parseCrashReport(name: string, text: string): CrashSummary {
+  return parseJsonReport(name, text) ?? parseTextReport(name, text);
+}
+
+export async function listCrashes(udid: string, bundleId?: string): Promise<CrashLogInfo[]> {
+  const crashes = await getBackend().listCrashes(udid);
+  return crashes
+    .filter((c) => !bundleId || c.bundleId === bundleId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export async function getCrash(udid: string, name: string): Promise<{ summary: CrashSummary; report: string }> {
+  const report = await getBackend().getCrash(udid, name);
+  return { summary: parseCrashReport(name, report), report };
+}
+
+export async function clearCrashes(udid: string, bundleId?: string): Promise<number> {
+  const crashes = await listCrashes(udid, bundleId);
+  for (const crash of crashes) await getBackend().deleteCrash(udid, crash.name);
+  return crashes.length;
+}
+
+export function crashCheckEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return ["1", "true", "yes"].includes((env.IOS_SIM_CRASH_CHECK || "").toLowerCase());
+}
+
+// Per simulator: newest crash timestamp already reported (seconds)
+const watermarks = new Map<string, number>();
+
+// Crash reports written since the previous check. The first check only records
+// the watermark, so reports from before the server started are not reported.
+export async function newCrashes(udid: string): Promise<CrashSummary[]> {
+  const crashes = await listCrashes(udid);
+  const newest = crashes.reduce((max, c) => Math.max(max, c.timestamp), 0);
+  const watermark = watermarks.get(udid);
+  watermarks.set(udid, Math.max(newest, watermark ?? 0));
+  if (watermark === undefined) return [];
+
+  const fresh = crashes.filter((c) => c.timestamp > watermark);
+  return await Promise.all(fresh.map(async (c) => (await getCrash(udid, c.name)).summary));
+}
+
+// Start watching a simulator, so crashes caused by the next call are reported
+export async function primeCrashWatch(udid: string): Promise<void> {
+  if (!watermarks.has(udid)) await newCrashes(udid);
+}
+
+export function formatCrashSummary(crash: CrashSummary): string {
+  const lines = [
+    `App crashed: ${crash.process}${crash.bundleId ? ` (${crash.bundleId})` : ""}${crash.exceptionType ? ` - ${crash.exceptionType}` : ""}`,
+  ];
+  if (crash.reason) lines.push(`Reason: ${crash.reason}`);
+  if (crash.topFrames.length > 0) {
+    lines.push(`Thread ${crash.crashedThread ?? "?"} crashed:`, ...crash.topFrames.slice(0, 5).map((f) => `  ${f}`));
+  }
+  lines.push(`Full report: get_crash(name: "${crash.name}")`);
+  return lines.join("\n");
+}
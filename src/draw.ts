@@ -0,0 +1,63 @@
+import type { Bitmap } from "./png.js";
+
+// Pixel drawing on RGBA bitmaps, for annotated screenshots
+
+export type Color = [number, number, number];
+
+// 5x7 glyphs for digits, one string per row
+const DIGITS: Record<string, string[]> = {
+  "0": ["01110", "10001", "10011", "10101", "11001", "10001", "01110"],
+  "1": ["00100", "01100", "00100", "00100", "00100", "00100", "01110"],
+  "2": ["01110", "10001", "00001", "00010", "00100", "01000", "11111"],
+  "3": ["11111", "00010", "00100", "00010", "00001", "10001", "01110"],
+  "4": ["00010", "00110", "01010", "10010", "11111", "00010", "00010"],
+  "5": ["11111", "10000", "11110", "00001", "00001", "10001", "01110"],
+  "6": ["00110", "01000", "10000", "11110", "10001", "10001", "01110"],
+  "7": ["11111", "00001", "00010", "00100", "01000", "01000", "01000"],
+  "8": ["01110", "10001", "10001", "01110", "10001", "10001", "01110"],
+  "9": ["01110", "10001", "10001", "01111", "00001", "00010", "01100"],
+};
+
+export const GLYPH_WIDTH = 5;
+export const GLYPH_HEIGHT = 7;
+
+export function fillRect(bitmap: Bitmap, x: number, y: number, width: number, height: number, color: Color, alpha = 1): void {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(bitmap.width, Math.ceil(x + width));
+  const y1 = Math.min(bitmap.height, Math.ceil(y + height));
+  for (let py = y0; py < y1; py++) {
+    for (let px = x0; px < x1; px++) {
+      const i = (py * bitmap.width + px) * 4;
+      for (let c = 0; c < 3; c++) {
+        bitmap.data[i + c] = Math.round(bitmap.data[i + c] * (1 - alpha) + color[c] * alpha);
+      }
+      bitmap.data[i + 3] = 255;
+    }
+  }
+}
+
+export function strokeRect(bitmap: Bitmap, x: number, y: number, width: number, height: number, color: Color, thickness: number): void {
+  fillRect(bitmap, x, y, width, thickness, color);
+  fillRect(bitmap, x, y + height - thickness, width, thickness, color);
+  fillRect(bitmap, x, y, thickness, height, color);
+  fillRect(bitmap, x + width - thickness, y, thickness, height, color);
+}
+
+// Size of text drawn with drawDigits at the given pixel size per glyph dot
+export function measureDigits(text: string, size: number): { width: number; height: number } {
+  return { width: text.length * (GLYPH_WIDTH + 1) * size - size, height: GLYPH_HEIGHT * size };
+}
+
+export function drawDigits(bitmap: Bitmap, text: string, x: number, y: number, size: number, color: Color): void {
+  for (const [n, ch] of [...text].entries()) {
+    const glyph = DIGITS[ch];
+    if (!glyph) continue;
+    const gx = x + n * (GLYPH_WIDTH + 1) * size;
+    glyph.forEach((row, gy) => {
+      for (let dx = 0; dx < GLYPH_WIDTH; dx++) {
+        if (row[dx] === "1") fillRect(bitmap, gx + dx * size, y + gy * size, size, size, color);
+      }
+    });
+  }
+}
@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import type { RawAXNode, UIElement } from "./types.js";
+
+// Parsed element that keeps its children and the raw AX fields
+export interface ElementNode extends UIElement {
+  identifier?: string;
+  role?: string;
+  roleDescription?: string;
+  // Accessibility hint
+  help?: string;
+  traits?: unknown;
+  children: ElementNode[];
+}
+
+// Element plus the containers it sits in
+export interface ElementEntry {
+  element: UIElement;
+  node: ElementNode;
+  ancestors: ElementNode[];
+}
+
+const LISTED_TYPES = ["Button", "TextField", "StaticText", "Image", "Switch", "Slider", "Application"];
+
+// Parse raw idb element to our format. IDs are assigned by parseTree.
+function parseElement(raw: RawAXNode): ElementNode {
+  return {
+    id: "",
+    type: raw.type || raw.role || "Unknown",
+    label: raw.AXLabel || null,
+    value: raw.AXValue || null,
+    frame: raw.frame || { x: 0, y: 0, width: 0, height: 0 },
+    enabled: raw.enabled ?? true,
+    identifier: raw.AXUniqueId || undefined,
+    role: raw.role || undefined,
+    roleDescription: raw.role_description || undefined,
+    help: raw.help || undefined,
+    traits: raw.traits ?? undefined,
+    children: raw.children?.map(parseElement) || [],
+  };
+}
+
+// Stable element IDs: hash of the type path from the root (with sibling
+// position among same-type siblings) plus identifier and label, so an element
+// keeps its ID across polls as long as its place in the tree doesn't change.
+function assignIds(nodes: ElementNode[], parentPath: string, seen: Set<string>): void {
+  const typeCounts = new Map<string, number>();
+  for (const node of nodes) {
+    const n = typeCounts.get(node.type) || 0;
+    typeCounts.set(node.type, n + 1);
+    const nodePath = `${parentPath}/${node.type}[${n}]`;
+
+    const hash = createHash("sha1")
+      .update(`${nodePath}|${node.identifier ?? ""}|${node.label ?? ""}`)
+      .digest("hex");
+    let id = `e${hash.slice(0, 8)}`;
+    for (let i = 2; seen.has(id); i++) {
+      id = `e${hash.slice(0, 8)}-${i}`;
+    }
+    seen.add(id);
+    node.id = id;
+
+    assignIds(node.children, nodePath, seen);
+  }
+}
+
+export function parseTree(raw: RawAXNode[]): ElementNode[] {
+  const nodes = raw.map(parseElement);
+  assignIds(nodes, "", new Set());
+  return nodes;
+}
+
+export function toElement(node: ElementNode): UIElement {
+  const { id, type, label, value, frame, enabled } = node;
+  return { id, type, label, value, frame, enabled };
+}
+
+// Nested JSON for describe_screen mode "tree"
+export function toTreeJson(node: ElementNode): object {
+  const { children, ...rest } = node;
+  return children.length > 0 ? { ...rest, children: children.map(toTreeJson) } : rest;
+}
+
+// Every node in document order
+export function walkEntries(nodes: ElementNode[], ancestors: ElementNode[] = [], result: ElementEntry[] = []): ElementEntry[] {
+  for (const node of nodes) {
+    result.push({ element: toElement(node), node, ancestors });
+    walkEntries(node.children, [...ancestors, node], result);
+  }
+  return result;
+}
+
+// Flatten element tree to the list shown by describe_screen
+export function flattenElements(nodes: ElementNode[]): UIElement[] {
+  return walkEntries(nodes)
+    .filter((entry) => entry.element.label || LISTED_TYPES.includes(entry.element.type))
+    .map((entry) => entry.element);
+}
+
+export function findNode(nodes: ElementNode[], id: string): ElementNode | null {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findNode(node.children, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+function contains(node: UIElement, x: number, y: number): boolean {
+  const { frame } = node;
+  return x >= frame.x && x <= frame.x + frame.width && y >= frame.y && y <= frame.y + frame.height;
+}
+
+// Topmost element under a point, preferring labeled or identified ones
+export function elementAtPoint(nodes: ElementNode[], x: number, y: number): ElementNode | null {
+  let hit: ElementNode | null = null;
+  let labeled: ElementNode | null = null;
+  for (const { node } of walkEntries(nodes)) {
+    if (!contains(node, x, y)) continue;
+    hit = node;
+    if (node.label || node.identifier) labeled = node;
+  }
+  return labeled ?? hit;
+}
+
+export function elementCenter(el: UIElement): { x: number; y: number } {
+  return {
+    x: Math.round(el.frame.x + el.frame.width / 2),
+    y: Math.round(el.frame.y + el.frame.height / 2),
+  };
+}
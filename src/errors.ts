@@ -0,0 +1,76 @@
+// Classified errors. Every failed tool call carries one of these codes in its
+// structured content, so agents and flows can branch on the kind of failure
+// rather than parse the message.
+
+export const ERROR_CODES = [
+  "IDB_NOT_FOUND",
+  "COMPANION_UNREACHABLE",
+  "SIMULATOR_NOT_BOOTED",
+  "SIMULATOR_LEASED",
+  "APP_NOT_INSTALLED",
+  "ELEMENT_NOT_FOUND",
+  "ASSERTION_FAILED",
+  "TIMEOUT",
+  "INVALID_ARGUMENT",
+  "PRECONDITION_FAILED",
+  "UNSUPPORTED",
+  "UNKNOWN",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+// What to do about each kind of failure
+const HINTS: Partial<Record<ErrorCode, string>> = {
+  IDB_NOT_FOUND: "Install idb (brew install idb-companion and pip install fb-idb) or set IDB_PATH to the idb executable.",
+  COMPANION_UNREACHABLE: "Check that idb_companion is running for the simulator (idb list-targets), or restart it.",
+  SIMULATOR_NOT_BOOTED: "Boot the simulator with boot_simulator, or pick a booted one with list_simulators.",
+  SIMULATOR_LEASED: "Use another simulator: lease_simulator without udid reserves a free booted one.",
+  APP_NOT_INSTALLED: "Install the app with install_app, or check the bundle ID with list_apps.",
+  ELEMENT_NOT_FOUND: "Call describe_screen to see what is on screen, or wait_for the element before acting on it.",
+  ASSERTION_FAILED: "Call describe_screen to see what is on screen. Add a waitFor step before the assertion if the screen was still changing.",
+  TIMEOUT: "The operation took too long. Check that the simulator is responsive, then retry.",
+  INVALID_ARGUMENT: "Fix the arguments as described in the message and call again.",
+  PRECONDITION_FAILED: "Make the call the message asks for first, then try again.",
+  UNSUPPORTED: "The idb CLI can't do this. Connect to idb_companion directly by setting IOS_SIM_COMPANION, or do without it.",
+};
+
+// Failures worth trying again unchanged
+const RETRYABLE: ErrorCode[] = ["COMPANION_UNREACHABLE", "TIMEOUT"];
+
+export class ToolError extends Error {
+  readonly code: ErrorCode;
+  readonly hint?: string;
+
+  constructor(code: ErrorCode, message: string, hint?: string) {
+    super(message);
+    this.name = "ToolError";
+    this.code = code;
+    this.hint = hint ?? HINTS[code];
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.code);
+  }
+}
+
+// Known idb, simctl and backend failure messages, most specific first
+const PATTERNS: [RegExp, ErrorCode][] = [
+  [/not booted|state: shutdown|is shutdown/i, "SIMULATOR_NOT_BOOTED"],
+  [/not installed|no (such )?app|app(lication)? .*not found|bundle .*not found|unknown bundle/i, "APP_NOT_INSTALLED"],
+  [/companion|connection refused|ECONNREFUSED|failed to connect|UNAVAILABLE/i, "COMPANION_UNREACHABLE"],
+  [/timed out|deadline exceeded/i, "TIMEOUT"],
+];
+
+export function classifyMessage(message: string): ErrorCode {
+  for (const [pattern, code] of PATTERNS) {
+    if (pattern.test(message)) return code;
+  }
+  return "UNKNOWN";
+}
+
+// Any thrown value as a ToolError, classifying plain errors by their message
+export function toToolError(error: unknown): ToolError {
+  if (error instanceof ToolError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ToolError(classifyMessage(message), message);
+}
@@ -0,0 +1,541 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { DeviceBackend } from "./backend.js";
+import type { Coordinate, CrashLogInfo, Frame, RawAXNode, ScreenSize, Simulator } from "./types.js";
+import { createBitmap, encodePng } from "./png.js";
+
+// Scripted device model for running the server without a Mac.
+//
+// {
+//   "simulators": [{ "udid": "FAKE-1", "name": "iPhone 16", "state": "Booted", "type": "simulator", "os_version": "iOS 18.2" }],
+//   "screen": { "width": 393, "height": 852, "scale": 3 },
+//   "homeScreen": "springboard",
+//   "apps": [{ "bundleId": "com.example.app", "name": "Example", "screen": "login", "files": { "Documents/seed.json": "{}" } }],
+//   "screens": {
+//     "springboard": { "elements": [...] },
+//     "login": {
+//       "elements": [ idb describe-all nodes ],
+//       "screenshot": "login.png",
+//       "transitions": [{ "label": "Sign In", "to": "home", "log": { "message": "Signed in" } }]
+//     },
+//     "list": { "elements": [...], "contentHeight": 2000 }
+//   },
+//   "urls": [{ "prefix": "myapp://settings", "to": "settings" }]
+// }
+export interface FakeTransition {
+  // Matched against the deepest tapped element's AXLabel or AXUniqueId
+  label?: string;
+  identifier?: string;
+  // Screen to show; omitted for crash transitions
+  to?: string;
+  // Device log line emitted by the foreground app when the transition fires
+  log?: { message: string; level?: string; subsystem?: string };
+  // Crash the foreground app instead of transitioning: writes a crash report
+  // and returns to the home screen
+  crash?: { exceptionType?: string; signal?: string; reason?: string };
+}
+
+export interface FakeScreen {
+  elements: RawAXNode[];
+  // PNG path, relative to the model file
+  screenshot?: string;
+  transitions?: FakeTransition[];
+  // Height in points of the content of the screen's first ScrollView, Table or
+  // CollectionView; vertical swipes starting inside it scroll its children
+  contentHeight?: number;
+}
+
+export interface FakeApp {
+  bundleId: string;
+  name?: string;
+  // Screen shown after launch (defaults to homeScreen)
+  screen?: string;
+  // Data container contents: path relative to the container -> UTF-8 text
+  files?: Record<string, string>;
+}
+
+export interface FakeDeviceModel {
+  simulators: Simulator[];
+  screen?: { width: number; height: number; scale: number };
+  homeScreen?: string;
+  apps?: FakeApp[];
+  screens: Record<string, FakeScreen>;
+  urls?: { prefix: string; to: string }[];
+}
+
+interface FakeSimulatorState {
+  screen: string;
+  // Per-simulator copy of every screen so typed text persists
+  screens: Record<string, FakeScreen>;
+  running: Set<string>;
+  apps: FakeApp[];
+  // Data container files per bundle ID
+  files: Map<string, Map<string, Buffer>>;
+  foreground: string | null;
+  focused: RawAXNode | null;
+  location: Coordinate | null;
+  // Granted privacy services per bundle ID
+  permissions: Map<string, Set<string>>;
+  // File names added with addMedia
+  media: string[];
+  // Scroll offset per screen, in points
+  scrollOffsets: Map<string, number>;
+  // cmd+a selected the focused field's text; the next key or text replaces it
+  selectedAll: boolean;
+}
+
+const DEFAULT_SCREEN = { width: 393, height: 852, scale: 3 };
+const SCROLL_TYPES = ["ScrollView", "Table", "CollectionView"];
+const HID_A = 4;
+const HID_DELETE = 42;
+const HID_CMD = 227;
+
+export function loadFakeModel(file: string): FakeDeviceModel & { baseDir: string } {
+  const model = JSON.parse(fs.readFileSync(file, "utf8")) as FakeDeviceModel;
+  if (!Array.isArray(model.simulators) || !model.screens) {
+    throw new Error(`Invalid fake device model ${file}: 'simulators' and 'screens' are required.`);
+  }
+  return { ...model, baseDir: path.dirname(path.resolve(file)) };
+}
+
+function contains(frame: Frame | undefined, x: number, y: number): boolean {
+  return !!frame && x >= frame.x && x <= frame.x + frame.width && y >= frame.y && y <= frame.y + frame.height;
+}
+
+// Deepest node whose frame contains the point
+function hitTest(nodes: RawAXNode[], x: number, y: number): RawAXNode | null {
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (!contains(node.frame, x, y)) continue;
+    return (node.children && hitTest(node.children, x, y)) || node;
+  }
+  return null;
+}
+
+function findScrollContainer(nodes: RawAXNode[]): RawAXNode | null {
+  for (const node of nodes) {
+    if (node.type && SCROLL_TYPES.includes(node.type)) return node;
+    const found = node.children && findScrollContainer(node.children);
+    if (found) return found;
+  }
+  return null;
+}
+
+function shiftDescendants(node: RawAXNode, dy: number) {
+  for (const child of node.children ?? []) {
+    if (child.frame) child.frame = { ...child.frame, y: child.frame.y + dy };
+    shiftDescendants(child, dy);
+  }
+}
+
+// Container path without leading, trailing or repeated slashes
+function joinRemote(...parts: string[]): string {
+  return path.posix.join("/", ...parts).slice(1).replace(/\/$/, "");
+}
+
+function containerFiles(app: FakeApp): Map<string, Buffer> {
+  return new Map(Object.entries(app.files || {}).map(([file, text]) => [joinRemote(file), Buffer.from(text, "utf8")]));
+}
+
+// Bundle ID and name from an .app directory's XML Info.plist
+function readAppBundle(appPath: string): FakeApp {
+  const plist = path.join(appPath, "Info.plist");
+  if (!fs.existsSync(plist)) {
+    throw new Error(`The fake backend can only install .app directories with an XML Info.plist (${appPath})`);
+  }
+  const xml = fs.readFileSync(plist, "utf8");
+  const value = (key: string) => xml.match(new RegExp(`<key>${key}</key>\\s*<string>([^<]*)</string>`))?.[1];
+  const bundleId = value("CFBundleIdentifier");
+  if (!bundleId) throw new Error(`No CFBundleIdentifier in ${plist}`);
+  return { bundleId, name: value("CFBundleDisplayName") ?? value("CFBundleName") ?? bundleId };
+}
+
+export function createFakeBackend(model: FakeDeviceModel & { baseDir?: string }): DeviceBackend {
+  const screenGeometry = model.screen || DEFAULT_SCREEN;
+  const homeScreen = model.homeScreen || Object.keys(model.screens)[0];
+  const simulators = model.simulators.map((s) => ({ ...s }));
+  const states = new Map<string, FakeSimulatorState>();
+  const crashReports = new Map<string, { info: CrashLogInfo; report: string }[]>();
+  const logListeners = new Map<string, Set<{ onLine: (line: string) => void; onExit: (error?: Error) => void }>>();
+
+  function findSimulator(udid: string): Simulator {
+    const sim = simulators.find((s) => s.udid === udid);
+    if (!sim) throw new Error(`Unknown simulator ${udid}`);
+    return sim;
+  }
+
+  function state(udid: string): FakeSimulatorState {
+    const sim = findSimulator(udid);
+    if (sim.state !== "Booted") {
+      throw new Error(`Simulator ${udid} is not booted`);
+    }
+    let s = states.get(udid);
+    if (!s) {
+      s = {
+        screen: homeScreen,
+        screens: JSON.parse(JSON.stringify(model.screens)),
+        running: new Set(),
+        apps: (model.apps || []).map((a) => ({ ...a })),
+        files: new Map((model.apps || []).map((a) => [a.bundleId, containerFiles(a)])),
+        foreground: null,
+        focused: null,
+        location: null,
+        permissions: new Map(),
+        media: [],
+        scrollOffsets: new Map(),
+        selectedAll: false,
+      };
+      states.set(udid, s);
+    }
+    return s;
+  }
+
+  function currentScreen(s: FakeSimulatorState): FakeScreen {
+    const screen = s.screens[s.screen];
+    if (!screen) throw new Error(`Fake device model has no screen '${s.screen}'`);
+    return screen;
+  }
+
+  function goTo(s: FakeSimulatorState, screen: string) {
+    if (!s.screens[screen]) throw new Error(`Fake device model has no screen '${screen}'`);
+    s.screen = screen;
+    s.focused = null;
+    s.selectedAll = false;
+  }
+
+  function findApp(s: FakeSimulatorState, bundleId: string): FakeApp {
+    const app = s.apps.find((a) => a.bundleId === bundleId);
+    if (!app) throw new Error(`App ${bundleId} is not installed`);
+    return app;
+  }
+
+  function container(s: FakeSimulatorState, bundleId: string): Map<string, Buffer> {
+    findApp(s, bundleId);
+    return s.files.get(bundleId)!;
+  }
+
+  // Emit a line in `log stream --style ndjson` format
+  function emitLog(udid: string, s: FakeSimulatorState, message: string, level = "Default", subsystem?: string) {
+    const listeners = logListeners.get(udid);
+    if (!listeners?.size) return;
+    const app = s.foreground ? s.apps.find((a) => a.bundleId === s.foreground) : undefined;
+    const processName = app ? (app.name || app.bundleId).replace(/\s+/g, "") : "SpringBoard";
+    const line = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      messageType: level,
+      processImagePath: app ? `/Containers/Bundle/Application/${app.bundleId}/${processName}.app/${processName}` : "/System/Library/CoreServices/SpringBoard.app/SpringBoard",
+      processID: app ? 1000 + s.apps.indexOf(app) : 50,
+      subsystem: subsystem ?? app?.bundleId ?? "com.apple.springboard",
+      category: "default",
+      eventMessage: message,
+    });
+    for (const listener of listeners) listener.onLine(line);
+  }
+
+  // Write a crash report in .ips format (JSON header line + JSON body) and kill the app
+  function crashApp(udid: string, s: FakeSimulatorState, crash: NonNullable<FakeTransition["crash"]>) {
+    const app = s.apps.find((a) => a.bundleId === s.foreground);
+    if (!app) return;
+    const processName = (app.name || app.bundleId).replace(/\s+/g, "");
+    const now = new Date();
+    const header = { app_name: processName, bundleID: app.bundleId, bug_type: "309", timestamp: now.toISOString() };
+    const body = {
+      procName: processName,
+      bundleInfo: { CFBundleIdentifier: app.bundleId },
+      exception: { type: crash.exceptionType ?? "EXC_CRASH", signal: crash.signal ?? "SIGABRT" },
+      ...(crash.reason ? { asi: { libswiftCore: [crash.reason] } } : {}),
+      faultingThread: 0,
+      usedImages: [{ name: "libsystem_kernel.dylib" }, { name: "libswiftCore.dylib" }, { name: processName }],
+      threads: [
+        {
+          triggered: true,
+          frames: [
+            { imageIndex: 0, imageOffset: 0x6e38, symbol: "__pthread_kill", symbolLocation: 8 },
+            { imageIndex: 1, imageOffset: 0x3a1f4, symbol: "_assertionFailure(_:_:file:line:flags:)", symbolLocation: 244 },
+            { imageIndex: 2, imageOffset: 0x1f00, symbol: "main", symbolLocation: 40 },
+          ],
+        },
+      ],
+    };
+    const name = `${processName}-${now.toISOString().replace(/[:.]/g, "-")}.ips`;
+    const reports = crashReports.get(udid) ?? [];
+    reports.push({
+      info: { name, bundleId: app.bundleId, process: processName, timestamp: now.getTime() / 1000 },
+      report: `${JSON.stringify(header)}\n${JSON.stringify(body, null, 2)}`,
+    });
+    crashReports.set(udid, reports);
+    emitLog(udid, s, `Application ${app.bundleId} crashed: ${body.exception.type} (${body.exception.signal})`, "Error", "com.apple.runningboard");
+    s.running.delete(app.bundleId);
+    s.foreground = null;
+    goTo(s, homeScreen);
+  }
+
+  function screenSize(): ScreenSize {
+    const { width, height, scale } = screenGeometry;
+    return {
+      pixels: { width: width * scale, height: height * scale },
+      points: { width, height },
+      scale,
+    };
+  }
+
+  return {
+    name: "fake",
+
+    async listSimulators() {
+      return simulators.map((s) => ({ ...s }));
+    },
+
+    async bootSimulator(udid) {
+      findSimulator(udid).state = "Booted";
+    },
+
+    async shutdownSimulator(udid) {
+      findSimulator(udid).state = "Shutdown";
+      states.delete(udid);
+      for (const listener of logListeners.get(udid) ?? []) listener.onExit(new Error(`Simulator ${udid} shut down`));
+      logListeners.delete(udid);
+    },
+
+    async takeScreenshot(udid) {
+      const screen = currentScreen(state(udid));
+      if (screen.screenshot) {
+        return fs.readFileSync(path.resolve(model.baseDir || ".", screen.screenshot)).toString("base64");
+      }
+      const { pixels } = screenSize();
+      return encodePng(createBitmap(pixels.width, pixels.height, [255, 255, 255, 255])).toString("base64");
+    },
+
+    async getScreenSize(udid) {
+      state(udid);
+      return screenSize();
+    },
+
+    async launchApp(udid, bundleId) {
+      const s = state(udid);
+      const app = findApp(s, bundleId);
+      s.running.add(bundleId);
+      s.foreground = bundleId;
+      goTo(s, app.screen || homeScreen);
+      emitLog(udid, s, `Application ${bundleId} launched`);
+    },
+
+    async terminateApp(udid, bundleId) {
+      const s = state(udid);
+      findApp(s, bundleId);
+      s.running.delete(bundleId);
+      if (s.foreground === bundleId) {
+        s.foreground = null;
+        goTo(s, homeScreen);
+      }
+    },
+
+    async listApps(udid) {
+      const s = state(udid);
+      return s.apps
+        .map((a) => {
+          const processState = s.running.has(a.bundleId) ? "Running" : "Unknown";
+          return `${a.bundleId} | ${a.name || a.bundleId} | user | arm64 | ${processState} | Not Debuggable`;
+        })
+        .join("\n");
+    },
+
+    async installApp(udid, appPath) {
+      const s = state(udid);
+      const app = readAppBundle(appPath);
+      s.apps = [...s.apps.filter((a) => a.bundleId !== app.bundleId), app];
+      if (!s.files.has(app.bundleId)) s.files.set(app.bundleId, new Map());
+      return app.bundleId;
+    },
+
+    async uninstallApp(udid, bundleId) {
+      const s = state(udid);
+      findApp(s, bundleId);
+      s.apps = s.apps.filter((a) => a.bundleId !== bundleId);
+      s.files.delete(bundleId);
+      s.running.delete(bundleId);
+      if (s.foreground === bundleId) {
+        s.foreground = null;
+        goTo(s, homeScreen);
+      }
+    },
+
+    async pushFile(udid, bundleId, localPath, remoteDir) {
+      const files = container(state(udid), bundleId);
+      files.set(joinRemote(remoteDir, path.basename(localPath)), fs.readFileSync(localPath));
+    },
+
+    async pullFile(udid, bundleId, remotePath, localDir) {
+      const data = container(state(udid), bundleId).get(joinRemote(remotePath));
+      if (!data) throw new Error(`No file ${remotePath} in the data container of ${bundleId}`);
+      fs.writeFileSync(path.join(localDir, path.posix.basename(remotePath)), data);
+    },
+
+    async listFiles(udid, bundleId, remoteDir) {
+      const prefix = joinRemote(remoteDir);
+      const entries = new Set<string>();
+      for (const file of container(state(udid), bundleId).keys()) {
+        if (prefix && !file.startsWith(`${prefix}/`)) continue;
+        entries.add(file.slice(prefix ? prefix.length + 1 : 0).split("/")[0]);
+      }
+      return [...entries].sort();
+    },
+
+    async tap(udid, x, y) {
+      const s = state(udid);
+      const screen = currentScreen(s);
+      const hit = hitTest(screen.elements, x, y);
+      if (!hit) return;
+      s.focused = hit;
+      s.selectedAll = false;
+      const transition = screen.transitions?.find(
+        (t) =>
+          (t.label !== undefined && t.label === hit.AXLabel) ||
+          (t.identifier !== undefined && t.identifier === hit.AXUniqueId)
+      );
+      if (transition?.log) emitLog(udid, s, transition.log.message, transition.log.level, transition.log.subsystem);
+      if (transition?.crash) crashApp(udid, s, transition.crash);
+      else if (transition?.to) goTo(s, transition.to);
+    },
+
+    async longPress(udid) {
+      state(udid);
+    },
+
+    async swipe(udid, startX, startY, endX, endY) {
+      const s = state(udid);
+      const screen = currentScreen(s);
+      const scroller = screen.contentHeight ? findScrollContainer(screen.elements) : null;
+      if (!scroller?.frame || !contains(scroller.frame, startX, startY)) return;
+      // Content follows the finger, clamped to the content bounds
+      const offset = s.scrollOffsets.get(s.screen) ?? 0;
+      const max = Math.max(0, screen.contentHeight! - scroller.frame.height);
+      const next = Math.min(max, Math.max(0, offset + startY - endY));
+      shiftDescendants(scroller, offset - next);
+      s.scrollOffsets.set(s.screen, next);
+    },
+
+    async drag(udid) {
+      state(udid);
+    },
+
+    async typeText(udid, text) {
+      const s = state(udid);
+      if (s.focused) {
+        // Secure fields only ever show bullets
+        const typed = s.focused.type === "SecureTextField" ? "•".repeat([...text].length) : text;
+        s.focused.AXValue = (s.selectedAll ? "" : s.focused.AXValue || "") + typed;
+      }
+      s.selectedAll = false;
+    },
+
+    async pressKey(udid, keycode, modifiers) {
+      const s = state(udid);
+      if (keycode === HID_A && modifiers.length === 1 && modifiers[0] === HID_CMD) {
+        s.selectedAll = !!s.focused;
+        return;
+      }
+      if (keycode === HID_DELETE && s.focused?.AXValue) {
+        s.focused.AXValue = s.selectedAll ? "" : s.focused.AXValue.slice(0, -1);
+      }
+      s.selectedAll = false;
+    },
+
+    async pressKeySequence(udid, keycodes) {
+      for (const keycode of keycodes) await this.pressKey(udid, keycode, []);
+    },
+
+    async pressButton(udid, button) {
+      const s = state(udid);
+      if (button === "home") {
+        s.foreground = null;
+        goTo(s, homeScreen);
+      }
+    },
+
+    async openUrl(udid, url) {
+      const s = state(udid);
+      const route = model.urls?.find((u) => url.startsWith(u.prefix));
+      emitLog(udid, s, route ? `Opened ${url}` : `No handler for ${url}`, route ? "Default" : "Error");
+      if (route) goTo(s, route.to);
+    },
+
+    async describeScreen(udid) {
+      return JSON.parse(JSON.stringify(currentScreen(state(udid)).elements));
+    },
+
+    async describePoint(udid, x, y) {
+      const hit = hitTest(currentScreen(state(udid)).elements, x, y);
+      if (!hit) return "null";
+      const { children, ...rest } = hit;
+      return JSON.stringify(rest);
+    },
+
+    async setLocation(udid, location) {
+      const s = state(udid);
+      s.location = { ...location };
+      emitLog(udid, s, `Simulated location: ${location.latitude}, ${location.longitude}`, "Default", "com.apple.locationd");
+    },
+
+    async setPermission(udid, action, service, bundleId) {
+      const s = state(udid);
+      findApp(s, bundleId);
+      const granted = s.permissions.get(bundleId) ?? new Set<string>();
+      if (action === "grant") granted.add(service);
+      else if (service === "all") granted.clear();
+      else granted.delete(service);
+      s.permissions.set(bundleId, granted);
+      emitLog(udid, s, `Privacy ${action} ${service} for ${bundleId}`, "Default", "com.apple.TCC");
+    },
+
+    async addMedia(udid, files) {
+      const s = state(udid);
+      for (const file of files) {
+        if (!fs.existsSync(file)) throw new Error(`No such file: ${file}`);
+        s.media.push(path.basename(file));
+      }
+    },
+
+    async clearKeychain(udid) {
+      const s = state(udid);
+      emitLog(udid, s, "Keychain reset", "Default", "com.apple.securityd");
+    },
+
+    async listCrashes(udid) {
+      findSimulator(udid);
+      return (crashReports.get(udid) ?? []).map((r) => ({ ...r.info }));
+    },
+
+    async getCrash(udid, name) {
+      const found = crashReports.get(udid)?.find((r) => r.info.name === name);
+      if (!found) throw new Error(`No crash report named ${name}`);
+      return found.report;
+    },
+
+    async deleteCrash(udid, name) {
+      crashReports.set(udid, (crashReports.get(udid) ?? []).filter((r) => r.info.name !== name));
+    },
+
+    recordVideo(udid, file) {
+      state(udid);
+      // Placeholder: just an MP4 "ftyp" box, so the file exists and has a size
+      fs.writeFileSync(file, Buffer.from("000000146674797069736f6d0000020069736f6d", "hex"));
+      return {
+        async stop() {},
+        kill() {},
+      };
+    },
+
+    streamLogs(udid, onLine, onExit) {
+      state(udid);
+      const listener = { onLine, onExit };
+      if (!logListeners.has(udid)) logListeners.set(udid, new Set());
+      logListeners.get(udid)!.add(listener);
+      return {
+        stop() {
+          logListeners.get(udid)?.delete(listener);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,335 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getBackend } from "./backend.js";
+import { ToolError } from "./errors.js";
+import type { Coordinate, PermissionAction } from "./types.js";
+import { validateArguments, type JsonSchema } from "./validate.js";
+
+// Simulator environment: location (with route playback), privacy permissions,
+// photo library, contacts and keychain, plus fixtures applying several at once.
+//
+// {
+//   "location": { "route": [{ "latitude": 37.33, "longitude": -122.03 }, ...], "speed": 15 },
+//   "permissions": { "com.example.app": { "photos": "grant", "location": "revoke" } },
+//   "media": ["./photos/beach.jpg"],
+//   "contacts": [{ "firstName": "Ada", "lastName": "Lovelace", "phones": ["+44 20 7946 0000"] }],
+//   "clearKeychain": true
+// }
+
+// Services understood by `simctl privacy`
+export const PRIVACY_SERVICES = [
+  "all",
+  "calendar",
+  "contacts-limited",
+  "contacts",
+  "location",
+  "location-always",
+  "photos-add",
+  "photos",
+  "media-library",
+  "microphone",
+  "motion",
+  "reminders",
+  "siri",
+];
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ["grant", "revoke", "reset"];
+
+const MEDIA_EXTENSIONS = [".jpg", ".jpeg", ".png", ".heic", ".gif", ".mov", ".mp4", ".m4v", ".vcf"];
+
+export interface LocationSpec extends Partial<Coordinate> {
+  // Played back point to point instead of a fixed location
+  route?: Coordinate[];
+  // Meters per second along the route. Default 10.
+  speed?: number;
+  // Start over from the first point after the last one
+  loop?: boolean;
+}
+
+export interface Contact {
+  firstName?: string;
+  lastName?: string;
+  organization?: string;
+  phones?: string[];
+  emails?: string[];
+}
+
+export interface Fixture {
+  location?: LocationSpec;
+  // Bundle ID -> service -> action
+  permissions?: Record<string, Record<string, PermissionAction>>;
+  // Absolute paths once parsed
+  media?: string[];
+  contacts?: Contact[];
+  clearKeychain?: boolean;
+}
+
+export const DEFAULT_ROUTE_SPEED = 10;
+// How often a playing route moves the location
+const ROUTE_INTERVAL = 1000;
+const EARTH_RADIUS = 6371000;
+
+const COORDINATE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    latitude: { type: "number", minimum: -90, maximum: 90 },
+    longitude: { type: "number", minimum: -180, maximum: 180 },
+  },
+  required: ["latitude", "longitude"],
+  additionalProperties: false,
+};
+
+export const LOCATION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    latitude: { type: "number", description: "Latitude in degrees", minimum: -90, maximum: 90 },
+    longitude: { type: "number", description: "Longitude in degrees", minimum: -180, maximum: 180 },
+    route: {
+      type: "array",
+      description: "Waypoints to move along instead of a fixed location, e.g. [{latitude: 37.33, longitude: -122.03}, ...]",
+      items: COORDINATE_SCHEMA,
+    },
+    speed: { type: "number", description: "Route speed in meters per second (default 10)", minimum: 0.1, maximum: 1000 },
+    loop: { type: "boolean", description: "Start the route over after the last waypoint (default false)" },
+  },
+};
+
+export const CONTACT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    firstName: { type: "string" },
+    lastName: { type: "string" },
+    organization: { type: "string" },
+    phones: { type: "array", items: { type: "string" } },
+    emails: { type: "array", items: { type: "string" } },
+  },
+  additionalProperties: false,
+};
+
+const FIXTURE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    location: { ...LOCATION_SCHEMA, additionalProperties: false },
+    permissions: { type: "object" },
+    media: { type: "array", items: { type: "string" } },
+    contacts: { type: "array", items: CONTACT_SCHEMA },
+    clearKeychain: { type: "boolean" },
+  },
+  additionalProperties: false,
+};
+
+interface RoutePlayback {
+  timer: NodeJS.Timeout;
+}
+
+const routes = new Map<string, RoutePlayback>();
+// Why the last route on each simulator stopped early, reported by the next set_location
+const routeErrors = new Map<string, string>();
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance in meters
+function distance(a: Coordinate, b: Coordinate): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Position `meters` along the route; waypoints are close enough to interpolate linearly
+function pointAlong(points: Coordinate[], offsets: number[], meters: number): Coordinate {
+  let i = 1;
+  while (i < points.length - 1 && offsets[i] < meters) i++;
+  const length = offsets[i] - offsets[i - 1];
+  const t = length > 0 ? Math.min(1, Math.max(0, (meters - offsets[i - 1]) / length)) : 1;
+  const round = (n: number) => Math.round(n * 1e6) / 1e6;
+  return {
+    latitude: round(points[i - 1].latitude + (points[i].latitude - points[i - 1].latitude) * t),
+    longitude: round(points[i - 1].longitude + (points[i].longitude - points[i - 1].longitude) * t),
+  };
+}
+
+export function stopRoute(udid: string): boolean {
+  const playback = routes.get(udid);
+  if (!playback) return false;
+  clearInterval(playback.timer);
+  routes.delete(udid);
+  return true;
+}
+
+function takeRouteError(udid: string): string {
+  const error = routeErrors.get(udid);
+  if (error === undefined) return "";
+  routeErrors.delete(udid);
+  return ` (the previous route stopped early: ${error})`;
+}
+
+// Move along the waypoints in the background, one location update per second.
+// Replaces any route already playing on the simulator.
+async function playRoute(udid: string, route: Coordinate[], speed: number, loop: boolean): Promise<string> {
+  if (route.length < 2) throw new ToolError("INVALID_ARGUMENT", "route needs at least 2 waypoints");
+  stopRoute(udid);
+  const points = loop ? [...route, route[0]] : route;
+  const offsets = [0];
+  for (let i = 1; i < points.length; i++) offsets.push(offsets[i - 1] + distance(points[i - 1], points[i]));
+  const total = offsets[offsets.length - 1];
+  if (total === 0) throw new ToolError("INVALID_ARGUMENT", "route waypoints are all at the same location");
+
+  await getBackend().setLocation(udid, points[0]);
+  const failed = takeRouteError(udid);
+  const startedAt = Date.now();
+  let busy = false;
+  const playback: RoutePlayback = {
+    timer: setInterval(async () => {
+      if (busy) return;
+      busy = true;
+      const travelled = (speed * (Date.now() - startedAt)) / 1000;
+      const done = !loop && travelled >= total;
+      try {
+        await getBackend().setLocation(udid, pointAlong(points, offsets, loop ? travelled % total : travelled));
+      } catch (error: any) {
+        routeErrors.set(udid, error.message);
+        stopRoute(udid);
+      }
+      if (done) stopRoute(udid);
+      busy = false;
+    }, ROUTE_INTERVAL),
+  };
+  playback.timer.unref();
+  routes.set(udid, playback);
+
+  const seconds = Math.round(total / speed);
+  return `Playing route of ${route.length} waypoints (${Math.round(total)} m) at ${speed} m/s` + (loop ? ", looping" : `, about ${seconds} s`) + failed;
+}
+
+// Fixed location or route playback. A fixed location stops a playing route.
+export async function setLocation(udid: string, spec: LocationSpec): Promise<string> {
+  if (spec.route) {
+    return await playRoute(udid, spec.route, spec.speed ?? DEFAULT_ROUTE_SPEED, spec.loop ?? false);
+  }
+  if (spec.latitude === undefined || spec.longitude === undefined) {
+    throw new ToolError("INVALID_ARGUMENT", "set_location needs latitude and longitude, or a route");
+  }
+  const stopped = stopRoute(udid);
+  await getBackend().setLocation(udid, { latitude: spec.latitude, longitude: spec.longitude });
+  const failed = takeRouteError(udid);
+  return `Location set to ${spec.latitude}, ${spec.longitude}${stopped ? " (stopped route playback)" : ""}${failed}`;
+}
+
+export async function setPermissions(udid: string, bundleId: string, services: string[], action: PermissionAction): Promise<string> {
+  for (const service of services) {
+    if (!PRIVACY_SERVICES.includes(service)) {
+      throw new ToolError("INVALID_ARGUMENT", `Unknown privacy service '${service}'. Valid services: ${PRIVACY_SERVICES.join(", ")}`);
+    }
+  }
+  for (const service of services) await getBackend().setPermission(udid, action, service, bundleId);
+  const verb = { grant: "Granted", revoke: "Revoked", reset: "Reset" }[action];
+  return `${verb} ${services.join(", ")} for ${bundleId}`;
+}
+
+export async function addMedia(udid: string, files: string[]): Promise<string> {
+  const resolved = files.map((file) => path.resolve(file));
+  for (const file of resolved) {
+    if (!fs.existsSync(file) || !fs.statSync(file).isFile()) throw new ToolError("INVALID_ARGUMENT", `Media file not found: ${file}`);
+    if (!MEDIA_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+      throw new ToolError("INVALID_ARGUMENT", `Unsupported media file ${file}. Supported: ${MEDIA_EXTENSIONS.join(", ")}`);
+    }
+  }
+  await getBackend().addMedia(udid, resolved);
+  return `Added ${resolved.length} file${resolved.length === 1 ? "" : "s"} to the simulator`;
+}
+
+function escapeVCard(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+// vCard 3.0, which Contacts imports through addMedia
+export function toVCard(contacts: Contact[]): string {
+  return contacts
+    .map((contact, i) => {
+      const fullName = [contact.firstName, contact.lastName].filter(Boolean).join(" ") || contact.organization;
+      if (!fullName) throw new ToolError("INVALID_ARGUMENT", `contacts[${i}] needs a firstName, lastName or organization`);
+      const lines = [
+        "BEGIN:VCARD",
+        "VERSION:3.0",
+        `N:${escapeVCard(contact.lastName ?? "")};${escapeVCard(contact.firstName ?? "")};;;`,
+        `FN:${escapeVCard(fullName)}`,
+      ];
+      if (contact.organization) lines.push(`ORG:${escapeVCard(contact.organization)}`);
+      for (const phone of contact.phones ?? []) lines.push(`TEL;TYPE=CELL:${escapeVCard(phone)}`);
+      for (const email of contact.emails ?? []) lines.push(`EMAIL;TYPE=INTERNET:${escapeVCard(email)}`);
+      lines.push("END:VCARD");
+      return lines.join("\r\n") + "\r\n";
+    })
+    .join("");
+}
+
+export async function addContacts(udid: string, contacts: Contact[]): Promise<string> {
+  const card = toVCard(contacts);
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "sim-contacts-"));
+  try {
+    const file = path.join(tmpDir, "contacts.vcf");
+    fs.writeFileSync(file, card);
+    await getBackend().addMedia(udid, [file]);
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+  return `Added ${contacts.length} contact${contacts.length === 1 ? "" : "s"}`;
+}
+
+export async function clearKeychain(udid: string): Promise<string> {
+  await getBackend().clearKeychain(udid);
+  return "Cleared the keychain";
+}
+
+// Validate a fixture; media paths are resolved against baseDir
+export function parseFixture(raw: unknown, baseDir = process.cwd()): Fixture {
+  validateArguments("fixture", raw, FIXTURE_SCHEMA);
+  const fixture = { ...(raw as Fixture) };
+  for (const [bundleId, services] of Object.entries(fixture.permissions ?? {})) {
+    if (typeof services !== "object" || services === null || Array.isArray(services)) {
+      throw new ToolError("INVALID_ARGUMENT", `fixture.permissions.${bundleId} must map services to grant, revoke or reset`);
+    }
+    for (const [service, action] of Object.entries(services)) {
+      if (!PRIVACY_SERVICES.includes(service)) {
+        throw new ToolError("INVALID_ARGUMENT", `fixture.permissions.${bundleId}: unknown privacy service '${service}'. Valid services: ${PRIVACY_SERVICES.join(", ")}`);
+      }
+      if (!PERMISSION_ACTIONS.includes(action)) {
+        throw new ToolError("INVALID_ARGUMENT", `fixture.permissions.${bundleId}.${service} must be one of: ${PERMISSION_ACTIONS.join(", ")}`);
+      }
+    }
+  }
+  if (fixture.media) fixture.media = fixture.media.map((file) => path.resolve(baseDir, file));
+  return fixture;
+}
+
+export function loadFixture(file: string): Fixture {
+  const resolved = path.resolve(file);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(resolved, "utf8"));
+  } catch (error: any) {
+    throw new ToolError("INVALID_ARGUMENT", `Could not read fixture ${resolved}: ${error.message}`);
+  }
+  return parseFixture(raw, path.dirname(resolved));
+}
+
+// Apply in a fixed order: keychain, permissions, media, contacts, then location.
+// Returns one line per step.
+export async function applyFixture(udid: string, fixture: Fixture): Promise<string[]> {
+  const applied: string[] = [];
+  if (fixture.clearKeychain) applied.push(await clearKeychain(udid));
+  for (const [bundleId, services] of Object.entries(fixture.permissions ?? {})) {
+    for (const action of PERMISSION_ACTIONS) {
+      const matching = Object.keys(services).filter((service) => services[service] === action);
+      if (matching.length > 0) applied.push(await setPermissions(udid, bundleId, matching, action));
+    }
+  }
+  if (fixture.media?.length) applied.push(await addMedia(udid, fixture.media));
+  if (fixture.contacts?.length) applied.push(await addContacts(udid, fixture.contacts));
+  if (fixture.location) applied.push(await setLocation(udid, fixture.location));
+  return applied;
+}
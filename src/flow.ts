@@ -0,0 +1,397 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import YAML from "yaml";
+import * as idb from "./idb.js";
+import { callTool, getUdid } from "./tools.js";
+import { checkSelector, describeSelector, selectElements, SELECTOR_SCHEMA, type ElementSelector } from "./selector.js";
+import { validateArguments, type JsonSchema } from "./validate.js";
+import { ERROR_CODES, ToolError, toToolError, type ErrorCode } from "./errors.js";
+import { resolveOutputPath } from "./output.js";
+
+// Declarative flows: a list of steps mapped onto the existing tools.
+//
+// name: Login
+// vars:
+//   email: user@test.com
+//   password: secret
+// defaults:
+//   timeout: 10000
+//   onFailure: screenshot
+// steps:
+//   - launchApp: com.example.app
+//   - waitFor: { condition: exists, label: Email, timeout: 5000 }
+//   - tapElement: { label: Email, type: TextField }
+//   - typeText: ${email}
+//   - fillField: { label: Password, text: "${password}", submit: true }
+//   - tapElement: { label: Sign In, type: Button }
+//     retry: 2
+//     retryOn: [ELEMENT_NOT_FOUND, TIMEOUT]
+//   - assert: { label: Welcome }
+
+// Step action -> tool name
+const STEP_TOOLS = {
+  launchApp: "launch_app",
+  terminateApp: "terminate_app",
+  openUrl: "open_url",
+  tap: "tap",
+  tapElement: "tap_element",
+  typeText: "type_text",
+  fillField: "fill_field",
+  swipe: "swipe",
+  longPress: "long_press",
+  doubleTap: "double_tap",
+  dragAndDrop: "drag_and_drop",
+  edgeSwipe: "edge_swipe",
+  scrollToElement: "scroll_to_element",
+  pressKey: "press_key",
+  pressKeys: "press_keys",
+  pressButton: "press_button",
+  waitFor: "wait_for",
+  screenshot: "screenshot",
+} as const;
+
+// Argument a bare string value maps to, e.g. `launchApp: com.example.app`
+const SHORTHAND_ARGS: Partial<Record<string, string>> = {
+  launchApp: "bundleId",
+  terminateApp: "bundleId",
+  openUrl: "url",
+  tapElement: "label",
+  typeText: "text",
+  edgeSwipe: "edge",
+  scrollToElement: "label",
+  pressKey: "key",
+  pressKeys: "keys",
+  pressButton: "button",
+  assert: "label",
+};
+
+const STEP_OPTIONS = ["name", "timeout", "retry", "retryOn", "onFailure"];
+
+// Actions whose arguments may inline selector fields: `tapElement: { label: Sign In, type: Button }`
+const INLINE_SELECTOR_ACTIONS = ["tapElement", "fillField", "assert"];
+
+export type StepAction = keyof typeof STEP_TOOLS | "assert";
+
+export type OnFailure = "screenshot" | "none";
+
+export interface StepOptions {
+  // Milliseconds per attempt
+  timeout?: number;
+  // Extra attempts after a failure
+  retry?: number;
+  // Only retry failures with these error codes (default: any failure)
+  retryOn?: ErrorCode[];
+  onFailure?: OnFailure;
+}
+
+export interface FlowStep extends StepOptions {
+  name?: string;
+  action: StepAction;
+  params: Record<string, unknown>;
+}
+
+export interface Flow {
+  name: string;
+  udid?: string;
+  vars: Record<string, string>;
+  defaults: StepOptions;
+  steps: FlowStep[];
+}
+
+export interface StepResult {
+  index: number;
+  name: string;
+  action: StepAction;
+  status: "passed" | "failed" | "skipped";
+  durationMs: number;
+  attempts: number;
+  output?: string;
+  error?: string;
+  // Error code of the failure, e.g. ELEMENT_NOT_FOUND
+  code?: ErrorCode;
+  screenshot?: string;
+}
+
+export interface FlowResult {
+  name: string;
+  udid: string;
+  passed: boolean;
+  durationMs: number;
+  steps: StepResult[];
+}
+
+export interface RunFlowOptions {
+  udid?: string;
+  // Override or add to the flow's vars
+  vars?: Record<string, string>;
+  // Where onFailure screenshots are written (default: OS temp dir)
+  artifactsDir?: string;
+  // Called after each step, for progress output
+  onStep?: (result: StepResult) => void;
+}
+
+export const DEFAULT_STEP_TIMEOUT = 30000;
+const RETRY_DELAY = 500;
+// Extra time a waitFor step gets on top of its own wait timeout
+const WAIT_GRACE = 5000;
+
+const STEP_OPTIONS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    timeout: { type: "number", minimum: 0 },
+    retry: { type: "integer", minimum: 0, maximum: 10 },
+    retryOn: { type: "array", items: { type: "string", enum: ERROR_CODES } },
+    onFailure: { type: "string", enum: ["screenshot", "none"] },
+  },
+};
+
+const ASSERT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    label: { type: "string" },
+    selector: { type: "object" },
+    exists: { type: "boolean" },
+    count: { type: "integer", minimum: 0 },
+  },
+  additionalProperties: false,
+};
+
+// Move selector fields other than label into a `selector` argument
+function liftSelector(params: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const selector: Record<string, unknown> = { ...(params.selector as Record<string, unknown> | undefined) };
+  for (const [key, value] of Object.entries(params)) {
+    if (key !== "label" && key !== "selector" && SELECTOR_SCHEMA.properties![key]) {
+      selector[key] = value;
+    } else if (key !== "selector") {
+      result[key] = value;
+    }
+  }
+  return Object.keys(selector).length > 0 ? { ...result, selector } : result;
+}
+
+function parseStep(raw: unknown, index: number): FlowStep {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new ToolError("INVALID_ARGUMENT", `Flow step ${index + 1} must be an object like { tapElement: { label: "Sign In" } }`);
+  }
+  const entries = Object.entries(raw as Record<string, unknown>);
+  const actions = entries.filter(([key]) => !STEP_OPTIONS.includes(key));
+  if (actions.length !== 1) {
+    throw new ToolError("INVALID_ARGUMENT", `Flow step ${index + 1} must have exactly one action, found: ${actions.map(([k]) => k).join(", ") || "none"}`);
+  }
+  const [action, value] = actions[0];
+  if (action !== "assert" && !(action in STEP_TOOLS)) {
+    throw new ToolError("INVALID_ARGUMENT", `Flow step ${index + 1}: unknown action '${action}'. Valid actions: ${[...Object.keys(STEP_TOOLS), "assert"].join(", ")}`);
+  }
+
+  let params: Record<string, unknown>;
+  if (value === null || value === undefined) {
+    params = {};
+  } else if (typeof value === "object" && !Array.isArray(value)) {
+    params = value as Record<string, unknown>;
+  } else if (SHORTHAND_ARGS[action]) {
+    params = { [SHORTHAND_ARGS[action]!]: value };
+  } else {
+    throw new ToolError("INVALID_ARGUMENT", `Flow step ${index + 1}: '${action}' needs an object of arguments`);
+  }
+
+  if (INLINE_SELECTOR_ACTIONS.includes(action)) {
+    params = liftSelector(params);
+  }
+
+  const options = raw as Record<string, unknown>;
+  validateArguments(`flow step ${index + 1}`, options, STEP_OPTIONS_SCHEMA);
+  return {
+    name: options.name as string | undefined,
+    action: action as StepAction,
+    params,
+    timeout: options.timeout as number | undefined,
+    retry: options.retry as number | undefined,
+    retryOn: options.retryOn as ErrorCode[] | undefined,
+    onFailure: options.onFailure as OnFailure | undefined,
+  };
+}
+
+// Parse a YAML or JSON flow
+export function parseFlow(source: string, fallbackName = "flow"): Flow {
+  const raw = YAML.parse(source);
+  if (typeof raw !== "object" || raw === null || !Array.isArray(raw.steps)) {
+    throw new ToolError("INVALID_ARGUMENT", "Flow must be an object with a 'steps' list");
+  }
+  if (raw.defaults !== undefined) {
+    validateArguments("flow defaults", raw.defaults, STEP_OPTIONS_SCHEMA);
+  }
+  const vars: Record<string, string> = {};
+  for (const [key, value] of Object.entries(raw.vars || {})) {
+    vars[key] = String(value);
+  }
+  return {
+    name: raw.name ? String(raw.name) : fallbackName,
+    udid: raw.udid,
+    vars,
+    defaults: raw.defaults || {},
+    steps: raw.steps.map(parseStep),
+  };
+}
+
+export function loadFlow(file: string): Flow {
+  return parseFlow(fs.readFileSync(file, "utf8"), path.basename(file, path.extname(file)));
+}
+
+// Replace ${name} in every string value
+function interpolate(value: unknown, vars: Record<string, string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+      if (!(name in vars)) throw new ToolError("INVALID_ARGUMENT", `Undefined flow variable \${${name}}`);
+      return vars[name];
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => interpolate(v, vars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolate(v, vars)]));
+  }
+  return value;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ToolError("TIMEOUT", `${what} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function slug(text: string): string {
+  return text.replace(/[^A-Za-z0-9_-]+/g, "-").replace(/^-|-$/g, "") || "flow";
+}
+
+async function runAssert(udid: string, params: Record<string, unknown>): Promise<string> {
+  validateArguments("assert", params, ASSERT_SCHEMA);
+  const selector: ElementSelector = {
+    ...(params.selector !== undefined ? checkSelector("assert", params.selector) : {}),
+    ...(params.label !== undefined ? { label: params.label as string } : {}),
+  };
+  const matches = selectElements(await idb.describeTree(udid), selector);
+  const count = params.count as number | undefined;
+  const exists = (params.exists as boolean | undefined) ?? true;
+
+  const ok = count !== undefined ? matches.length === count : exists === matches.length > 0;
+  const expected = count !== undefined ? `${count}` : exists ? "at least 1" : "0";
+  const summary = `${matches.length} element(s) match ${describeSelector(selector)} (expected ${expected})`;
+  if (!ok) throw new ToolError("ASSERTION_FAILED", `Assertion failed: ${summary}`);
+  return summary;
+}
+
+async function runStepOnce(udid: string, step: FlowStep, params: Record<string, unknown>, artifactsDir: string, flowName: string, index: number): Promise<string> {
+  if (step.action === "assert") {
+    return await runAssert(udid, params);
+  }
+
+  const args: Record<string, unknown> = { ...params, udid: params.udid ?? udid };
+  // A screenshot step's path is where the flow saves the image, not a tool argument
+  if (step.action === "screenshot") delete args.path;
+  const result = await callTool(STEP_TOOLS[step.action], args);
+  const text = result.content
+    .map((c) => (c.type === "text" ? c.text : ""))
+    .filter(Boolean)
+    .join("\n");
+  if (result.isError) {
+    const code = (result.structuredContent?.code as ErrorCode | undefined) ?? "UNKNOWN";
+    throw new ToolError(code, text.replace(/^Error: /, ""));
+  }
+
+  if (step.action === "screenshot") {
+    const image = result.content.find((c) => c.type === "image");
+    if (image?.type !== "image") return "No image returned";
+    const file = params.path !== undefined ? resolveOutputPath(params.path as string) : path.join(artifactsDir, `${slug(flowName)}-step${index + 1}-${Date.now()}.png`);
+    fs.writeFileSync(file, Buffer.from(image.data, "base64"));
+    return `Saved screenshot to ${file}`;
+  }
+  return text;
+}
+
+async function failureScreenshot(udid: string, artifactsDir: string, flowName: string, index: number): Promise<string | undefined> {
+  try {
+    const file = path.join(artifactsDir, `${slug(flowName)}-step${index + 1}-failure-${Date.now()}.png`);
+    fs.writeFileSync(file, Buffer.from(await idb.takeScreenshot(udid), "base64"));
+    return file;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function runFlow(flow: Flow, options: RunFlowOptions = {}): Promise<FlowResult> {
+  const udid = await getUdid({ udid: options.udid ?? flow.udid });
+  const vars = { ...flow.vars, ...options.vars };
+  const artifactsDir = options.artifactsDir ?? os.tmpdir();
+  fs.mkdirSync(artifactsDir, { recursive: true });
+
+  const start = Date.now();
+  const steps: StepResult[] = [];
+  let failed = false;
+
+  for (const [index, step] of flow.steps.entries()) {
+    const name = step.name ?? `${step.action}`;
+    if (failed) {
+      const skipped: StepResult = { index, name, action: step.action, status: "skipped", durationMs: 0, attempts: 0 };
+      steps.push(skipped);
+      options.onStep?.(skipped);
+      continue;
+    }
+
+    const timeout = step.timeout ?? flow.defaults.timeout ?? DEFAULT_STEP_TIMEOUT;
+    const retry = step.retry ?? flow.defaults.retry ?? 0;
+    const retryOn = step.retryOn ?? flow.defaults.retryOn;
+    const onFailure = step.onFailure ?? flow.defaults.onFailure ?? "none";
+    const stepStart = Date.now();
+    const result: StepResult = { index, name, action: step.action, status: "failed", durationMs: 0, attempts: 0 };
+
+    try {
+      const params = interpolate(step.params, vars) as Record<string, unknown>;
+      if (step.action === "waitFor" && params.timeout === undefined) {
+        params.timeout = timeout;
+      }
+      const limit = step.action === "waitFor" ? (params.timeout as number) + WAIT_GRACE : timeout;
+
+      for (let attempt = 0; attempt <= retry; attempt++) {
+        result.attempts = attempt + 1;
+        const run = runStepOnce(udid, step, params, artifactsDir, flow.name, index);
+        try {
+          result.output = await withTimeout(run, limit, `Step ${index + 1} (${name})`);
+          result.status = "passed";
+          result.error = undefined;
+          result.code = undefined;
+          break;
+        } catch (error) {
+          const failure = toToolError(error);
+          result.error = failure.message;
+          result.code = failure.code;
+          // A timed-out attempt keeps running. Let it finish so it can't overlap the
+          // retry or the next step, and don't repeat an action that went through late.
+          if (failure.code === "TIMEOUT" && (await run.then(() => true, () => false))) break;
+          if (retryOn && !retryOn.includes(failure.code)) break;
+          if (attempt < retry) await sleep(RETRY_DELAY);
+        }
+      }
+    } catch (error) {
+      const failure = toToolError(error);
+      result.error = failure.message;
+      result.code = failure.code;
+    }
+
+    if (result.status === "failed") {
+      failed = true;
+      if (onFailure === "screenshot") {
+        result.screenshot = await failureScreenshot(udid, artifactsDir, flow.name, index);
+      }
+    }
+    result.durationMs = Date.now() - stepStart;
+    steps.push(result);
+    options.onStep?.(result);
+  }
+
+  return { name: flow.name, udid, passed: !failed, durationMs: Date.now() - start, steps };
+}
@@ -0,0 +1,119 @@
+import * as idb from "./idb.js";
+import { ToolError } from "./errors.js";
+import { elementCenter, findNode, type ElementNode } from "./elements.js";
+import { pressKeys } from "./keyboard.js";
+import { describeSelector, selectElements, selectOne, type ElementSelector } from "./selector.js";
+import type { UIElement } from "./types.js";
+
+// Filling text fields: focus, clear, type, then read the value back
+
+export interface FillOptions {
+  // Remove the current value first. Default true.
+  clear?: boolean;
+  // Press return afterwards. Default false.
+  submit?: boolean;
+  // Read the field back and compare. Default true.
+  verify?: boolean;
+}
+
+export interface FillResult {
+  id: string;
+  type: string;
+  label: string | null;
+  // Masked for secure fields
+  expected: string;
+  actual: string | null;
+  verified: boolean;
+  // Why verification failed
+  problem?: string;
+}
+
+export const TEXT_INPUT_TYPES = ["TextField", "SecureTextField", "TextView", "SearchField"];
+// Time for focus and the keyboard to settle after a tap, and for the value to
+// update after typing
+const SETTLE_DELAY = 300;
+const MASK = /^[•●*]*$/;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isSecure(el: UIElement): boolean {
+  return el.type === "SecureTextField";
+}
+
+// The field a selector means: a text input among the matches when the selector
+// doesn't name a type, since a label often also matches a caption next to the field
+export function findField(tree: ElementNode[], selector: ElementSelector): UIElement {
+  if (selector.type === undefined) {
+    const inputs = selectElements(tree, selector).filter((el) => TEXT_INPUT_TYPES.includes(el.type));
+    if (inputs.length === 1) return inputs[0];
+  }
+  return selectOne(tree, selector);
+}
+
+function mask(text: string): string {
+  return "•".repeat([...text].length);
+}
+
+function checkValue(field: UIElement, text: string, actual: string | null): string | undefined {
+  const length = [...text].length;
+  if (isSecure(field)) {
+    const shown = actual ?? "";
+    if (MASK.test(shown) && [...shown].length === length) return undefined;
+    return `Secure field shows ${[...shown].length} characters, expected ${length}. Some keystrokes were lost or the field was not focused.`;
+  }
+  if ((actual ?? "") === text) return undefined;
+  if (!actual) return "Field is empty after typing: it probably didn't have keyboard focus.";
+  if (actual.length > text.length && actual.endsWith(text)) {
+    return "The old value was not fully cleared. Try again with clear: true, or clear it with press_keys.";
+  }
+  return "The value differs from what was typed: autocorrect, autocapitalization or a formatter changed it.";
+}
+
+export async function fillField(udid: string, selector: ElementSelector, text: string, options: FillOptions = {}): Promise<FillResult> {
+  let tree = await idb.describeTree(udid);
+  const field = findField(tree, selector);
+  const { x, y } = elementCenter(field);
+  await idb.tap(udid, x, y);
+  await sleep(SETTLE_DELAY);
+
+  if ((options.clear ?? true) && field.value) {
+    // The caret may be anywhere after the tap: delete forwards and backwards
+    const count = [...field.value].length;
+    await pressKeys(udid, [...Array(count).fill("forwarddelete"), ...Array(count).fill("delete")]);
+  }
+  if (text) await idb.typeText(udid, text);
+
+  const result: FillResult = {
+    id: field.id,
+    type: field.type,
+    label: field.label,
+    expected: isSecure(field) ? mask(text) : text,
+    actual: null,
+    verified: false,
+  };
+  if (options.verify ?? true) {
+    await sleep(SETTLE_DELAY);
+    tree = await idb.describeTree(udid);
+    const now = findNode(tree, field.id) ?? selectElements(tree, { ...selector, type: field.type })[0];
+    if (!now) throw new ToolError("ELEMENT_NOT_FOUND", `Field ${describeSelector(selector)} disappeared after typing. Use describe_screen to see the current screen.`);
+    result.actual = now.value;
+    result.problem = checkValue(field, text, now.value);
+    result.verified = result.problem === undefined;
+  }
+
+  if (options.submit) await pressKeys(udid, ["enter"]);
+  return result;
+}
+
+// Fill fields by label in order, stopping at the first field that fails verification
+export async function fillForm(udid: string, values: Record<string, string>, options: FillOptions = {}): Promise<FillResult[]> {
+  const entries = Object.entries(values);
+  const results: FillResult[] = [];
+  for (const [i, [label, text]] of entries.entries()) {
+    const last = i === entries.length - 1;
+    const result = await fillField(udid, { label }, text, { ...options, submit: last && options.submit });
+    results.push(result);
+    if (result.problem) break;
+  }
+  return results;
+}
@@ -0,0 +1,166 @@
+import * as idb from "./idb.js";
+import { flattenElements, walkEntries, type ElementNode } from "./elements.js";
+import { describeSelector, selectElements, selectOne, type ElementSelector } from "./selector.js";
+import type { Frame, UIElement } from "./types.js";
+
+// Gestures built from swipes: edge swipes and scrolling until an element is visible
+
+export type Edge = "left" | "right" | "top" | "bottom";
+
+// Direction the content moves into view from: "down" reveals what is below
+export type ScrollDirection = "up" | "down" | "left" | "right";
+
+export interface ScrollOptions {
+  direction?: ScrollDirection;
+  maxSwipes?: number;
+  // Scroll view to swipe in; defaults to the largest one on screen
+  container?: ElementSelector;
+}
+
+export interface ScrollResult {
+  found: boolean;
+  swipes: number;
+  // The content stopped moving before the element was fully visible
+  endReached: boolean;
+  element?: UIElement;
+  // Best match that is on screen but cut off, when not found
+  partiallyVisible?: UIElement;
+  // Area the element had to fit in, in points
+  viewport: Frame;
+}
+
+export const DEFAULT_MAX_SWIPES = 10;
+const SCROLL_TYPES = ["ScrollView", "Table", "CollectionView", "WebView"];
+// Slow enough that the content barely coasts after the finger lifts
+const SCROLL_DURATION = 500;
+// Time for the content to come to rest before the tree is read again
+const SETTLE_DELAY = 400;
+const EDGE_SWIPE_DURATION = 300;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function screenFrame(tree: ElementNode[]): Frame | null {
+  return tree.find((n) => n.type === "Application" && n.frame.width > 0)?.frame ?? null;
+}
+
+// Screen area in points: the app's root frame, else the device screen size
+export async function screenBounds(udid: string, tree: ElementNode[]): Promise<Frame> {
+  const app = screenFrame(tree);
+  if (app) return app;
+  const { points } = await idb.getScreenSize(udid);
+  return { x: 0, y: 0, width: points.width, height: points.height };
+}
+
+function intersect(a: Frame, b: Frame): Frame {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+}
+
+function fullyInside(frame: Frame, area: Frame): boolean {
+  return (
+    frame.width > 0 &&
+    frame.height > 0 &&
+    frame.x >= area.x &&
+    frame.y >= area.y &&
+    frame.x + frame.width <= area.x + area.width &&
+    frame.y + frame.height <= area.y + area.height
+  );
+}
+
+function overlaps(frame: Frame, area: Frame): boolean {
+  const common = intersect(frame, area);
+  return common.width > 0 && common.height > 0;
+}
+
+// Visible part of the scroll container to swipe in
+async function findViewport(udid: string, tree: ElementNode[], container?: ElementSelector): Promise<Frame> {
+  const screen = await screenBounds(udid, tree);
+  if (container) return intersect(selectOne(tree, container).frame, screen);
+  const scrollers = walkEntries(tree)
+    .map((entry) => entry.element)
+    .filter((el) => SCROLL_TYPES.includes(el.type))
+    .map((el) => intersect(el.frame, screen))
+    .sort((a, b) => b.width * b.height - a.width * a.height);
+  return scrollers[0] && scrollers[0].width * scrollers[0].height > 0 ? scrollers[0] : screen;
+}
+
+// Swipe across the middle half of the viewport, against the scroll direction
+async function swipeIn(udid: string, area: Frame, direction: ScrollDirection): Promise<void> {
+  const cx = Math.round(area.x + area.width / 2);
+  const cy = Math.round(area.y + area.height / 2);
+  const dx = Math.round(area.width / 4);
+  const dy = Math.round(area.height / 4);
+  const [startX, startY, endX, endY] = {
+    down: [cx, cy + dy, cx, cy - dy],
+    up: [cx, cy - dy, cx, cy + dy],
+    right: [cx + dx, cy, cx - dx, cy],
+    left: [cx - dx, cy, cx + dx, cy],
+  }[direction];
+  await idb.swipe(udid, startX, startY, endX, endY, SCROLL_DURATION);
+}
+
+// Swipe in the container until an element matching the selector is fully inside
+// it. Stops early when a swipe no longer changes the screen: the end of the content.
+export async function scrollToElement(udid: string, selector: ElementSelector, options: ScrollOptions = {}): Promise<ScrollResult> {
+  const direction = options.direction ?? "down";
+  const maxSwipes = options.maxSwipes ?? DEFAULT_MAX_SWIPES;
+  let tree = await idb.describeTree(udid);
+  const viewport = await findViewport(udid, tree, options.container);
+  let snapshot = JSON.stringify(flattenElements(tree));
+  let swipes = 0;
+  let endReached = false;
+
+  while (true) {
+    const matches = selectElements(tree, selector);
+    const element = matches.find((el) => fullyInside(el.frame, viewport));
+    if (element) return { found: true, swipes, endReached: false, element, viewport };
+    if (endReached || swipes >= maxSwipes) {
+      const partiallyVisible = matches.find((el) => overlaps(el.frame, viewport));
+      return { found: false, swipes, endReached, ...(partiallyVisible ? { partiallyVisible } : {}), viewport };
+    }
+
+    await swipeIn(udid, viewport, direction);
+    swipes++;
+    await sleep(SETTLE_DELAY);
+    tree = await idb.describeTree(udid);
+    const next = JSON.stringify(flattenElements(tree));
+    endReached = next === snapshot;
+    snapshot = next;
+  }
+}
+
+export function describeScrollFailure(selector: ElementSelector, result: ScrollResult, direction: ScrollDirection = "down"): string {
+  const where = result.endReached
+    ? `reached the end of the content after ${result.swipes} swipe${result.swipes === 1 ? "" : "s"}`
+    : `gave up after ${result.swipes} swipes`;
+  const hint = result.partiallyVisible
+    ? " The element is on screen but cut off; try a different container or direction."
+    : result.endReached
+      ? ` Try direction ${direction === "down" ? '"up"' : '"down"'} or check the selector with find_elements.`
+      : " Increase maxSwipes if the list is long.";
+  return `No element matching ${describeSelector(selector)} became fully visible: ${where}.${hint}`;
+}
+
+// Swipe in from a screen edge: from the left edge is back navigation, from the
+// top opens Notification Center, from the bottom goes home
+export async function edgeSwipe(udid: string, edge: Edge): Promise<string> {
+  const screen = await screenBounds(udid, await idb.describeTree(udid));
+  const right = screen.x + screen.width - 1;
+  const bottom = screen.y + screen.height - 1;
+  const midX = Math.round(screen.x + screen.width / 2);
+  const midY = Math.round(screen.y + screen.height / 2);
+  const [startX, startY, endX, endY] = {
+    left: [screen.x + 1, midY, Math.round(screen.x + screen.width * 0.7), midY],
+    right: [right, midY, Math.round(screen.x + screen.width * 0.3), midY],
+    top: [midX, screen.y + 1, midX, Math.round(screen.y + screen.height * 0.6)],
+    bottom: [midX, bottom, midX, Math.round(screen.y + screen.height * 0.4)],
+  }[edge];
+  await idb.swipe(udid, startX, startY, endX, endY, EDGE_SWIPE_DURATION);
+  return `Swiped in from the ${edge} edge`;
+}
@@ -0,0 +1,203 @@
+import * as http2 from "http2";
+
+// Minimal gRPC over Node's HTTP/2: unary and client-streaming calls on a pooled
+// connection, and a server for the same subset. Messages are raw protobuf bytes.
+
+export const GrpcStatus = {
+  OK: 0,
+  UNKNOWN: 2,
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  UNIMPLEMENTED: 12,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+} as const;
+
+export class GrpcError extends Error {
+  readonly code: number;
+
+  constructor(code: number, message: string) {
+    super(message);
+    this.name = "GrpcError";
+    this.code = code;
+  }
+}
+
+// Handles one call: the request messages in, the response messages out
+export type GrpcHandler = (requests: Buffer[]) => Promise<Buffer[]>;
+
+export const DEFAULT_DEADLINE = 30000;
+
+// Length-prefixed message: compression flag, 4-byte big-endian length, body
+export function encodeFrame(message: Buffer): Buffer {
+  const header = Buffer.alloc(5);
+  header.writeUInt32BE(message.length, 1);
+  return Buffer.concat([header, message]);
+}
+
+// Reassembles messages from the chunks of a stream
+class FrameReader {
+  private pending = Buffer.alloc(0);
+
+  push(chunk: Buffer): Buffer[] {
+    this.pending = Buffer.concat([this.pending, chunk]);
+    const messages: Buffer[] = [];
+    while (this.pending.length >= 5) {
+      if (this.pending[0] !== 0) throw new GrpcError(GrpcStatus.INTERNAL, "Compressed gRPC messages are not supported");
+      const length = this.pending.readUInt32BE(1);
+      if (this.pending.length < 5 + length) break;
+      messages.push(this.pending.subarray(5, 5 + length));
+      this.pending = this.pending.subarray(5 + length);
+    }
+    return messages;
+  }
+}
+
+function readStatus(headers: http2.IncomingHttpHeaders): { code: number; message: string } | null {
+  const code = headers["grpc-status"];
+  if (code === undefined) return null;
+  const message = headers["grpc-message"];
+  return { code: Number(code), message: message ? decodeURIComponent(String(message)) : "" };
+}
+
+// One HTTP/2 connection to `host:port`, opened on first use and reopened after
+// it drops. Calls are multiplexed over it.
+export class GrpcChannel {
+  readonly address: string;
+  private session: http2.ClientHttp2Session | null = null;
+
+  constructor(address: string) {
+    this.address = address;
+  }
+
+  private connect(): http2.ClientHttp2Session {
+    if (this.session && !this.session.closed && !this.session.destroyed) return this.session;
+    const session = http2.connect(`http://${this.address}`);
+    // Errors also reach the calls on the session; this only keeps them from being unhandled
+    session.on("error", () => {});
+    session.on("close", () => {
+      if (this.session === session) this.session = null;
+    });
+    // An idle connection must not keep the process alive
+    session.unref();
+    this.session = session;
+    return session;
+  }
+
+  // Send every request message, then wait for the responses and the status
+  call(method: string, requests: Buffer[], timeout = DEFAULT_DEADLINE): Promise<Buffer[]> {
+    const session = this.connect();
+    return new Promise((resolve, reject) => {
+      const stream = session.request({
+        ":method": "POST",
+        ":path": method,
+        "content-type": "application/grpc",
+        te: "trailers",
+        "grpc-timeout": `${Math.max(1, Math.round(timeout))}m`,
+      });
+      const reader = new FrameReader();
+      const responses: Buffer[] = [];
+      let status: { code: number; message: string } | null = null;
+      let responded = false;
+      // Whether request data was handed to the connection. Until then nothing can
+      // have reached the companion, so a failure is safe to retry. After that the
+      // companion may have acted on it (a tap) even though no status came back.
+      let sent = false;
+      let failure: Error | null = null;
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        stream.close(http2.constants.NGHTTP2_CANCEL);
+      }, timeout);
+
+      stream.on("response", (headers) => {
+        responded = true;
+        // Trailers-only responses carry the status in the headers
+        status = readStatus(headers) ?? status;
+      });
+      stream.on("trailers", (trailers) => {
+        status = readStatus(trailers) ?? status;
+      });
+      stream.on("data", (chunk: Buffer) => {
+        try {
+          responses.push(...reader.push(chunk));
+        } catch (error: any) {
+          failure = error;
+          stream.close(http2.constants.NGHTTP2_CANCEL);
+        }
+      });
+      stream.on("error", (error) => {
+        failure = failure ?? error;
+      });
+      stream.on("close", () => {
+        clearTimeout(timer);
+        if (timedOut) return reject(new GrpcError(GrpcStatus.DEADLINE_EXCEEDED, `${method} timed out after ${timeout}ms`));
+        if (failure instanceof GrpcError) return reject(failure);
+        if (!status) {
+          // Nothing came back. A refused stream was never processed.
+          const detail = failure ? `: ${failure.message}` : "";
+          if (responded || (sent && stream.rstCode !== http2.constants.NGHTTP2_REFUSED_STREAM)) {
+            return reject(new GrpcError(GrpcStatus.UNKNOWN, `Connection to companion at ${this.address} dropped during ${method}, which may have run${detail}`));
+          }
+          return reject(new GrpcError(GrpcStatus.UNAVAILABLE, `No response from companion at ${this.address}${detail}`));
+        }
+        if (status.code !== GrpcStatus.OK) {
+          return reject(new GrpcError(status.code, status.message || `${method} failed with gRPC status ${status.code}`));
+        }
+        resolve(responses);
+      });
+
+      for (const request of requests) {
+        stream.write(encodeFrame(request), (error) => {
+          if (!error) sent = true;
+        });
+      }
+      stream.end();
+    });
+  }
+
+  close(): void {
+    this.session?.close();
+    this.session = null;
+  }
+}
+
+// Server for the same subset: each handler gets every request message once the
+// client has finished sending, and its responses are written before the status
+export function createGrpcServer(handlers: Record<string, GrpcHandler>): http2.Http2Server {
+  const server = http2.createServer();
+  server.on("stream", (stream, headers) => {
+    const method = String(headers[":path"]);
+    const reader = new FrameReader();
+    const requests: Buffer[] = [];
+    const fail = (code: number, message: string) => {
+      if (stream.closed) return;
+      stream.respond({ ":status": 200, "content-type": "application/grpc", "grpc-status": String(code), "grpc-message": encodeURIComponent(message) }, { endStream: true });
+    };
+
+    stream.on("data", (chunk: Buffer) => {
+      try {
+        requests.push(...reader.push(chunk));
+      } catch (error: any) {
+        fail(GrpcStatus.INTERNAL, error.message);
+      }
+    });
+    stream.on("error", () => {});
+    stream.on("end", async () => {
+      const handler = handlers[method];
+      if (!handler) return fail(GrpcStatus.UNIMPLEMENTED, `Method ${method} is not implemented`);
+      try {
+        const responses = await handler(requests);
+        if (stream.closed) return;
+        stream.respond({ ":status": 200, "content-type": "application/grpc" }, { waitForTrailers: true });
+        stream.on("wantTrailers", () => stream.sendTrailers({ "grpc-status": String(GrpcStatus.OK) }));
+        for (const response of responses) stream.write(encodeFrame(response));
+        stream.end();
+      } catch (error: any) {
+        fail(error instanceof GrpcError ? error.code : GrpcStatus.UNKNOWN, error.message);
+      }
+    });
+  });
+  return server;
+}
@@ -0,0 +1,135 @@
+import * as http from "http";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// Streamable HTTP transport, so agents on other machines can drive the simulators
+// of a shared Mac. Every request needs the bearer token. Each MCP session gets its
+// own server instance and counts as its own client for selection and leases.
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+export interface HttpServer {
+  // host:port actually bound, e.g. with port 0
+  address: string;
+  close(): Promise<void>;
+}
+
+export const MCP_PATH = "/mcp";
+// Largest request body accepted, in bytes
+const MAX_BODY = 4 * 1024 * 1024;
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+// JSON-RPC error for requests that never reach a session
+function sendError(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY) {
+        reject(new Error(`Request body is larger than ${MAX_BODY} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new Error("Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+// Serve MCP at MCP_PATH. createServer builds the server for a new session; it gets
+// a function returning the session ID, which is assigned during initialization.
+// onSessionClosed runs when a client ends its session or the server shuts down.
+export function startHttpServer(
+  createServer: (sessionId: () => string) => Server,
+  options: HttpOptions,
+  onSessionClosed: (sessionId: string) => void
+): Promise<HttpServer> {
+  const expected = digest(options.token);
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  // Comparing digests keeps the check constant-time whatever the token length
+  function authorized(req: http.IncomingMessage): boolean {
+    const match = (req.headers.authorization ?? "").match(/^Bearer\s+(\S+)\s*$/i);
+    return !!match && timingSafeEqual(digest(match[1]), expected);
+  }
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== MCP_PATH) return sendError(res, 404, `Not found. The MCP endpoint is ${MCP_PATH}.`);
+    if (!authorized(req)) {
+      return sendError(res, 401, "Missing or wrong bearer token. Send Authorization: Bearer <IOS_SIM_HTTP_TOKEN>.", {
+        "www-authenticate": 'Bearer realm="ios-sim-mcp"',
+      });
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const transport = sessions.get(sessionId);
+      if (!transport) return sendError(res, 404, `Unknown session ${sessionId}. Start a new one with an initialize request.`);
+      return await transport.handleRequest(req, res);
+    }
+
+    if (req.method !== "POST") return sendError(res, 400, "No session. Start one by POSTing an initialize request.");
+    let body: unknown;
+    try {
+      body = await readJson(req);
+    } catch (error: any) {
+      return sendError(res, 400, error.message);
+    }
+    if (!isInitializeRequest(body)) return sendError(res, 400, "No session. The first request must be initialize.");
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => void sessions.set(id, transport),
+    });
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && sessions.delete(id)) onSessionClosed(id);
+    };
+    const server = createServer(() => transport.sessionId ?? "");
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (!res.headersSent) sendError(res, 500, error.message);
+      else res.end();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      const bound = httpServer.address();
+      resolve({
+        address: typeof bound === "object" && bound ? `${bound.address}:${bound.port}` : `${options.host}:${options.port}`,
+        async close() {
+          await Promise.all([...sessions.values()].map((transport) => transport.close()));
+          httpServer.closeAllConnections();
+          await new Promise<void>((done) => httpServer.close(() => done()));
+        },
+      });
+    });
+  });
+}
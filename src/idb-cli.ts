@@ -0,0 +1,377 @@
+import { execFile, spawn } from "child_process";
+import * as readline from "readline";
+import { promisify } from "util";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import type { DeviceBackend } from "./backend.js";
+import { classifyMessage, ToolError } from "./errors.js";
+import type { CrashLogInfo, RawAXNode, Simulator } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+// Find idb executable
+function findIdb(): string {
+  if (process.env.IDB_PATH) {
+    return process.env.IDB_PATH;
+  }
+
+  const locations = [
+    path.join(os.homedir(), "Library/Python/3.9/bin/idb"),
+    "/opt/homebrew/bin/idb",
+    "/usr/local/bin/idb",
+  ];
+
+  for (const loc of locations) {
+    if (fs.existsSync(loc)) {
+      return loc;
+    }
+  }
+
+  return "idb";
+}
+
+const IDB = findIdb();
+
+// How long stop() waits for idb to finalize a video before killing it
+const VIDEO_STOP_TIMEOUT = 10000;
+
+// Per-operation timeouts by idb subcommand, in ms; anything else gets DEFAULT_TIMEOUT
+const TIMEOUTS: Record<string, number> = {
+  boot: 120000,
+  shutdown: 60000,
+  install: 600000,
+  "add-media": 300000,
+  file: 300000,
+  launch: 60000,
+  ui: 30000,
+  screenshot: 30000,
+  "list-targets": 20000,
+};
+const DEFAULT_TIMEOUT = 60000;
+// Waits before each retry of a call that could not reach the companion. Nothing
+// ran on the simulator in that case, so retrying never repeats an action.
+const RETRY_DELAYS = [500, 1000];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// A failed execFile as a classified error. The exit status decides failure;
+// stderr is only read for the message, since idb also warns there on success.
+function commandError(program: string, args: string[], error: any, timeout: number): ToolError {
+  const command = [program === IDB ? "idb" : program, args[0]].join(" ");
+  if (error.code === "ENOENT") {
+    return program === IDB
+      ? new ToolError("IDB_NOT_FOUND", `idb was not found at '${IDB}'. Install idb or set IDB_PATH.`)
+      : new ToolError("UNKNOWN", `${program} was not found.`, "Install the Xcode command line tools with xcode-select --install.");
+  }
+  if (error.killed) return new ToolError("TIMEOUT", `${command} timed out after ${timeout / 1000}s`);
+  const message = String(error.stderr || "").trim() || error.message;
+  return new ToolError(classifyMessage(message), message);
+}
+
+// A failed spawn of a long-running idb process
+function spawnError(error: NodeJS.ErrnoException): Error {
+  return error.code === "ENOENT" ? new ToolError("IDB_NOT_FOUND", `idb was not found at '${IDB}'. Install idb or set IDB_PATH.`) : error;
+}
+
+// Execute idb command. Arguments are passed as argv, never through a shell.
+// Callers put options first and caller-supplied values after "--", so text or a
+// path starting with "-" can't be taken for an option.
+export async function idb(args: string[]): Promise<string> {
+  const timeout = TIMEOUTS[args[0]] ?? DEFAULT_TIMEOUT;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { stdout } = await execFileAsync(IDB, args, { timeout });
+      return stdout.trim();
+    } catch (error) {
+      const failure = commandError(IDB, args, error, timeout);
+      if (failure.code !== "COMPANION_UNREACHABLE" || attempt >= RETRY_DELAYS.length) throw failure;
+      await sleep(RETRY_DELAYS[attempt]);
+    }
+  }
+}
+
+// Execute `xcrun simctl` for what idb doesn't cover, e.g. revoking permissions
+async function simctl(args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("xcrun", ["simctl", ...args], { timeout: DEFAULT_TIMEOUT });
+    return stdout.trim();
+  } catch (error) {
+    throw commandError("xcrun", ["simctl", ...args], error, DEFAULT_TIMEOUT);
+  }
+}
+
+// Parse idb list-targets output
+function parseListTargets(output: string): Simulator[] {
+  const lines = output.split("\n").filter((l) => l.trim());
+  return lines.map((line) => {
+    const parts = line.split("|").map((p) => p.trim());
+    return {
+      name: parts[0] || "",
+      udid: parts[1] || "",
+      state: parts[2] || "",
+      type: parts[3] || "",
+      os_version: parts[4] || "",
+    };
+  });
+}
+
+// Parse `idb crash list --json`: a JSON array or one JSON object per line
+function parseCrashList(output: string): CrashLogInfo[] {
+  let records: any[];
+  try {
+    const parsed = JSON.parse(output || "[]");
+    records = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    records = output.split("\n").filter((l) => l.trim().startsWith("{")).map((l) => JSON.parse(l));
+  }
+  return records.map((r) => ({
+    name: String(r.name),
+    bundleId: r.bundle_id || null,
+    process: String(r.process_name ?? ""),
+    timestamp: Number(r.timestamp ?? 0),
+  }));
+}
+
+function findApplication(nodes: RawAXNode[]): RawAXNode | undefined {
+  for (const node of nodes) {
+    if (node.type === "Application") return node;
+    const found = node.children && findApplication(node.children);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+async function describeAll(udid: string): Promise<RawAXNode[]> {
+  const output = await idb(["ui", "describe-all", "--nested", "--udid", udid]);
+  const raw = JSON.parse(output);
+  return Array.isArray(raw) ? raw : [raw];
+}
+
+export function createIdbCliBackend(): DeviceBackend {
+  return {
+    name: "idb",
+
+    async listSimulators() {
+      return parseListTargets(await idb(["list-targets"]));
+    },
+
+    async bootSimulator(udid) {
+      await idb(["boot", "--udid", udid]);
+    },
+
+    async shutdownSimulator(udid) {
+      await idb(["shutdown", "--udid", udid]);
+    },
+
+    async takeScreenshot(udid) {
+      const tmpFile = path.join(os.tmpdir(), `sim-screenshot-${Date.now()}.png`);
+      await idb(["screenshot", tmpFile, "--udid", udid]);
+      const imageData = fs.readFileSync(tmpFile);
+      fs.unlinkSync(tmpFile);
+      return imageData.toString("base64");
+    },
+
+    async getScreenSize(udid) {
+      const tmpFile = path.join(os.tmpdir(), `sim-size-${Date.now()}.png`);
+      await idb(["screenshot", tmpFile, "--udid", udid]);
+      const { stdout } = await execFileAsync("sips", ["-g", "pixelWidth", "-g", "pixelHeight", tmpFile]);
+      fs.unlinkSync(tmpFile);
+
+      const widthMatch = stdout.match(/pixelWidth: (\d+)/);
+      const heightMatch = stdout.match(/pixelHeight: (\d+)/);
+      const pixelWidth = widthMatch ? parseInt(widthMatch[1]) : 0;
+      const pixelHeight = heightMatch ? parseInt(heightMatch[1]) : 0;
+
+      const appElement = findApplication(await describeAll(udid));
+      const pointWidth = appElement?.frame?.width || Math.round(pixelWidth / 3);
+      const pointHeight = appElement?.frame?.height || Math.round(pixelHeight / 3);
+
+      return {
+        pixels: { width: pixelWidth, height: pixelHeight },
+        points: { width: pointWidth, height: pointHeight },
+        scale: Math.round(pixelWidth / pointWidth),
+      };
+    },
+
+    async launchApp(udid, bundleId) {
+      await idb(["launch", "--udid", udid, "--", bundleId]);
+    },
+
+    async terminateApp(udid, bundleId) {
+      await idb(["terminate", "--udid", udid, "--", bundleId]);
+    },
+
+    async listApps(udid) {
+      return await idb(["list-apps", "--udid", udid]);
+    },
+
+    async installApp(udid, appPath) {
+      const output = await idb(["install", "--udid", udid, "--", appPath]);
+      return output.match(/Installed:\s*(\S+)/)?.[1] ?? null;
+    },
+
+    async uninstallApp(udid, bundleId) {
+      await idb(["uninstall", "--udid", udid, "--", bundleId]);
+    },
+
+    async pushFile(udid, bundleId, localPath, remoteDir) {
+      await idb(["file", "push", "--bundle-id", bundleId, "--udid", udid, "--", localPath, remoteDir || "/"]);
+    },
+
+    async pullFile(udid, bundleId, remotePath, localDir) {
+      await idb(["file", "pull", "--bundle-id", bundleId, "--udid", udid, "--", remotePath, localDir]);
+    },
+
+    async listFiles(udid, bundleId, remoteDir) {
+      const output = await idb(["file", "ls", "--bundle-id", bundleId, "--udid", udid, "--", remoteDir || "/"]);
+      return output.split("\n").map((line) => line.trim()).filter(Boolean);
+    },
+
+    async tap(udid, x, y) {
+      await idb(["ui", "tap", String(x), String(y), "--udid", udid]);
+    },
+
+    async longPress(udid, x, y, durationMs) {
+      await idb(["ui", "tap", String(x), String(y), "--duration", String(durationMs / 1000), "--udid", udid]);
+    },
+
+    async swipe(udid, startX, startY, endX, endY, duration) {
+      const durationArgs = duration ? ["--duration", String(duration / 1000)] : [];
+      await idb(["ui", "swipe", String(startX), String(startY), String(endX), String(endY), ...durationArgs, "--udid", udid]);
+    },
+
+    async drag(udid, startX, startY, endX, endY, holdMs) {
+      // A delta as long as the whole move makes a single step, and idb waits
+      // `duration` after each touch event: a hold at the start and at the end
+      const delta = Math.max(1, Math.ceil(Math.hypot(endX - startX, endY - startY)));
+      await idb([
+        "ui", "swipe", String(startX), String(startY), String(endX), String(endY),
+        "--duration", String(holdMs / 1000), "--delta", String(delta), "--udid", udid,
+      ]);
+    },
+
+    async typeText(udid, text) {
+      await idb(["ui", "text", "--udid", udid, "--", text]);
+    },
+
+    async pressKey(udid, keycode, modifiers) {
+      if (modifiers.length > 0) {
+        throw new ToolError(
+          "UNSUPPORTED",
+          "The idb CLI presses one key at a time and cannot hold modifier keys, so combos like cmd+a can't be sent.",
+          "Set IOS_SIM_COMPANION to send combos through idb_companion. Otherwise use type_text for capitals and symbols, and repeated delete instead of select-all."
+        );
+      }
+      await idb(["ui", "key", String(keycode), "--udid", udid]);
+    },
+
+    async pressKeySequence(udid, keycodes) {
+      await idb(["ui", "key-sequence", ...keycodes.map(String), "--udid", udid]);
+    },
+
+    async pressButton(udid, button) {
+      await idb(["ui", "button", button.toUpperCase(), "--udid", udid]);
+    },
+
+    async openUrl(udid, url) {
+      await idb(["open", "--udid", udid, "--", url]);
+    },
+
+    describeScreen: describeAll,
+
+    async describePoint(udid, x, y) {
+      return await idb(["ui", "describe-point", String(x), String(y), "--udid", udid]);
+    },
+
+    async setLocation(udid, location) {
+      await idb(["set-location", "--udid", udid, "--", String(location.latitude), String(location.longitude)]);
+    },
+
+    async setPermission(udid, action, service, bundleId) {
+      await simctl(["privacy", udid, action, service, bundleId]);
+    },
+
+    async addMedia(udid, files) {
+      await idb(["add-media", "--udid", udid, "--", ...files]);
+    },
+
+    async clearKeychain(udid) {
+      await idb(["clear-keychain", "--udid", udid]);
+    },
+
+    async listCrashes(udid) {
+      return parseCrashList(await idb(["crash", "list", "--json", "--udid", udid]));
+    },
+
+    async getCrash(udid, name) {
+      return await idb(["crash", "show", "--udid", udid, "--", name]);
+    },
+
+    async deleteCrash(udid, name) {
+      await idb(["crash", "delete", "--udid", udid, "--", name]);
+    },
+
+    recordVideo(udid, file) {
+      const child = spawn(IDB, ["record-video", "--udid", udid, file], { stdio: ["ignore", "ignore", "pipe"] });
+      let stderr = "";
+      let failure: Error | null = null;
+      child.stderr.on("data", (chunk) => {
+        stderr = (stderr + chunk).slice(-2000);
+      });
+      const exited = new Promise<void>((resolve) => {
+        child.on("error", (error) => {
+          failure = spawnError(error);
+          resolve();
+        });
+        child.on("close", (code) => {
+          if (code !== 0 && code !== null && !failure) {
+            failure = new Error(`idb record-video exited with code ${code}${stderr ? `: ${stderr.trim()}` : ""}`);
+          }
+          resolve();
+        });
+      });
+      return {
+        async stop() {
+          if (child.exitCode === null && child.signalCode === null) {
+            // SIGINT lets idb write the MP4 trailer
+            child.kill("SIGINT");
+            const timer = setTimeout(() => child.kill("SIGKILL"), VIDEO_STOP_TIMEOUT);
+            await exited;
+            clearTimeout(timer);
+            return;
+          }
+          await exited;
+          if (failure) throw failure;
+        },
+        kill() {
+          child.kill("SIGINT");
+        },
+      };
+    },
+
+    streamLogs(udid, onLine, onExit) {
+      const child = spawn(IDB, ["log", "--udid", udid, "--", "--style", "ndjson"], { stdio: ["ignore", "pipe", "pipe"] });
+      let stopped = false;
+      let stderr = "";
+      readline.createInterface({ input: child.stdout }).on("line", onLine);
+      child.stderr.on("data", (chunk) => {
+        stderr = (stderr + chunk).slice(-2000);
+      });
+      child.on("error", (error) => {
+        if (!stopped) onExit(spawnError(error));
+        stopped = true;
+      });
+      child.on("close", (code) => {
+        if (!stopped) onExit(new Error(`idb log exited with code ${code}${stderr ? `: ${stderr.trim()}` : ""}`));
+        stopped = true;
+      });
+      return {
+        stop() {
+          stopped = true;
+          child.kill();
+        },
+      };
+    },
+  };
+}
@@ -1,166 +1,160 @@
-import { exec } from "child_process";
-import { promisify } from "util";
 import * as fs from "fs";
-import * as path from "path";
 import * as os from "os";
+import * as path from "path";
+import { getBackend } from "./backend.js";
+import { elementCenter, findNode, flattenElements, parseTree, type ElementNode } from "./elements.js";
+import { ToolError } from "./errors.js";
+import { selectElements, selectOne, type ElementSelector } from "./selector.js";
+import type { AppInfo, Simulator, UIElement, ScreenSize } from "./types.js";
 
-const execAsync = promisify(exec);
-
-// Find idb executable
-function findIdb(): string {
-  if (process.env.IDB_PATH) {
-    return process.env.IDB_PATH;
-  }
-
-  const locations = [
-    path.join(os.homedir(), "Library/Python/3.9/bin/idb"),
-    "/opt/homebrew/bin/idb",
-    "/usr/local/bin/idb",
-  ];
-
-  for (const loc of locations) {
-    if (fs.existsSync(loc)) {
-      return loc;
-    }
-  }
-
-  return "idb";
-}
-
-const IDB = findIdb();
-
-// Execute idb command
-export async function idb(args: string): Promise<string> {
-  const { stdout, stderr } = await execAsync(`${IDB} ${args}`);
-  if (stderr && !stdout) {
-    throw new Error(stderr);
-  }
-  return stdout.trim();
-}
-
-// Types
-export interface Simulator {
-  udid: string;
-  name: string;
-  state: string;
-  type: string;
-  os_version: string;
-}
-
-export interface UIElement {
-  type: string;
-  label: string | null;
-  value: string | null;
-  frame: { x: number; y: number; width: number; height: number };
-  enabled: boolean;
-}
-
-export interface ScreenSize {
-  pixels: { width: number; height: number };
-  points: { width: number; height: number };
-  scale: number;
-}
-
-// Parse idb list-targets output
-function parseListTargets(output: string): Simulator[] {
-  const lines = output.split("\n").filter((l) => l.trim());
-  return lines.map((line) => {
-    const parts = line.split("|").map((p) => p.trim());
-    return {
-      name: parts[0] || "",
-      udid: parts[1] || "",
-      state: parts[2] || "",
-      type: parts[3] || "",
-      os_version: parts[4] || "",
-    };
-  });
-}
-
-// Parse raw idb element to our format
-function parseElement(raw: any): UIElement & { children?: any[] } {
-  return {
-    type: raw.type || raw.role || "Unknown",
-    label: raw.AXLabel || null,
-    value: raw.AXValue || null,
-    frame: raw.frame || { x: 0, y: 0, width: 0, height: 0 },
-    enabled: raw.enabled ?? true,
-    children: raw.children?.map(parseElement),
-  };
-}
-
-// Flatten element tree to list
-function flattenElements(elements: any[], result: UIElement[] = []): UIElement[] {
-  for (const el of elements) {
-    if (el.label || ["Button", "TextField", "StaticText", "Image", "Switch", "Slider", "Application"].includes(el.type)) {
-      const { children, ...rest } = el;
-      result.push(rest);
-    }
-    if (el.children) {
-      flattenElements(el.children, result);
-    }
-  }
-  return result;
-}
+export type { AppInfo, Simulator, UIElement, ScreenSize } from "./types.js";
 
 // Simulator operations
 export async function listSimulators(): Promise<Simulator[]> {
-  const output = await idb("list-targets");
-  return parseListTargets(output);
-}
-
-export async function getBootedSimulator(): Promise<Simulator | null> {
-  const simulators = await listSimulators();
-  return simulators.find((s) => s.state === "Booted") || null;
+  return await getBackend().listSimulators();
 }
 
 // Helper for actionable error when no booted simulator
 export function noBootedSimulatorError(): Error {
-  return new Error(
+  return new ToolError(
+    "SIMULATOR_NOT_BOOTED",
     "No booted simulator found. Use list_simulators to find available simulators, then boot_simulator with a UDID."
   );
 }
 
 export async function bootSimulator(udid: string): Promise<string> {
-  await idb(`boot --udid ${udid}`);
+  await getBackend().bootSimulator(udid);
   return `Booted simulator ${udid}`;
 }
 
 export async function shutdownSimulator(udid: string): Promise<string> {
-  await idb(`shutdown --udid ${udid}`);
+  await getBackend().shutdownSimulator(udid);
   return `Shut down simulator ${udid}`;
 }
 
 // Screenshot
 export async function takeScreenshot(udid: string): Promise<string> {
-  const tmpFile = path.join(os.tmpdir(), `sim-screenshot-${Date.now()}.png`);
-  await idb(`screenshot ${tmpFile} --udid ${udid}`);
-  const imageData = fs.readFileSync(tmpFile);
-  const base64 = imageData.toString("base64");
-  fs.unlinkSync(tmpFile);
-  return base64;
+  return await getBackend().takeScreenshot(udid);
 }
 
 // App operations
 export async function launchApp(udid: string, bundleId: string): Promise<string> {
-  await idb(`launch ${bundleId} --udid ${udid}`);
+  await getBackend().launchApp(udid, bundleId);
   return `Launched ${bundleId}`;
 }
 
 export async function terminateApp(udid: string, bundleId: string): Promise<string> {
-  await idb(`terminate ${bundleId} --udid ${udid}`);
+  await getBackend().terminateApp(udid, bundleId);
   return `Terminated ${bundleId}`;
 }
 
-export async function listApps(udid: string): Promise<string> {
-  return await idb(`list-apps --udid ${udid}`);
+// Parse `idb list-apps` lines: bundle ID | name | install type | architectures | process state | ...
+export function parseAppList(output: string): AppInfo[] {
+  return output
+    .split("\n")
+    .filter((line) => line.includes("|"))
+    .map((line) => {
+      const parts = line.split("|").map((p) => p.trim());
+      return {
+        bundleId: parts[0],
+        name: parts[1] || parts[0],
+        installType: parts[2] || "unknown",
+        running: (parts[4] || "").toLowerCase() === "running",
+        architectures: (parts[3] || "").split(",").map((a) => a.trim()).filter(Boolean),
+      };
+    });
+}
+
+export async function listApps(udid: string): Promise<AppInfo[]> {
+  return parseAppList(await getBackend().listApps(udid));
+}
+
+export async function installApp(udid: string, appPath: string): Promise<string> {
+  const resolved = path.resolve(appPath);
+  if (!fs.existsSync(resolved)) {
+    throw new ToolError("INVALID_ARGUMENT", `App not found at ${resolved}. Pass the path to a built .app directory or an .ipa file.`);
+  }
+  const isDir = fs.statSync(resolved).isDirectory();
+  if (!(isDir && resolved.endsWith(".app")) && !(!isDir && resolved.endsWith(".ipa"))) {
+    throw new ToolError("INVALID_ARGUMENT", `Cannot install ${resolved}: expected an .app directory or an .ipa file. Simulator builds are usually in DerivedData/.../Build/Products/Debug-iphonesimulator/.`);
+  }
+  const bundleId = await getBackend().installApp(udid, resolved);
+  return bundleId ? `Installed ${bundleId} from ${resolved}` : `Installed ${resolved}`;
+}
+
+export async function uninstallApp(udid: string, bundleId: string): Promise<string> {
+  await getBackend().uninstallApp(udid, bundleId);
+  return `Uninstalled ${bundleId}`;
+}
+
+// App data container files. Remote paths are relative to the container root.
+function containerPath(remotePath: string): string {
+  const parts = remotePath.split("/").filter((p) => p && p !== ".");
+  if (parts.includes("..")) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid container path '${remotePath}': '..' is not allowed. Paths are relative to the app's data container, e.g. 'Documents/data.json'.`);
+  }
+  return parts.join("/");
+}
+
+export async function pushFile(udid: string, bundleId: string, localPath: string, remoteDir: string): Promise<string> {
+  const resolved = path.resolve(localPath);
+  if (!fs.existsSync(resolved) || !fs.statSync(resolved).isFile()) {
+    throw new ToolError("INVALID_ARGUMENT", `Local file not found: ${resolved}`);
+  }
+  const dir = containerPath(remoteDir);
+  await getBackend().pushFile(udid, bundleId, resolved, dir);
+  return `Pushed ${resolved} to ${bundleId}:${dir ? `${dir}/` : ""}${path.basename(resolved)}`;
+}
+
+export async function pullFile(udid: string, bundleId: string, remotePath: string, localPath?: string): Promise<{ path: string; bytes: number }> {
+  const file = containerPath(remotePath);
+  if (!file) throw new ToolError("INVALID_ARGUMENT", "remotePath must name a file in the app's data container");
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "sim-pull-"));
+  const pulled = path.join(tmpDir, path.posix.basename(file));
+  try {
+    await getBackend().pullFile(udid, bundleId, file, tmpDir);
+  } finally {
+    if (!fs.existsSync(pulled)) fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+  if (!fs.existsSync(pulled)) {
+    throw new ToolError("INVALID_ARGUMENT", `No file ${file} in the data container of ${bundleId}.`, "Use list_files to see what is there.");
+  }
+  if (!localPath) return { path: pulled, bytes: fs.statSync(pulled).size };
+
+  const target = path.resolve(localPath);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.copyFileSync(pulled, target);
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+  return { path: target, bytes: fs.statSync(target).size };
+}
+
+export async function listFiles(udid: string, bundleId: string, remoteDir = ""): Promise<string[]> {
+  return await getBackend().listFiles(udid, bundleId, containerPath(remoteDir));
 }
 
 // UI interactions
 export async function tap(udid: string, x: number, y: number): Promise<string> {
-  await idb(`ui tap ${x} ${y} --udid ${udid}`);
+  await getBackend().tap(udid, x, y);
   return `Tapped at (${x}, ${y})`;
 }
 
+export async function longPress(udid: string, x: number, y: number, durationMs: number): Promise<string> {
+  await getBackend().longPress(udid, x, y, durationMs);
+  return `Long pressed at (${x}, ${y}) for ${durationMs}ms`;
+}
+
+// Two taps back to back; there is no lower-level double tap to use
+export async function doubleTap(udid: string, x: number, y: number): Promise<string> {
+  await getBackend().tap(udid, x, y);
+  await getBackend().tap(udid, x, y);
+  return `Double tapped at (${x}, ${y})`;
+}
+
+export async function drag(udid: string, startX: number, startY: number, endX: number, endY: number, holdMs: number): Promise<string> {
+  await getBackend().drag(udid, startX, startY, endX, endY, holdMs);
+  return `Dragged from (${startX}, ${startY}) to (${endX}, ${endY}) after holding ${holdMs}ms`;
+}
+
 export async function swipe(
   udid: string,
   startX: number,
@@ -169,91 +163,84 @@ export async function swipe(
   endY: number,
   duration?: number
 ): Promise<string> {
-  const durationArg = duration ? `--duration ${duration / 1000}` : "";
-  await idb(`ui swipe ${startX} ${startY} ${endX} ${endY} ${durationArg} --udid ${udid}`);
+  await getBackend().swipe(udid, startX, startY, endX, endY, duration);
   return `Swiped from (${startX}, ${startY}) to (${endX}, ${endY})`;
 }
 
 export async function typeText(udid: string, text: string): Promise<string> {
-  const escaped = text.replace(/'/g, "'\\''");
-  await idb(`ui text '${escaped}' --udid ${udid}`);
+  await getBackend().typeText(udid, text);
   return `Typed: ${text}`;
 }
 
-export async function pressKey(udid: string, keycode: number): Promise<string> {
-  await idb(`ui key ${keycode} --udid ${udid}`);
-  return `Pressed key: ${keycode}`;
-}
-
 export async function pressButton(udid: string, button: string): Promise<string> {
   const validButtons = ["apple_pay", "home", "lock", "side_button", "siri"];
   const normalizedButton = button.toLowerCase();
   if (!validButtons.includes(normalizedButton)) {
-    throw new Error(
+    throw new ToolError(
+      "INVALID_ARGUMENT",
       `Invalid button '${button}'. Valid options: home (go to home screen), lock (toggle screen lock), siri (activate Siri), apple_pay (trigger Apple Pay).`
     );
   }
-  await idb(`ui button ${button.toUpperCase()} --udid ${udid}`);
+  await getBackend().pressButton(udid, normalizedButton);
   return `Pressed button: ${button}`;
 }
 
 export async function openUrl(udid: string, url: string): Promise<string> {
-  await idb(`open ${url} --udid ${udid}`);
+  await getBackend().openUrl(udid, url);
   return `Opened URL: ${url}`;
 }
 
 // Accessibility
+export async function describeTree(udid: string): Promise<ElementNode[]> {
+  return parseTree(await getBackend().describeScreen(udid));
+}
+
+// Look up an element by the ID shown in describe_screen
+export async function getElementById(udid: string, id: string): Promise<ElementNode> {
+  const node = findNode(await describeTree(udid), id);
+  if (!node) {
+    throw new ToolError(
+      "ELEMENT_NOT_FOUND",
+      `No element with ID "${id}" on the current screen. IDs change when the screen layout changes - call describe_screen again to get current IDs.`
+    );
+  }
+  return node;
+}
+
 export async function describeScreen(udid: string): Promise<UIElement[]> {
-  const output = await idb(`ui describe-all --nested --udid ${udid}`);
-  const raw = JSON.parse(output);
-  const parsed = Array.isArray(raw) ? raw.map(parseElement) : [parseElement(raw)];
-  return flattenElements(parsed);
+  return flattenElements(await describeTree(udid));
 }
 
 export async function describePoint(udid: string, x: number, y: number): Promise<string> {
-  return await idb(`ui describe-point ${x} ${y} --udid ${udid}`);
+  return await getBackend().describePoint(udid, x, y);
 }
 
-export async function findElements(udid: string, label: string): Promise<UIElement[]> {
-  const elements = await describeScreen(udid);
-  const lowerLabel = label.toLowerCase();
-  return elements.filter(el => el.label?.toLowerCase().includes(lowerLabel));
+export async function findElements(udid: string, selector: ElementSelector): Promise<UIElement[]> {
+  return selectElements(await describeTree(udid), selector);
 }
 
-export async function tapElement(udid: string, label: string): Promise<string> {
-  const matches = await findElements(udid, label);
-  if (matches.length === 0) {
-    throw new Error(
-      `No element found with label containing "${label}". Use describe_screen to see all available elements and their labels, or use find_elements to search with different text.`
-    );
-  }
-  const el = matches[0];
-  const centerX = Math.round(el.frame.x + el.frame.width / 2);
-  const centerY = Math.round(el.frame.y + el.frame.height / 2);
-  await idb(`ui tap ${centerX} ${centerY} --udid ${udid}`);
-  return `Tapped "${el.label}" at (${centerX}, ${centerY})`;
+export async function tapElement(udid: string, selector: ElementSelector): Promise<string> {
+  const el = selectOne(await describeTree(udid), selector);
+  const { x, y } = elementCenter(el);
+  await getBackend().tap(udid, x, y);
+  return `Tapped ${el.type} "${el.label ?? ""}" at (${x}, ${y})`;
 }
 
 // Screen size
 export async function getScreenSize(udid: string): Promise<ScreenSize> {
-  const tmpFile = path.join(os.tmpdir(), `sim-size-${Date.now()}.png`);
-  await idb(`screenshot ${tmpFile} --udid ${udid}`);
-  const { stdout } = await execAsync(`sips -g pixelWidth -g pixelHeight "${tmpFile}"`);
-  fs.unlinkSync(tmpFile);
-
-  const widthMatch = stdout.match(/pixelWidth: (\d+)/);
-  const heightMatch = stdout.match(/pixelHeight: (\d+)/);
-  const pixelWidth = widthMatch ? parseInt(widthMatch[1]) : 0;
-  const pixelHeight = heightMatch ? parseInt(heightMatch[1]) : 0;
-
-  const elements = await describeScreen(udid);
-  const appElement = elements.find(e => e.type === "Application");
-  const pointWidth = appElement?.frame.width || Math.round(pixelWidth / 3);
-  const pointHeight = appElement?.frame.height || Math.round(pixelHeight / 3);
+  return await getBackend().getScreenSize(udid);
+}
 
+// Screen size from an already captured screenshot and accessibility tree, saving
+// the extra screenshot getScreenSize takes. Falls back to it without an app frame.
+export async function screenSizeFor(udid: string, pixels: { width: number; height: number }, tree: ElementNode[]): Promise<ScreenSize> {
+  const app = tree.find((n) => n.type === "Application");
+  if (!app || app.frame.width <= 0) {
+    return await getScreenSize(udid);
+  }
   return {
-    pixels: { width: pixelWidth, height: pixelHeight },
-    points: { width: pointWidth, height: pointHeight },
-    scale: Math.round(pixelWidth / pointWidth),
+    pixels,
+    points: { width: app.frame.width, height: app.frame.height },
+    scale: Math.round(pixels.width / app.frame.width),
   };
 }
@@ -0,0 +1,169 @@
+import type { Bitmap } from "./png.js";
+
+// Per-pixel image comparison with anti-aliasing detection, in the style of pixelmatch:
+// colors are compared in YIQ space, and pixels that differ only because an edge was
+// anti-aliased differently are not counted as changes.
+
+// Pixel rectangle
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DiffOptions {
+  // Color sensitivity, 0 (exact) to 1 (anything goes). Default 0.1.
+  threshold?: number;
+  // Count anti-aliased pixels as changes
+  includeAA?: boolean;
+  ignore?: Region[];
+}
+
+export interface DiffResult {
+  diffPixels: number;
+  // Pixels compared, excluding ignored regions
+  comparedPixels: number;
+  mismatchPercent: number;
+  // First image faded, changed pixels red, anti-aliasing yellow, ignored regions blue
+  diff: Bitmap;
+}
+
+const MAX_YIQ_DELTA = 35215;
+
+function rgb2y(r: number, g: number, b: number) { return r * 0.29889531 + g * 0.58662247 + b * 0.11448223; }
+function rgb2i(r: number, g: number, b: number) { return r * 0.59597799 - g * 0.2741761 - b * 0.32180189; }
+function rgb2q(r: number, g: number, b: number) { return r * 0.21147017 - g * 0.52261711 + b * 0.31114694; }
+
+// Blend with white by alpha
+function blend(c: number, a: number) { return 255 + (c - 255) * a; }
+
+// Squared YIQ distance between pixel k of a and pixel m of b; sign tells which is lighter
+function colorDelta(a: Uint8Array, b: Uint8Array, k: number, m: number, yOnly: boolean): number {
+  let r1 = a[k], g1 = a[k + 1], b1 = a[k + 2];
+  let r2 = b[m], g2 = b[m + 1], b2 = b[m + 2];
+  const a1 = a[k + 3], a2 = b[m + 3];
+  if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) return 0;
+
+  if (a1 < 255) {
+    const alpha = a1 / 255;
+    r1 = blend(r1, alpha); g1 = blend(g1, alpha); b1 = blend(b1, alpha);
+  }
+  if (a2 < 255) {
+    const alpha = a2 / 255;
+    r2 = blend(r2, alpha); g2 = blend(g2, alpha); b2 = blend(b2, alpha);
+  }
+
+  const y1 = rgb2y(r1, g1, b1);
+  const y2 = rgb2y(r2, g2, b2);
+  const y = y1 - y2;
+  if (yOnly) return y;
+
+  const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+  return y1 > y2 ? -delta : delta;
+}
+
+function samePixel(img: Uint8Array, k: number, m: number): boolean {
+  return img[k] === img[m] && img[k + 1] === img[m + 1] && img[k + 2] === img[m + 2] && img[k + 3] === img[m + 3];
+}
+
+// More than two identical neighbours
+function hasManySiblings(img: Uint8Array, x1: number, y1: number, width: number, height: number): boolean {
+  const x0 = Math.max(x1 - 1, 0), y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1), y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+      if (samePixel(img, pos, (y * width + x) * 4)) zeroes++;
+      if (zeroes > 2) return true;
+    }
+  }
+  return false;
+}
+
+// Whether the pixel sits on an anti-aliased edge: it lies between its darkest and
+// brightest neighbours, and those are part of flat areas in both images
+function antialiased(img: Uint8Array, x1: number, y1: number, width: number, height: number, other: Uint8Array): boolean {
+  const x0 = Math.max(x1 - 1, 0), y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1), y2 = Math.min(y1 + 1, height - 1);
+  const pos = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  let min = 0, max = 0;
+  let minX = 0, minY = 0, maxX = 0, maxY = 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) continue;
+      const delta = colorDelta(img, img, pos, (y * width + x) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) return false;
+      } else if (delta < min) {
+        min = delta; minX = x; minY = y;
+      } else if (delta > max) {
+        max = delta; maxX = x; maxY = y;
+      }
+    }
+  }
+  if (min === 0 || max === 0) return false;
+
+  return (
+    (hasManySiblings(img, minX, minY, width, height) && hasManySiblings(other, minX, minY, width, height)) ||
+    (hasManySiblings(img, maxX, maxY, width, height) && hasManySiblings(other, maxX, maxY, width, height))
+  );
+}
+
+function inRegions(x: number, y: number, regions: Region[]): boolean {
+  return regions.some((r) => x >= r.x && x < r.x + r.width && y >= r.y && y < r.y + r.height);
+}
+
+function setPixel(out: Uint8Array, i: number, r: number, g: number, b: number) {
+  out[i] = r; out[i + 1] = g; out[i + 2] = b; out[i + 3] = 255;
+}
+
+export function diffImages(a: Bitmap, b: Bitmap, options: DiffOptions = {}): DiffResult {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Image sizes differ: ${a.width}x${a.height} vs ${b.width}x${b.height}`);
+  }
+  const { width, height } = a;
+  const threshold = options.threshold ?? 0.1;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const ignore = options.ignore || [];
+  const out = new Uint8Array(width * height * 4);
+  let diffPixels = 0;
+  let comparedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = (y * width + x) * 4;
+      const faded = blend(rgb2y(a.data[pos], a.data[pos + 1], a.data[pos + 2]), 0.1 * a.data[pos + 3] / 255);
+
+      if (ignore.length > 0 && inRegions(x, y, ignore)) {
+        setPixel(out, pos, faded * 0.6, faded * 0.6, 255);
+        continue;
+      }
+      comparedPixels++;
+
+      const delta = colorDelta(a.data, b.data, pos, pos, false);
+      if (Math.abs(delta) <= maxDelta) {
+        setPixel(out, pos, faded, faded, faded);
+      } else if (!options.includeAA && (antialiased(a.data, x, y, width, height, b.data) || antialiased(b.data, x, y, width, height, a.data))) {
+        setPixel(out, pos, 255, 255, 0);
+      } else {
+        setPixel(out, pos, 255, 0, 0);
+        diffPixels++;
+      }
+    }
+  }
+
+  return {
+    diffPixels,
+    comparedPixels,
+    mismatchPercent: comparedPixels > 0 ? (diffPixels / comparedPixels) * 100 : 0,
+    diff: { width, height, data: out },
+  };
+}
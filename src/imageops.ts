@@ -0,0 +1,58 @@
+import type { Region } from "./imagediff.js";
+import { ToolError } from "./errors.js";
+import type { Bitmap } from "./png.js";
+
+// In-process bitmap transforms for screenshots
+
+export function cropBitmap(bitmap: Bitmap, region: Region): Bitmap {
+  const { x, y, width, height } = region;
+  if (x < 0 || y < 0 || width <= 0 || height <= 0 || x + width > bitmap.width || y + height > bitmap.height) {
+    throw new ToolError("INVALID_ARGUMENT", `Crop ${width}x${height} at (${x}, ${y}) is outside the ${bitmap.width}x${bitmap.height} image`);
+  }
+  const data = new Uint8Array(width * height * 4);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * bitmap.width + x) * 4;
+    data.set(bitmap.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return { width, height, data };
+}
+
+// Area-averaging resize, for downscaling
+export function resizeBitmap(bitmap: Bitmap, width: number, height: number): Bitmap {
+  if (width === bitmap.width && height === bitmap.height) return bitmap;
+  const data = new Uint8Array(width * height * 4);
+  const sx = bitmap.width / width;
+  const sy = bitmap.height / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * sy);
+    const y1 = Math.max(y0 + 1, Math.min(bitmap.height, Math.round((y + 1) * sy)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * sx);
+      const x1 = Math.max(x0 + 1, Math.min(bitmap.width, Math.round((x + 1) * sx)));
+      const sum = [0, 0, 0, 0];
+      for (let py = y0; py < y1; py++) {
+        for (let px = x0; px < x1; px++) {
+          const i = (py * bitmap.width + px) * 4;
+          sum[0] += bitmap.data[i];
+          sum[1] += bitmap.data[i + 1];
+          sum[2] += bitmap.data[i + 2];
+          sum[3] += bitmap.data[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 4; c++) data[o + c] = Math.round(sum[c] / count);
+    }
+  }
+  return { width, height, data };
+}
+
+export function grayscaleBitmap(bitmap: Bitmap): Bitmap {
+  const data = new Uint8Array(bitmap.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const luma = Math.round(0.299 * bitmap.data[i] + 0.587 * bitmap.data[i + 1] + 0.114 * bitmap.data[i + 2]);
+    data[i] = data[i + 1] = data[i + 2] = luma;
+    data[i + 3] = bitmap.data[i + 3];
+  }
+  return { width: bitmap.width, height: bitmap.height, data };
+}
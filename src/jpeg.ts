@@ -0,0 +1,311 @@
+import type { Bitmap } from "./png.js";
+
+// Minimal pure-TypeScript baseline JPEG encoder: standard quantization and Huffman
+// tables (ITU T.81 Annex K), 4:2:0 chroma subsampling, or a single luma channel
+// for grayscale output.
+
+const ZIGZAG = (() => {
+  const order: number[] = [];
+  for (let sum = 0; sum < 15; sum++) {
+    const diagonal: number[] = [];
+    for (let y = Math.max(0, sum - 7); y <= Math.min(7, sum); y++) diagonal.push(y * 8 + (sum - y));
+    // Even diagonals run bottom-left to top-right
+    order.push(...(sum % 2 === 0 ? diagonal.reverse() : diagonal));
+  }
+  return order;
+})();
+
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const CHROMA_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+interface HuffmanSpec {
+  // Number of codes of each length 1-16
+  bits: number[];
+  values: number[];
+}
+
+const DC_LUMA: HuffmanSpec = {
+  bits: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMA: HuffmanSpec = {
+  bits: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  values: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMA: HuffmanSpec = {
+  bits: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  values: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+    0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+    0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+    0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+    0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+    0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+    0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+const AC_CHROMA: HuffmanSpec = {
+  bits: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  values: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+    0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+    0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+    0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+    0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+    0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+    0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+    0xf9, 0xfa,
+  ],
+};
+
+// Symbol to [code, length]
+type HuffmanTable = Map<number, [number, number]>;
+
+function buildHuffman(spec: HuffmanSpec): HuffmanTable {
+  const table: HuffmanTable = new Map();
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < spec.bits[length - 1]; i++) {
+      table.set(spec.values[k++], [code++, length]);
+    }
+    code <<= 1;
+  }
+  return table;
+}
+
+// IJG quality scaling, returned in zigzag order
+function scaleQuant(table: number[], quality: number): number[] {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const factor = q < 50 ? 5000 / q : 200 - q * 2;
+  return ZIGZAG.map((i) => Math.min(255, Math.max(1, Math.floor((table[i] * factor + 50) / 100))));
+}
+
+// cos((2x + 1)uπ / 16) with the DCT normalization folded in
+const DCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const c = u === 0 ? Math.SQRT1_2 : 1;
+    for (let x = 0; x < 8; x++) basis[u * 8 + x] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+  return basis;
+})();
+
+// Forward DCT of an 8x8 block of level-shifted samples, quantized and in zigzag order
+function transform(block: Float64Array, quant: number[], out: Int32Array): void {
+  const rows = new Float64Array(64);
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) sum += DCT_BASIS[u * 8 + x] * block[y * 8 + x];
+      rows[y * 8 + u] = sum;
+    }
+  }
+  for (let k = 0; k < 64; k++) {
+    const index = ZIGZAG[k];
+    const v = index >> 3;
+    const u = index & 7;
+    let sum = 0;
+    for (let y = 0; y < 8; y++) sum += DCT_BASIS[v * 8 + y] * rows[y * 8 + u];
+    out[k] = Math.round(sum / quant[k]);
+  }
+}
+
+class BitWriter {
+  private bytes: number[] = [];
+  private buffer = 0;
+  private count = 0;
+
+  write(code: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.buffer = (this.buffer << 1) | ((code >> i) & 1);
+      if (++this.count === 8) {
+        this.bytes.push(this.buffer);
+        // Byte stuffing: 0xFF in entropy-coded data is followed by 0x00
+        if (this.buffer === 0xff) this.bytes.push(0);
+        this.buffer = 0;
+        this.count = 0;
+      }
+    }
+  }
+
+  // Pad the last byte with 1 bits
+  finish(): Buffer {
+    if (this.count > 0) this.write((1 << (8 - this.count)) - 1, 8 - this.count);
+    return Buffer.from(this.bytes);
+  }
+}
+
+// Magnitude category and the bits that encode a coefficient
+function category(value: number): [number, number] {
+  const abs = Math.abs(value);
+  let size = 0;
+  while (abs >> size) size++;
+  return [size, value < 0 ? value + (1 << size) - 1 : value];
+}
+
+function encodeBlock(writer: BitWriter, coefficients: Int32Array, previousDc: number, dc: HuffmanTable, ac: HuffmanTable): number {
+  const [dcSize, dcBits] = category(coefficients[0] - previousDc);
+  const [dcCode, dcLength] = dc.get(dcSize)!;
+  writer.write(dcCode, dcLength);
+  writer.write(dcBits, dcSize);
+
+  let run = 0;
+  for (let k = 1; k < 64; k++) {
+    if (coefficients[k] === 0) {
+      run++;
+      continue;
+    }
+    while (run > 15) {
+      const [zrl, zrlLength] = ac.get(0xf0)!;
+      writer.write(zrl, zrlLength);
+      run -= 16;
+    }
+    const [size, bits] = category(coefficients[k]);
+    const [code, length] = ac.get((run << 4) | size)!;
+    writer.write(code, length);
+    writer.write(bits, size);
+    run = 0;
+  }
+  if (run > 0) {
+    const [eob, eobLength] = ac.get(0x00)!;
+    writer.write(eob, eobLength);
+  }
+  return coefficients[0];
+}
+
+function segment(marker: number, data: number[]): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xff00 | marker, 0);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, Buffer.from(data)]);
+}
+
+function huffmanSegment(tableClass: number, id: number, spec: HuffmanSpec): Buffer {
+  return segment(0xc4, [(tableClass << 4) | id, ...spec.bits, ...spec.values]);
+}
+
+export interface JpegOptions {
+  // 1-100. Default 80.
+  quality?: number;
+  // Encode only the luma channel
+  grayscale?: boolean;
+}
+
+export function encodeJpeg(bitmap: Bitmap, options: JpegOptions = {}): Buffer {
+  const { width, height, data } = bitmap;
+  if (width === 0 || height === 0 || width > 65535 || height > 65535) {
+    throw new Error(`Cannot encode a ${width}x${height} image as JPEG`);
+  }
+  const quality = options.quality ?? 80;
+  const grayscale = options.grayscale ?? false;
+  const lumaQuant = scaleQuant(LUMA_QUANT, quality);
+  const chromaQuant = scaleQuant(CHROMA_QUANT, quality);
+
+  // Full-resolution Y, Cb, Cr planes; transparent pixels are blended onto white
+  const planes = [new Float64Array(width * height), new Float64Array(width * height), new Float64Array(width * height)];
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const r = 255 + (data[i * 4] - 255) * alpha;
+    const g = 255 + (data[i * 4 + 1] - 255) * alpha;
+    const b = 255 + (data[i * 4 + 2] - 255) * alpha;
+    planes[0][i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    planes[1][i] = -0.168736 * r - 0.331264 * g + 0.5 * b + 128;
+    planes[2][i] = 0.5 * r - 0.418688 * g - 0.081312 * b + 128;
+  }
+
+  // Level-shifted 8x8 block of a plane, averaging `step`x`step` pixels per sample
+  // (step 2 subsamples chroma) and repeating edge pixels past the image bounds
+  const block = new Float64Array(64);
+  const fill = (plane: Float64Array, left: number, top: number, step: number): Float64Array => {
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let dy = 0; dy < step; dy++) {
+          const py = Math.min(height - 1, top + y * step + dy);
+          for (let dx = 0; dx < step; dx++) {
+            sum += plane[py * width + Math.min(width - 1, left + x * step + dx)];
+          }
+        }
+        block[y * 8 + x] = sum / (step * step) - 128;
+      }
+    }
+    return block;
+  };
+
+  const dcLuma = buildHuffman(DC_LUMA);
+  const acLuma = buildHuffman(AC_LUMA);
+  const dcChroma = buildHuffman(DC_CHROMA);
+  const acChroma = buildHuffman(AC_CHROMA);
+  const writer = new BitWriter();
+  const coefficients = new Int32Array(64);
+  const mcu = grayscale ? 8 : 16;
+  let dcY = 0;
+  let dcCb = 0;
+  let dcCr = 0;
+
+  for (let top = 0; top < height; top += mcu) {
+    for (let left = 0; left < width; left += mcu) {
+      if (grayscale) {
+        transform(fill(planes[0], left, top, 1), lumaQuant, coefficients);
+        dcY = encodeBlock(writer, coefficients, dcY, dcLuma, acLuma);
+        continue;
+      }
+      for (const [dx, dy] of [[0, 0], [8, 0], [0, 8], [8, 8]]) {
+        transform(fill(planes[0], left + dx, top + dy, 1), lumaQuant, coefficients);
+        dcY = encodeBlock(writer, coefficients, dcY, dcLuma, acLuma);
+      }
+      transform(fill(planes[1], left, top, 2), chromaQuant, coefficients);
+      dcCb = encodeBlock(writer, coefficients, dcCb, dcChroma, acChroma);
+      transform(fill(planes[2], left, top, 2), chromaQuant, coefficients);
+      dcCr = encodeBlock(writer, coefficients, dcCr, dcChroma, acChroma);
+    }
+  }
+
+  const size = [height >> 8, height & 0xff, width >> 8, width & 0xff];
+  const components = grayscale ? [[1, 0x11, 0]] : [[1, 0x22, 0], [2, 0x11, 1], [3, 0x11, 1]];
+  const tables = grayscale
+    ? [huffmanSegment(0, 0, DC_LUMA), huffmanSegment(1, 0, AC_LUMA)]
+    : [huffmanSegment(0, 0, DC_LUMA), huffmanSegment(1, 0, AC_LUMA), huffmanSegment(0, 1, DC_CHROMA), huffmanSegment(1, 1, AC_CHROMA)];
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    // JFIF, 1:1 pixel aspect ratio
+    segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    segment(0xdb, [0, ...lumaQuant, ...(grayscale ? [] : [1, ...chromaQuant])]),
+    segment(0xc0, [8, ...size, components.length, ...components.flat()]),
+    ...tables,
+    segment(0xda, [components.length, ...components.flatMap(([id, , table]) => [id, (table << 4) | table]), 0, 63, 0]),
+    writer.finish(),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+}
@@ -0,0 +1,197 @@
+import { getBackend } from "./backend.js";
+import { ToolError } from "./errors.js";
+
+// Key specs to USB HID keyboard usage codes (US layout), e.g. "a", "A", "enter",
+// "pagedown", "f5", "cmd+a", "shift+tab", "ctrl+alt+delete".
+
+export interface KeyPress {
+  // Spec as given, for messages
+  spec: string;
+  keycode: number;
+  // Modifier usage codes held down around the key
+  modifiers: number[];
+  // Capital or shifted symbol given on its own, e.g. "A" or "?": typed as text,
+  // which works without holding shift
+  text?: string;
+}
+
+const MODIFIERS: Record<string, number> = {
+  ctrl: 224,
+  control: 224,
+  shift: 225,
+  alt: 226,
+  option: 226,
+  opt: 226,
+  cmd: 227,
+  command: 227,
+  meta: 227,
+};
+
+const SHIFT = MODIFIERS.shift;
+
+const NAMED_KEYS: Record<string, number> = {
+  enter: 40,
+  return: 40,
+  escape: 41,
+  esc: 41,
+  delete: 42,
+  backspace: 42,
+  tab: 43,
+  space: 44,
+  capslock: 57,
+  insert: 73,
+  home: 74,
+  pageup: 75,
+  forwarddelete: 76,
+  end: 77,
+  pagedown: 78,
+  right: 79,
+  left: 80,
+  down: 81,
+  up: 82,
+  arrowright: 79,
+  arrowleft: 80,
+  arrowdown: 81,
+  arrowup: 82,
+};
+
+// Unshifted characters; letters and digits are filled in below
+const CHARACTERS: Record<string, number> = {
+  " ": 44,
+  "-": 45,
+  "=": 46,
+  "[": 47,
+  "]": 48,
+  "\\": 49,
+  ";": 51,
+  "'": 52,
+  "`": 53,
+  ",": 54,
+  ".": 55,
+  "/": 56,
+  "\n": 40,
+  "\t": 43,
+};
+
+// Character typed with shift -> the unshifted character on the same key
+const SHIFTED: Record<string, string> = {
+  "!": "1",
+  "@": "2",
+  "#": "3",
+  $: "4",
+  "%": "5",
+  "^": "6",
+  "&": "7",
+  "*": "8",
+  "(": "9",
+  ")": "0",
+  _: "-",
+  "+": "=",
+  "{": "[",
+  "}": "]",
+  "|": "\\",
+  ":": ";",
+  '"': "'",
+  "~": "`",
+  "<": ",",
+  ">": ".",
+  "?": "/",
+};
+
+for (let i = 0; i < 26; i++) CHARACTERS[String.fromCharCode(97 + i)] = 4 + i;
+for (let i = 1; i <= 9; i++) CHARACTERS[String(i)] = 29 + i;
+CHARACTERS["0"] = 39;
+for (let i = 1; i <= 12; i++) NAMED_KEYS[`f${i}`] = 57 + i;
+
+function unknownKey(spec: string, part: string): ToolError {
+  return new ToolError(
+    "INVALID_ARGUMENT",
+    `Unknown key '${part}'${part !== spec ? ` in '${spec}'` : ""}. Use a single character, a key name ` +
+      `(enter, tab, escape, delete, forwarddelete, space, up, down, left, right, home, end, pageup, pagedown, f1-f12) ` +
+      `or a combo like cmd+a or shift+tab with modifiers cmd, ctrl, alt, shift.`
+  );
+}
+
+// A single character, with shift for capitals and shifted symbols
+export function parseCharacter(char: string): { keycode: number; shift: boolean } | null {
+  if (CHARACTERS[char] !== undefined) return { keycode: CHARACTERS[char], shift: false };
+  const lower = char.toLowerCase();
+  if (lower !== char && CHARACTERS[lower] !== undefined) return { keycode: CHARACTERS[lower], shift: true };
+  if (SHIFTED[char]) return { keycode: CHARACTERS[SHIFTED[char]], shift: true };
+  return null;
+}
+
+// Character a key types, the reverse of parseCharacter. Enter and tab are keys, not text.
+export function characterForKey(keycode: number, shift: boolean): string | null {
+  const char = Object.keys(CHARACTERS).find((c) => CHARACTERS[c] === keycode && c !== "\n" && c !== "\t");
+  if (char === undefined) return null;
+  if (!shift) return char;
+  return Object.keys(SHIFTED).find((c) => SHIFTED[c] === char) ?? char.toUpperCase();
+}
+
+// Name of a named key, the reverse of NAMED_KEYS: the first name wins, e.g. "enter" over "return"
+export function nameForKey(keycode: number): string | null {
+  return Object.keys(NAMED_KEYS).find((name) => NAMED_KEYS[name] === keycode) ?? null;
+}
+
+// Text a key press types without cmd, ctrl or alt, e.g. "A" for shift+a; null for
+// named keys and combos
+export function textForKey(key: KeyPress): string | null {
+  if (key.text !== undefined) return key.text;
+  if (key.modifiers.some((m) => m !== SHIFT)) return null;
+  return characterForKey(key.keycode, key.modifiers.includes(SHIFT));
+}
+
+export function parseKey(spec: string): KeyPress {
+  if (spec.length === 0) throw unknownKey(spec, spec);
+  // "+" alone or after a separator ("cmd++") is the key itself
+  const parts = spec === "+" ? ["+"] : spec.endsWith("++") ? [...spec.slice(0, -2).split("+"), "+"] : spec.split("+");
+  const keyPart = parts[parts.length - 1];
+  if (keyPart === "") throw new ToolError("INVALID_ARGUMENT", `Key combo '${spec}' has no key after the last '+', e.g. 'cmd+a'.`);
+  const modifiers: number[] = [];
+  for (const part of parts.slice(0, -1)) {
+    const modifier = MODIFIERS[part.trim().toLowerCase()];
+    if (modifier === undefined) throw unknownKey(spec, part);
+    if (!modifiers.includes(modifier)) modifiers.push(modifier);
+  }
+
+  const named = keyPart.length > 1 ? NAMED_KEYS[keyPart.trim().toLowerCase()] : undefined;
+  if (named !== undefined) return { spec, keycode: named, modifiers };
+  const char = keyPart.length === 1 ? parseCharacter(keyPart) : null;
+  if (!char) throw unknownKey(spec, keyPart);
+  if (char.shift && modifiers.length === 0) return { spec, keycode: char.keycode, modifiers: [SHIFT], text: keyPart };
+  if (char.shift && !modifiers.includes(SHIFT)) modifiers.push(SHIFT);
+  return { spec, keycode: char.keycode, modifiers };
+}
+
+async function press(udid: string, key: KeyPress): Promise<void> {
+  if (key.text !== undefined) await getBackend().typeText(udid, key.text);
+  else await getBackend().pressKey(udid, key.keycode, key.modifiers);
+}
+
+export async function pressKey(udid: string, spec: string): Promise<string> {
+  await press(udid, parseKey(spec));
+  return `Pressed ${spec}`;
+}
+
+// Parse everything first so a typo doesn't leave the sequence half done.
+// Runs of keys without modifiers are sent in one go.
+export async function pressKeys(udid: string, specs: string[]): Promise<string> {
+  const keys = specs.map(parseKey);
+  let run: number[] = [];
+  const flush = async () => {
+    if (run.length === 1) await getBackend().pressKey(udid, run[0], []);
+    else if (run.length > 1) await getBackend().pressKeySequence(udid, run);
+    run = [];
+  };
+  for (const key of keys) {
+    if (key.modifiers.length === 0) {
+      run.push(key.keycode);
+      continue;
+    }
+    await flush();
+    await press(udid, key);
+  }
+  await flush();
+  return `Pressed ${specs.join(", ")}`;
+}
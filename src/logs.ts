@@ -0,0 +1,226 @@
+import * as path from "path";
+import { getBackend, type LogStream } from "./backend.js";
+import { ToolError } from "./errors.js";
+
+// Long-lived device log capture, one stream per simulator, kept in a bounded
+// ring buffer so it survives across tool calls.
+
+export type LogLevel = "debug" | "info" | "default" | "error" | "fault";
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "default", "error", "fault"];
+
+export interface LogEntry {
+  // Increasing per capture; used as the read cursor
+  seq: number;
+  timestamp: string;
+  level: LogLevel;
+  process: string;
+  pid?: number;
+  subsystem?: string;
+  category?: string;
+  message: string;
+}
+
+export interface LogFilter {
+  // Process name or PID
+  process?: string;
+  // App executable name, resolved from a bundle ID by the caller
+  appName?: string;
+  bundleId?: string;
+  // Subsystem prefix, e.g. "com.example.app"
+  subsystem?: string;
+  // Minimum level
+  level?: LogLevel;
+  regex?: string;
+}
+
+export interface ReadOptions extends LogFilter {
+  // "last" (default): entries after the previous read_logs call; "all": the whole
+  // buffer; a number: entries after that cursor
+  since?: "last" | "all" | number;
+  // Most recent entries to return. Default 200.
+  limit?: number;
+}
+
+export interface ReadResult {
+  entries: LogEntry[];
+  // Highest seq seen; read_logs(cursor) continues from here
+  cursor: number;
+  // Entries that matched but were cut by limit
+  truncated: number;
+  // Entries evicted from the buffer before they were read
+  dropped: number;
+  capturing: boolean;
+  error?: string;
+}
+
+export interface CaptureStatus {
+  udid: string;
+  capturing: boolean;
+  buffered: number;
+  bufferSize: number;
+  total: number;
+  startedAt: string;
+  error?: string;
+}
+
+export const DEFAULT_BUFFER_SIZE = 5000;
+export const DEFAULT_READ_LIMIT = 200;
+
+// Fixed-capacity buffer that overwrites the oldest entries
+class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  size = 0;
+
+  constructor(readonly capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(item: T): void {
+    this.items[(this.start + this.size) % this.capacity] = item;
+    if (this.size < this.capacity) this.size++;
+    else this.start = (this.start + 1) % this.capacity;
+  }
+
+  toArray(): T[] {
+    const out: T[] = [];
+    for (let i = 0; i < this.size; i++) out.push(this.items[(this.start + i) % this.capacity]!);
+    return out;
+  }
+}
+
+interface Capture {
+  stream: LogStream | null;
+  buffer: RingBuffer<LogEntry>;
+  seq: number;
+  // Highest seq returned by a "since last" read
+  readCursor: number;
+  startedAt: number;
+  error?: string;
+}
+
+const captures = new Map<string, Capture>();
+
+function toLevel(messageType: unknown): LogLevel {
+  const level = String(messageType ?? "default").toLowerCase();
+  return (LOG_LEVELS as string[]).includes(level) ? (level as LogLevel) : "default";
+}
+
+// Parse one line of `log stream --style ndjson`; other lines are kept as plain messages
+export function parseLogLine(line: string, seq: number): LogEntry {
+  try {
+    const raw = JSON.parse(line);
+    if (raw && typeof raw === "object" && "eventMessage" in raw) {
+      const image = String(raw.processImagePath ?? "");
+      return {
+        seq,
+        timestamp: String(raw.timestamp ?? new Date().toISOString()),
+        level: toLevel(raw.messageType),
+        process: image ? path.posix.basename(image) : "",
+        pid: typeof raw.processID === "number" ? raw.processID : undefined,
+        subsystem: raw.subsystem || undefined,
+        category: raw.category || undefined,
+        message: String(raw.eventMessage),
+      };
+    }
+  } catch {
+    // Not JSON
+  }
+  return { seq, timestamp: new Date().toISOString(), level: "default", process: "", message: line };
+}
+
+function status(udid: string, capture: Capture): CaptureStatus {
+  return {
+    udid,
+    capturing: capture.stream !== null,
+    buffered: capture.buffer.size,
+    bufferSize: capture.buffer.capacity,
+    total: capture.seq,
+    startedAt: new Date(capture.startedAt).toISOString(),
+    ...(capture.error ? { error: capture.error } : {}),
+  };
+}
+
+export function startLogCapture(udid: string, bufferSize = DEFAULT_BUFFER_SIZE): CaptureStatus {
+  const existing = captures.get(udid);
+  if (existing?.stream) return status(udid, existing);
+
+  const capture: Capture = { stream: null, buffer: new RingBuffer(bufferSize), seq: 0, readCursor: 0, startedAt: Date.now() };
+  captures.set(udid, capture);
+  capture.stream = getBackend().streamLogs(
+    udid,
+    (line) => {
+      if (line.trim()) capture.buffer.push(parseLogLine(line, ++capture.seq));
+    },
+    (error) => {
+      capture.stream = null;
+      if (error) capture.error = error.message;
+    }
+  );
+  return status(udid, capture);
+}
+
+// Stops the stream but keeps the buffer readable until the next start
+export function stopLogCapture(udid: string): CaptureStatus {
+  const capture = captures.get(udid);
+  if (!capture) throw new ToolError("PRECONDITION_FAILED", `No log capture for ${udid}.`, "Call start_log_capture first.");
+  capture.stream?.stop();
+  capture.stream = null;
+  return status(udid, capture);
+}
+
+export function stopAllLogCaptures(): void {
+  for (const capture of captures.values()) {
+    capture.stream?.stop();
+    capture.stream = null;
+  }
+}
+
+function compileFilter(filter: LogFilter): (entry: LogEntry) => boolean {
+  let regex: RegExp | undefined;
+  if (filter.regex !== undefined) {
+    try {
+      regex = new RegExp(filter.regex, "i");
+    } catch (error: any) {
+      throw new ToolError("INVALID_ARGUMENT", `Invalid log regex ${filter.regex}: ${error.message}`);
+    }
+  }
+  const minLevel = filter.level ? LOG_LEVELS.indexOf(filter.level) : 0;
+  const process = filter.process?.toLowerCase();
+  const appName = filter.appName?.toLowerCase();
+
+  return (entry) => {
+    if (LOG_LEVELS.indexOf(entry.level) < minLevel) return false;
+    if (process && entry.process.toLowerCase() !== process && String(entry.pid) !== process) return false;
+    if (filter.bundleId) {
+      const fromApp = appName !== undefined && entry.process.toLowerCase() === appName;
+      if (!fromApp && !entry.subsystem?.startsWith(filter.bundleId)) return false;
+    }
+    if (filter.subsystem && !entry.subsystem?.startsWith(filter.subsystem)) return false;
+    if (regex && !regex.test(entry.message)) return false;
+    return true;
+  };
+}
+
+export function readLogs(udid: string, options: ReadOptions = {}): ReadResult {
+  const capture = captures.get(udid);
+  if (!capture) throw new ToolError("PRECONDITION_FAILED", `No log capture for ${udid}.`, "Call start_log_capture first, reproduce the problem, then read_logs.");
+
+  const since = options.since ?? "last";
+  const after = since === "all" ? 0 : since === "last" ? capture.readCursor : since;
+  const entries = capture.buffer.toArray();
+  const oldest = entries[0]?.seq ?? capture.seq + 1;
+  const matches = entries.filter((entry) => entry.seq > after).filter(compileFilter(options));
+  const limit = options.limit ?? DEFAULT_READ_LIMIT;
+
+  if (since === "last") capture.readCursor = capture.seq;
+  return {
+    entries: matches.slice(-limit),
+    cursor: capture.seq,
+    truncated: Math.max(0, matches.length - limit),
+    dropped: Math.max(0, oldest - after - 1),
+    capturing: capture.stream !== null,
+    ...(capture.error ? { error: capture.error } : {}),
+  };
+}
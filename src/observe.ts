@@ -0,0 +1,163 @@
+import { describeTree } from "./idb.js";
+import { flattenElements } from "./elements.js";
+import type { JsonSchema } from "./validate.js";
+import type { Frame, UIElement } from "./types.js";
+
+// Observe mode for mutating tools: snapshot the screen before the action, wait
+// for the tree to settle afterwards, and report what changed
+
+// Tools that accept `observe`
+export const OBSERVED_TOOLS = [
+  "tap",
+  "tap_element",
+  "swipe",
+  "long_press",
+  "double_tap",
+  "drag_and_drop",
+  "edge_swipe",
+  "scroll_to_element",
+  "type_text",
+  "fill_field",
+  "fill_form",
+  "press_key",
+  "press_keys",
+  "press_button",
+  "open_url",
+  "launch_app",
+  "terminate_app",
+];
+
+export const OBSERVE_PROPERTIES: Record<string, JsonSchema> = {
+  observe: {
+    type: "boolean",
+    description: "Also wait for the screen to settle and return what changed: elements added, removed, or with a new value, enabled state or frame",
+  },
+  stableMs: {
+    type: "number",
+    description: "With observe: how long the tree must stay unchanged to count as settled, in milliseconds (default: 300, range: 100-5000)",
+    minimum: 100,
+    maximum: 5000,
+  },
+  observeTimeout: {
+    type: "number",
+    description: "With observe: maximum time to wait for the screen to settle, in milliseconds (default: 3000, range: 0-30000)",
+    minimum: 0,
+    maximum: 30000,
+  },
+};
+
+// Arguments with the observe options removed, e.g. for the session recorder
+export function withoutObserveArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const { observe: _observe, stableMs: _stableMs, observeTimeout: _observeTimeout, ...rest } = args;
+  return rest;
+}
+
+export interface ObserveOptions {
+  stableMs?: number;
+  timeout?: number;
+}
+
+type ElementSummary = Pick<UIElement, "id" | "type" | "label"> & { value?: string };
+
+export interface ElementChange {
+  id: string;
+  type: string;
+  label: string | null;
+  value?: { from: string | null; to: string | null };
+  enabled?: { from: boolean; to: boolean };
+  frame?: { from: Frame; to: Frame };
+}
+
+export interface UIDelta {
+  screenChanged: boolean;
+  // False when the screen was still changing at the timeout
+  settled: boolean;
+  settleMs: number;
+  added: ElementSummary[];
+  removed: ElementSummary[];
+  changed: ElementChange[];
+  // Entries left out of each list to keep the result small
+  omitted?: { added: number; removed: number; changed: number };
+}
+
+export const DEFAULT_STABLE_MS = 300;
+export const DEFAULT_OBSERVE_TIMEOUT = 3000;
+const POLL_INTERVAL = 100;
+// Longest list reported per kind of change
+const MAX_LISTED = 25;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function snapshotScreen(udid: string): Promise<UIElement[]> {
+  return flattenElements(await describeTree(udid));
+}
+
+// Poll until the element list has not changed for stableMs, or the timeout expires
+export async function waitForSettle(udid: string, options: ObserveOptions = {}): Promise<{ elements: UIElement[]; settled: boolean; elapsedMs: number }> {
+  const stableMs = options.stableMs ?? DEFAULT_STABLE_MS;
+  const timeout = options.timeout ?? DEFAULT_OBSERVE_TIMEOUT;
+  const start = Date.now();
+  let elements = await snapshotScreen(udid);
+  let snapshot = JSON.stringify(elements);
+  let unchangedSince = Date.now();
+
+  while (true) {
+    const now = Date.now();
+    if (now - unchangedSince >= stableMs) return { elements, settled: true, elapsedMs: now - start };
+    if (now - start >= timeout) return { elements, settled: false, elapsedMs: now - start };
+    await sleep(Math.min(POLL_INTERVAL, timeout - (now - start)));
+    const next = await snapshotScreen(udid);
+    const nextSnapshot = JSON.stringify(next);
+    if (nextSnapshot !== snapshot) {
+      elements = next;
+      snapshot = nextSnapshot;
+      unchangedSince = Date.now();
+    }
+  }
+}
+
+function summarize(el: UIElement): ElementSummary {
+  return { id: el.id, type: el.type, label: el.label, ...(el.value !== null ? { value: el.value } : {}) };
+}
+
+function sameFrame(a: Frame, b: Frame): boolean {
+  return a.x === b.x && a.y === b.y && a.width === b.width && a.height === b.height;
+}
+
+// Elements are matched by ID, which stays the same while an element keeps its
+// place in the tree and its label
+export function diffScreens(before: UIElement[], after: UIElement[]): Pick<UIDelta, "screenChanged" | "added" | "removed" | "changed" | "omitted"> {
+  const previous = new Map(before.map((el) => [el.id, el]));
+  const current = new Set(after.map((el) => el.id));
+  const added = after.filter((el) => !previous.has(el.id)).map(summarize);
+  const removed = before.filter((el) => !current.has(el.id)).map(summarize);
+  const changed: ElementChange[] = [];
+  for (const el of after) {
+    const old = previous.get(el.id);
+    if (!old) continue;
+    const change: ElementChange = { id: el.id, type: el.type, label: el.label };
+    if (old.value !== el.value) change.value = { from: old.value, to: el.value };
+    if (old.enabled !== el.enabled) change.enabled = { from: old.enabled, to: el.enabled };
+    if (!sameFrame(old.frame, el.frame)) change.frame = { from: old.frame, to: el.frame };
+    if (change.value || change.enabled || change.frame) changed.push(change);
+  }
+
+  const omitted = {
+    added: Math.max(0, added.length - MAX_LISTED),
+    removed: Math.max(0, removed.length - MAX_LISTED),
+    changed: Math.max(0, changed.length - MAX_LISTED),
+  };
+  return {
+    screenChanged: added.length + removed.length + changed.length > 0,
+    added: added.slice(0, MAX_LISTED),
+    removed: removed.slice(0, MAX_LISTED),
+    changed: changed.slice(0, MAX_LISTED),
+    ...(omitted.added + omitted.removed + omitted.changed > 0 ? { omitted } : {}),
+  };
+}
+
+export async function observeAfter(udid: string, before: UIElement[], options: ObserveOptions = {}): Promise<UIDelta> {
+  const { elements, settled, elapsedMs } = await waitForSettle(udid, options);
+  const { screenChanged, ...changes } = diffScreens(before, elements);
+  return { screenChanged, settled, settleMs: elapsedMs, ...changes };
+}
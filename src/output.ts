@@ -0,0 +1,49 @@
+import * as fs from "fs";
+import * as path from "path";
+import { isLocalClient } from "./clients.js";
+import { ToolError } from "./errors.js";
+
+// Files written at a path the client chooses (accessibility_audit and
+// export_session path, pull_file localPath, run_flow artifactsDir, a flow
+// screenshot step's path). Over stdio the client is the user running the server,
+// so any path goes. HTTP clients are remote: they may only write inside
+// IOS_SIM_OUTPUT_DIR, and not at all when it isn't set.
+
+function outputDir(): string | undefined {
+  const dir = process.env.IOS_SIM_OUTPUT_DIR;
+  return dir ? path.resolve(dir) : undefined;
+}
+
+// Deepest existing ancestor with symlinks resolved, so a link can't lead out of the directory
+function realPath(file: string): string {
+  const missing: string[] = [];
+  let current = file;
+  while (!fs.existsSync(current)) {
+    missing.unshift(path.basename(current));
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  return path.join(fs.realpathSync(current), ...missing);
+}
+
+// Where to write a client-supplied path. With IOS_SIM_OUTPUT_DIR set, relative
+// paths are taken from it and every path must stay inside it.
+export function resolveOutputPath(requested: string, argument = "path"): string {
+  const dir = outputDir();
+  if (!dir) {
+    if (isLocalClient()) return path.resolve(requested);
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `HTTP clients can't write files on the server, so ${argument} is not allowed. Leave it out and use the result instead.`,
+      "To allow it, set IOS_SIM_OUTPUT_DIR on the server to a directory clients may write to."
+    );
+  }
+  const file = path.resolve(dir, requested);
+  const relative = path.relative(realPath(dir), realPath(file));
+  if (relative === "" || relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new ToolError("INVALID_ARGUMENT", `${argument} must be a file inside IOS_SIM_OUTPUT_DIR (${dir}), e.g. a relative path like "reports/audit.md".`);
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  return file;
+}
@@ -0,0 +1,219 @@
+import * as zlib from "zlib";
+
+// Minimal pure-TypeScript PNG support. Decodes non-interlaced PNGs of any color
+// type to 8-bit RGBA, encodes 8-bit RGBA.
+export interface Bitmap {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel, row-major
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+export function createBitmap(width: number, height: number, rgba: [number, number, number, number] = [0, 0, 0, 255]): Bitmap {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = rgba[0];
+    data[i + 1] = rgba[1];
+    data[i + 2] = rgba[2];
+    data[i + 3] = rgba[3];
+  }
+  return { width, height, data };
+}
+
+export function encodePng(bitmap: Bitmap): Buffer {
+  const { width, height, data } = bitmap;
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // color type: RGBA
+  ihdr[10] = 0; // compression
+  ihdr[11] = 0; // filter
+  ihdr[12] = 0; // interlace
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter: none
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", ihdr),
+    chunk("IDAT", zlib.deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Reverse per-scanline filters in place, returning the raw scanlines
+function unfilter(data: Buffer, width: number, height: number, bitsPerPixel: number): Buffer {
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const out = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src + x];
+      const left = x >= bpp ? out[dst + x - bpp] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: value = raw + paeth(left, up, upLeft); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+      out[dst + x] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+export function decodePng(png: Buffer): Bitmap {
+  if (png.length < 8 || !png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error("Interlaced PNGs are not supported");
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth})`);
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const raw = unfilter(zlib.inflateSync(Buffer.concat(idat)), width, height, bitsPerPixel);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+
+  // Sample n of the pixel at x on row y, scaled to 0-255
+  const sample = (y: number, x: number, n: number): number => {
+    const row = y * stride;
+    if (bitDepth === 16) return raw[row + (x * channels + n) * 2];
+    if (bitDepth === 8) return raw[row + x * channels + n];
+    const bit = (x * channels + n) * bitDepth;
+    const value = (raw[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      switch (colorType) {
+        case 0: {
+          const g = sample(y, x, 0);
+          data[i] = data[i + 1] = data[i + 2] = g;
+          data[i + 3] = 255;
+          break;
+        }
+        case 2:
+          data[i] = sample(y, x, 0);
+          data[i + 1] = sample(y, x, 1);
+          data[i + 2] = sample(y, x, 2);
+          data[i + 3] = 255;
+          break;
+        case 3: {
+          const index = sample(y, x, 0);
+          if (!palette) throw new Error("PNG palette missing");
+          data[i] = palette[index * 3];
+          data[i + 1] = palette[index * 3 + 1];
+          data[i + 2] = palette[index * 3 + 2];
+          data[i + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+          break;
+        }
+        case 4: {
+          const g = sample(y, x, 0);
+          data[i] = data[i + 1] = data[i + 2] = g;
+          data[i + 3] = sample(y, x, 1);
+          break;
+        }
+        case 6:
+          data[i] = sample(y, x, 0);
+          data[i + 1] = sample(y, x, 1);
+          data[i + 2] = sample(y, x, 2);
+          data[i + 3] = sample(y, x, 3);
+          break;
+      }
+    }
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,84 @@
+import type { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { ToolError } from "./errors.js";
+
+// MCP prompts: the README workflows as ready-made instructions, filled in with
+// the app or URL to work on.
+
+interface PromptDefinition extends Prompt {
+  render(args: Record<string, string>): string;
+}
+
+const DEFINITIONS: PromptDefinition[] = [
+  {
+    name: "explore_app",
+    title: "Explore app",
+    description: "Launch an app and map its screens: what each one shows and how to get there.",
+    arguments: [
+      { name: "bundleId", description: "Bundle ID of the app, e.g. com.example.app", required: true },
+      { name: "goal", description: "What to focus on, e.g. 'the checkout flow' (default: every screen reachable from the first)" },
+    ],
+    render: (args) => `Explore the iOS app ${args.bundleId} on the simulator${args.goal ? `, focusing on ${args.goal}` : ""}.
+
+1. Call launch_app with bundleId "${args.bundleId}", then wait_for with condition "stable".
+2. Call describe_screen to read the screen. Use screenshot only when the layout matters.
+3. Tap one unexplored button, cell or tab at a time with tap_element and observe: true, so the result shows what changed.
+4. Go back with edge_swipe (edge "left") or the screen's back button before trying the next element. Use scroll_to_element to reach items below the fold.
+5. Don't submit forms with real data, make purchases or delete anything.
+
+When done, list each screen you found: its title, the main elements, and the taps that lead to it from launch.`,
+  },
+  {
+    name: "fill_login_form",
+    title: "Fill login form",
+    description: "Launch an app, fill in its login form and check that signing in worked.",
+    arguments: [
+      { name: "bundleId", description: "Bundle ID of the app", required: true },
+      { name: "username", description: "User name or email to enter (default: ask the user)" },
+      { name: "password", description: "Password to enter (default: ask the user)" },
+    ],
+    render: (args) => `Sign in to the iOS app ${args.bundleId} on the simulator.
+
+1. Call launch_app with bundleId "${args.bundleId}", then wait_for with condition "exists" and a selector for the login form's first text field.
+2. Call describe_screen to find the user name (or email) and password fields and the sign-in button.
+3. Call fill_form with the fields by label: ${args.username ? `"${args.username}"` : "a user name you ask the user for"} for the user name and ${args.password ? "the given password" : "a password you ask the user for"} for the password.${args.password ? ` The password is: ${args.password}` : ""}
+4. Tap the sign-in button with tap_element and observe: true.
+5. Call wait_for with condition "not_exists" on the sign-in button.
+
+Report whether sign-in worked. If it didn't, quote the error message shown on screen.`,
+  },
+  {
+    name: "verify_deep_link",
+    title: "Verify deep link",
+    description: "Open a URL on the simulator and check that the app lands on the right screen.",
+    arguments: [
+      { name: "url", description: "Deep link or universal link, e.g. myapp://profile/settings", required: true },
+      { name: "bundleId", description: "App expected to handle the URL" },
+      { name: "expect", description: "Label of an element the target screen shows, e.g. 'Settings'" },
+    ],
+    render: (args) => `Verify the deep link ${args.url} on the simulator.
+
+1. ${args.bundleId ? `Call terminate_app with bundleId "${args.bundleId}" so the link starts the app cold. Ignore an error if it wasn't running.` : "Note which app is in the foreground with describe_screen."}
+2. Call open_url with url "${args.url}", then wait_for with condition "stable".
+3. ${args.expect ? `Call wait_for with condition "exists" and label "${args.expect}".` : "Call describe_screen and work out which screen is shown."}
+4. Take a screenshot of the result.
+
+Report whether the link opened ${args.bundleId ? `${args.bundleId} on ` : ""}the expected screen. If not, say which screen appeared instead, or whether an error alert or the home screen was shown.`,
+  },
+];
+
+export const PROMPTS: Prompt[] = DEFINITIONS.map(({ render, ...prompt }) => prompt);
+
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const prompt = DEFINITIONS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new ToolError("INVALID_ARGUMENT", `Unknown prompt '${name}'. Valid prompts: ${DEFINITIONS.map((p) => p.name).join(", ")}.`);
+  }
+  const missing = (prompt.arguments ?? []).filter((a) => a.required && !args[a.name]).map((a) => a.name);
+  if (missing.length > 0) {
+    throw new ToolError("INVALID_ARGUMENT", `Prompt ${name} requires ${missing.join(", ")}.`);
+  }
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: prompt.render(args) } }],
+  };
+}
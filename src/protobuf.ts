@@ -0,0 +1,144 @@
+// Minimal protobuf wire format: enough to build and read the idb companion
+// messages without generated code. Encoders skip proto3 default values except
+// for nested messages, which are always written so empty oneof members survive.
+
+const VARINT = 0;
+const FIXED64 = 1;
+const LENGTH_DELIMITED = 2;
+const FIXED32 = 5;
+
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  let v = value;
+  while (v >= 0x80) {
+    bytes.push((v % 0x80) | 0x80);
+    v = Math.floor(v / 0x80);
+  }
+  bytes.push(v);
+  return Buffer.from(bytes);
+}
+
+function tag(field: number, wireType: number): Buffer {
+  return varint(field * 8 + wireType);
+}
+
+export class ProtoWriter {
+  private chunks: Buffer[] = [];
+
+  uint(field: number, value: number): this {
+    if (value !== 0) this.chunks.push(tag(field, VARINT), varint(value));
+    return this;
+  }
+
+  bool(field: number, value: boolean): this {
+    return this.uint(field, value ? 1 : 0);
+  }
+
+  double(field: number, value: number): this {
+    if (value !== 0) {
+      const buf = Buffer.alloc(8);
+      buf.writeDoubleLE(value);
+      this.chunks.push(tag(field, FIXED64), buf);
+    }
+    return this;
+  }
+
+  bytes(field: number, value: Buffer): this {
+    if (value.length > 0) this.chunks.push(tag(field, LENGTH_DELIMITED), varint(value.length), value);
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytes(field, Buffer.from(value, "utf8"));
+  }
+
+  message(field: number, value: ProtoWriter): this {
+    const body = value.finish();
+    this.chunks.push(tag(field, LENGTH_DELIMITED), varint(body.length), body);
+    return this;
+  }
+
+  finish(): Buffer {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+// Decoded message: raw values by field number, read through typed accessors.
+// Missing fields read as proto3 defaults.
+export class ProtoMessage {
+  private fields = new Map<number, (number | Buffer)[]>();
+
+  constructor(buf: Buffer) {
+    let pos = 0;
+    const readVarint = (): number => {
+      let result = 0;
+      let shift = 1;
+      while (true) {
+        if (pos >= buf.length) throw new Error("Truncated protobuf varint");
+        const byte = buf[pos++];
+        result += (byte & 0x7f) * shift;
+        if (byte < 0x80) return result;
+        shift *= 0x80;
+      }
+    };
+    const take = (length: number): Buffer => {
+      if (pos + length > buf.length) throw new Error("Truncated protobuf field");
+      const value = buf.subarray(pos, pos + length);
+      pos += length;
+      return value;
+    };
+
+    while (pos < buf.length) {
+      const key = readVarint();
+      const field = Math.floor(key / 8);
+      const wireType = key % 8;
+      let value: number | Buffer;
+      if (wireType === VARINT) value = readVarint();
+      else if (wireType === FIXED64) value = take(8);
+      else if (wireType === LENGTH_DELIMITED) value = take(readVarint());
+      else if (wireType === FIXED32) value = take(4);
+      else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+      this.fields.set(field, [...(this.fields.get(field) ?? []), value]);
+    }
+  }
+
+  has(field: number): boolean {
+    return this.fields.has(field);
+  }
+
+  private last(field: number): number | Buffer | undefined {
+    const values = this.fields.get(field);
+    return values?.[values.length - 1];
+  }
+
+  uint(field: number): number {
+    const value = this.last(field);
+    return typeof value === "number" ? value : 0;
+  }
+
+  bool(field: number): boolean {
+    return this.uint(field) !== 0;
+  }
+
+  double(field: number): number {
+    const value = this.last(field);
+    return Buffer.isBuffer(value) && value.length === 8 ? value.readDoubleLE() : 0;
+  }
+
+  bytes(field: number): Buffer {
+    const value = this.last(field);
+    return Buffer.isBuffer(value) ? value : Buffer.alloc(0);
+  }
+
+  string(field: number): string {
+    return this.bytes(field).toString("utf8");
+  }
+
+  message(field: number): ProtoMessage | null {
+    return this.has(field) ? new ProtoMessage(this.bytes(field)) : null;
+  }
+
+  messages(field: number): ProtoMessage[] {
+    return (this.fields.get(field) ?? []).filter(Buffer.isBuffer).map((value) => new ProtoMessage(value));
+  }
+}
@@ -0,0 +1,116 @@
+import { currentClient } from "./clients.js";
+import type { ElementSelector } from "./selector.js";
+import type { Frame } from "./types.js";
+
+// Opt-in recording of mutating tool calls, for export_session
+
+// Tools that change device state and are worth replaying
+export const RECORDED_TOOLS = [
+  "tap", "tap_element", "swipe", "long_press", "double_tap", "drag_and_drop", "edge_swipe", "scroll_to_element",
+  "type_text", "fill_field", "fill_form", "press_key", "press_keys", "press_button", "open_url", "launch_app", "terminate_app",
+];
+
+export interface RecordedElement {
+  type: string;
+  label: string | null;
+  value: string | null;
+  identifier?: string;
+  frame: Frame;
+}
+
+// What a call acted on, resolved before it ran
+export interface RecordedTarget {
+  point?: { x: number; y: number };
+  element?: RecordedElement;
+  // Selector that picked out `element` on the screen it was recorded on
+  selector?: ElementSelector;
+  // drag_and_drop: where the drag ended
+  end?: { x: number; y: number };
+  // fill_form: the field each label picked out, in order
+  fields?: RecordedTarget[];
+}
+
+export interface RecordedAction extends RecordedTarget {
+  tool: string;
+  args: Record<string, unknown>;
+  udid?: string;
+  timestamp: number;
+  output: string;
+}
+
+const TEXT_INPUT_TYPES = ["TextField", "SecureTextField", "TextView", "SearchField"];
+
+interface Recording {
+  active: boolean;
+  actions: RecordedAction[];
+  // Last tapped element per simulator, the likely focus for type_text
+  lastTapped: Map<string, RecordedTarget>;
+}
+
+// Per client, so HTTP sessions record and export only their own calls
+const recordings = new Map<string, Recording>();
+
+function current(): Recording {
+  const id = currentClient().id;
+  let state = recordings.get(id);
+  if (!state) {
+    state = { active: false, actions: [], lastTapped: new Map() };
+    recordings.set(id, state);
+  }
+  return state;
+}
+
+export function isRecording(): boolean {
+  return recordings.get(currentClient().id)?.active ?? false;
+}
+
+export function startRecording(clear = true): void {
+  const state = current();
+  if (clear) {
+    state.actions = [];
+    state.lastTapped.clear();
+  }
+  state.active = true;
+}
+
+export function stopRecording(): number {
+  const state = current();
+  state.active = false;
+  return state.actions.length;
+}
+
+export function getRecordedActions(): RecordedAction[] {
+  return [...current().actions];
+}
+
+// Drop a client's recording, e.g. when its session ends
+export function forgetRecording(clientId: string): void {
+  recordings.delete(clientId);
+}
+
+export function recordAction(tool: string, args: Record<string, unknown>, udid: string | undefined, target: RecordedTarget, output: string): void {
+  const state = recordings.get(currentClient().id);
+  if (!state?.active) return;
+  const { lastTapped } = state;
+  const { udid: _, ...rest } = args;
+  let resolved = target;
+
+  if (tool === "tap" || tool === "tap_element" || tool === "fill_field") {
+    if (udid) lastTapped.set(udid, target);
+  } else if (tool === "fill_form" && udid) {
+    // Focus stays in the last field filled
+    const last = target.fields?.[target.fields.length - 1];
+    if (last) lastTapped.set(udid, last);
+    else lastTapped.delete(udid);
+  } else if (tool === "type_text" && udid) {
+    const focused = lastTapped.get(udid);
+    if (focused?.element && TEXT_INPUT_TYPES.includes(focused.element.type)) {
+      resolved = { element: focused.element, selector: focused.selector };
+    }
+  } else if (udid && tool !== "press_key" && tool !== "press_keys") {
+    // Navigation: the previously tapped element is no longer on screen
+    lastTapped.delete(udid);
+  }
+
+  state.actions.push({ tool, args: rest, udid, timestamp: Date.now(), output, ...resolved });
+}
@@ -0,0 +1,211 @@
+import type { ReadResourceResult, Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+import * as idb from "./idb.js";
+import { screenSignature } from "./audit.js";
+import { toTreeJson, type ElementNode } from "./elements.js";
+import { ToolError, toToolError } from "./errors.js";
+import { getSimulators } from "./session.js";
+
+// MCP resources: live device context a client can attach without tool calls.
+//
+//   sim://simulators                - every simulator and its boot state
+//   sim://{udid}/screen/tree        - accessibility tree of the foreground screen
+//   sim://{udid}/screenshot/latest  - the screen as it is now (PNG)
+//   sim://{udid}/apps               - installed apps
+//
+// Subscribed resources are polled; a change in boot state, the foreground screen
+// or the app list is reported to the client as a resource update.
+
+type ResourceKind = "simulators" | "tree" | "screenshot" | "apps";
+
+interface ParsedUri {
+  kind: ResourceKind;
+  udid: string;
+}
+
+export const SIMULATORS_URI = "sim://simulators";
+
+// How often subscribed resources are checked for changes
+const POLL_INTERVAL = 2000;
+
+const PATHS: Record<Exclude<ResourceKind, "simulators">, string> = {
+  tree: "screen/tree",
+  screenshot: "screenshot/latest",
+  apps: "apps",
+};
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: "sim://{udid}/screen/tree",
+    name: "screen-tree",
+    title: "Screen accessibility tree",
+    description: "Nested accessibility tree of the simulator's foreground screen, as describe_screen with mode tree returns it.",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "sim://{udid}/screenshot/latest",
+    name: "screenshot",
+    title: "Latest screenshot",
+    description: "PNG screenshot of the simulator, taken when the resource is read.",
+    mimeType: "image/png",
+  },
+  {
+    uriTemplate: "sim://{udid}/apps",
+    name: "apps",
+    title: "Installed apps",
+    description: "Apps installed on the simulator, with bundle ID, install type and whether each is running.",
+    mimeType: "application/json",
+  },
+];
+
+function parseUri(uri: string): ParsedUri {
+  if (uri === SIMULATORS_URI) return { kind: "simulators", udid: "" };
+  const match = uri.match(/^sim:\/\/([^/]+)\/(.+)$/);
+  const kind = match && (Object.keys(PATHS) as (keyof typeof PATHS)[]).find((k) => PATHS[k] === match[2]);
+  if (!match || !kind) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Unknown resource ${uri}. Resources are ${SIMULATORS_URI}, sim://{udid}/screen/tree, sim://{udid}/screenshot/latest and sim://{udid}/apps.`
+    );
+  }
+  return { kind, udid: decodeURIComponent(match[1]) };
+}
+
+// sim://simulators plus the per-simulator resources of every booted simulator
+export async function listResources(): Promise<Resource[]> {
+  const resources: Resource[] = [
+    {
+      uri: SIMULATORS_URI,
+      name: "simulators",
+      title: "Simulators",
+      description: "Every simulator with its UDID, OS version and boot state.",
+      mimeType: "application/json",
+    },
+  ];
+  for (const sim of await getSimulators(true)) {
+    if (sim.state !== "Booted") continue;
+    for (const template of RESOURCE_TEMPLATES) {
+      resources.push({
+        uri: template.uriTemplate.replace("{udid}", sim.udid),
+        name: `${sim.udid}/${template.name}`,
+        title: `${template.title} (${sim.name}, ${sim.os_version})`,
+        description: template.description,
+        mimeType: template.mimeType,
+      });
+    }
+  }
+  return resources;
+}
+
+export async function readResource(uri: string): Promise<ReadResourceResult> {
+  const { kind, udid } = parseUri(uri);
+  const json = (value: unknown): ReadResourceResult => ({
+    contents: [{ uri, mimeType: "application/json", text: JSON.stringify(value, null, 2) }],
+  });
+  switch (kind) {
+    case "simulators":
+      return json(await getSimulators(true));
+    case "tree":
+      return json((await idb.describeTree(udid)).map(toTreeJson));
+    case "screenshot":
+      return { contents: [{ uri, mimeType: "image/png", blob: await idb.takeScreenshot(udid) }] };
+    case "apps":
+      return json(await idb.listApps(udid));
+  }
+}
+
+export interface ResourceWatcher {
+  subscribe(uri: string): Promise<void>;
+  unsubscribe(uri: string): void;
+  stop(): void;
+}
+
+// Polls subscribed resources while there are any. onUpdated gets the URI of each
+// resource whose state changed; onListChanged fires when the set of booted
+// simulators, and with it the resource list, changes.
+export function createResourceWatcher(onUpdated: (uri: string) => void, onListChanged: () => void, interval = POLL_INTERVAL): ResourceWatcher {
+  // URI -> state when last checked
+  const subscriptions = new Map<string, string>();
+  let booted: string | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let polling = false;
+
+  // Compact state of each subscribed resource. Reads are shared within one poll,
+  // so a tree and a screenshot subscription on the same simulator cost one describe.
+  // A resource that can't be read has its error code as its state.
+  async function states(uris: string[]): Promise<Map<string, string>> {
+    const trees = new Map<string, Promise<ElementNode[]>>();
+    const tree = (udid: string) => {
+      if (!trees.has(udid)) trees.set(udid, idb.describeTree(udid));
+      return trees.get(udid)!;
+    };
+    const result = new Map<string, string>();
+    for (const uri of uris) {
+      try {
+        const { kind, udid } = parseUri(uri);
+        if (kind === "simulators") {
+          // Refreshed by checkBooted at the start of each poll
+          result.set(uri, (await getSimulators()).map((s) => `${s.udid}:${s.state}`).join("|"));
+        } else if (kind === "apps") {
+          result.set(uri, JSON.stringify(await idb.listApps(udid)));
+        } else {
+          result.set(uri, screenSignature(udid, await tree(udid)));
+        }
+      } catch (error) {
+        result.set(uri, `error:${toToolError(error).code}`);
+      }
+    }
+    return result;
+  }
+
+  async function checkBooted(): Promise<void> {
+    const now = (await getSimulators(true))
+      .filter((s) => s.state === "Booted")
+      .map((s) => s.udid)
+      .sort()
+      .join(",");
+    if (booted !== null && now !== booted) onListChanged();
+    booted = now;
+  }
+
+  async function poll(): Promise<void> {
+    if (polling) return;
+    polling = true;
+    try {
+      await checkBooted().catch(() => {});
+      const current = await states([...subscriptions.keys()]);
+      for (const [uri, state] of current) {
+        // Unsubscribed while the poll ran
+        if (!subscriptions.has(uri)) continue;
+        if (subscriptions.get(uri) !== state) onUpdated(uri);
+        subscriptions.set(uri, state);
+      }
+    } finally {
+      polling = false;
+    }
+  }
+
+  function stop() {
+    if (timer) clearInterval(timer);
+    timer = null;
+  }
+
+  return {
+    async subscribe(uri) {
+      parseUri(uri);
+      const [state] = (await states([uri])).values();
+      subscriptions.set(uri, state);
+      if (!timer) {
+        timer = setInterval(() => void poll(), interval);
+        // Watching must not keep the process alive
+        timer.unref();
+      }
+    },
+
+    unsubscribe(uri) {
+      subscriptions.delete(uri);
+      if (subscriptions.size === 0) stop();
+    },
+
+    stop,
+  };
+}
@@ -0,0 +1,111 @@
+import * as idb from "./idb.js";
+import type { ElementNode } from "./elements.js";
+import { ToolError } from "./errors.js";
+import type { Region } from "./imagediff.js";
+import { cropBitmap, grayscaleBitmap, resizeBitmap } from "./imageops.js";
+import { encodeJpeg } from "./jpeg.js";
+import { decodePng, encodePng } from "./png.js";
+import { selectOne, type ElementSelector } from "./selector.js";
+import type { Frame } from "./types.js";
+
+// Smaller screenshots: crop, downscale, grayscale and lossy output, all in-process
+
+export type ImageFormat = "png" | "jpeg";
+
+// Point rectangle or the element to crop to
+export interface CropRegion extends Partial<Frame> {
+  selector?: ElementSelector;
+}
+
+export interface ScreenshotOptions {
+  // Largest output width in pixels; never upscales
+  maxWidth?: number;
+  // Resize factor applied to the (cropped) screenshot, 0-1
+  scale?: number;
+  crop?: CropRegion;
+  grayscale?: boolean;
+  format?: ImageFormat;
+  // JPEG quality 1-100. Default 80.
+  quality?: number;
+}
+
+export interface ProcessedScreenshot {
+  // Base64
+  data: string;
+  mimeType: string;
+  format: ImageFormat;
+  width: number;
+  height: number;
+  bytes: number;
+  // Screen area shown, in points
+  region: Frame;
+  // Image pixels per point: point = region origin + pixel / pixelsPerPoint
+  pixelsPerPoint: number;
+}
+
+export const DEFAULT_JPEG_QUALITY = 80;
+
+function cropFrame(crop: CropRegion, tree: ElementNode[]): Frame {
+  if (crop.selector) return selectOne(tree, crop.selector).frame;
+  const { x, y, width, height } = crop;
+  if (x === undefined || y === undefined || width === undefined || height === undefined) {
+    throw new ToolError("INVALID_ARGUMENT", "crop needs either a selector or x, y, width and height in points");
+  }
+  return { x, y, width, height };
+}
+
+export async function captureScreenshot(udid: string, options: ScreenshotOptions = {}): Promise<ProcessedScreenshot> {
+  let image = decodePng(Buffer.from(await idb.takeScreenshot(udid), "base64"));
+  const tree = await idb.describeTree(udid);
+  const { scale } = await idb.screenSizeFor(udid, image, tree);
+  let region: Frame = { x: 0, y: 0, width: image.width / scale, height: image.height / scale };
+
+  if (options.crop) {
+    const frame = cropFrame(options.crop, tree);
+    // Clamp to the screen, in whole pixels
+    const left = Math.max(0, Math.floor(frame.x * scale));
+    const top = Math.max(0, Math.floor(frame.y * scale));
+    const right = Math.min(image.width, Math.ceil((frame.x + frame.width) * scale));
+    const bottom = Math.min(image.height, Math.ceil((frame.y + frame.height) * scale));
+    if (right <= left || bottom <= top) {
+      throw new ToolError(
+        "INVALID_ARGUMENT",
+        `Crop area (${frame.x}, ${frame.y}, ${frame.width}x${frame.height}) is outside the screen.`,
+        "Use get_screen_size for the screen bounds in points."
+      );
+    }
+    const pixels: Region = { x: left, y: top, width: right - left, height: bottom - top };
+    image = cropBitmap(image, pixels);
+    region = { x: left / scale, y: top / scale, width: pixels.width / scale, height: pixels.height / scale };
+  }
+
+  let factor = options.scale ?? 1;
+  if (options.maxWidth !== undefined) factor = Math.min(factor, options.maxWidth / image.width);
+  if (factor < 1) {
+    image = resizeBitmap(image, Math.max(1, Math.round(image.width * factor)), Math.max(1, Math.round(image.height * factor)));
+  }
+
+  if (options.grayscale) image = grayscaleBitmap(image);
+
+  const format = options.format ?? "png";
+  const encoded =
+    format === "jpeg"
+      ? encodeJpeg(image, { quality: options.quality ?? DEFAULT_JPEG_QUALITY, grayscale: options.grayscale })
+      : encodePng(image);
+
+  return {
+    data: encoded.toString("base64"),
+    mimeType: format === "jpeg" ? "image/jpeg" : "image/png",
+    format,
+    width: image.width,
+    height: image.height,
+    bytes: encoded.length,
+    region: {
+      x: Math.round(region.x * 100) / 100,
+      y: Math.round(region.y * 100) / 100,
+      width: Math.round(region.width * 100) / 100,
+      height: Math.round(region.height * 100) / 100,
+    },
+    pixelsPerPoint: Math.round((image.width / region.width) * 10000) / 10000,
+  };
+}
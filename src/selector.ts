@@ -0,0 +1,158 @@
+import { walkEntries, type ElementEntry, type ElementNode } from "./elements.js";
+import { ToolError } from "./errors.js";
+import { validateArguments, type JsonSchema } from "./validate.js";
+import type { UIElement } from "./types.js";
+
+export type TextMatch = "exact" | "contains" | "regex";
+
+// Describes which element(s) a tool should act on
+export interface ElementSelector {
+  // Element ID from describe_screen
+  id?: string;
+  label?: string;
+  labelMatch?: TextMatch;
+  value?: string;
+  valueMatch?: TextMatch;
+  type?: string;
+  enabled?: boolean;
+  // 0-based position among all matches
+  index?: number;
+  // Only match elements nested inside an element matching this selector
+  inside?: ElementSelector;
+}
+
+const TEXT_MATCH = ["exact", "contains", "regex"];
+
+export const SELECTOR_SCHEMA: JsonSchema & { type: "object" } = {
+  type: "object",
+  description: "Element selector. All given fields must match.",
+  properties: {
+    id: {
+      type: "string",
+      description: "Element ID from describe_screen (e.g. 'e1f3a09c')",
+    },
+    label: {
+      type: "string",
+      description: "Accessibility label to match",
+    },
+    labelMatch: {
+      type: "string",
+      description: "How to match label: 'contains' (default, case-insensitive), 'exact' (case-sensitive), or 'regex' (JavaScript regex, '/pattern/flags' form allowed)",
+      enum: TEXT_MATCH,
+    },
+    value: {
+      type: "string",
+      description: "Element value to match (e.g. text field contents, switch state '1'/'0')",
+    },
+    valueMatch: {
+      type: "string",
+      description: "How to match value: 'contains' (default, case-insensitive), 'exact', or 'regex'",
+      enum: TEXT_MATCH,
+    },
+    type: {
+      type: "string",
+      description: "Element type, case-insensitive (e.g. 'Button', 'TextField', 'SecureTextField', 'Switch', 'StaticText')",
+    },
+    enabled: {
+      type: "boolean",
+      description: "Only match enabled (true) or disabled (false) elements",
+    },
+    index: {
+      type: "integer",
+      description: "Pick the Nth match (0-based) when several elements match",
+      minimum: 0,
+    },
+    inside: {
+      type: "object",
+      description: "Selector (same fields) for an ancestor the element must be nested inside, e.g. {label: 'Login Form'}",
+    },
+  },
+  additionalProperties: false,
+};
+
+// Validate a selector argument, including nested `inside` selectors
+export function checkSelector(tool: string, selector: unknown, path = "selector"): ElementSelector {
+  validateArguments(tool, selector, SELECTOR_SCHEMA, path);
+  const parsed = selector as ElementSelector;
+  if (parsed.labelMatch === "regex" && parsed.label !== undefined) compileRegex(parsed.label);
+  if (parsed.valueMatch === "regex" && parsed.value !== undefined) compileRegex(parsed.value);
+  if (parsed.inside) checkSelector(tool, parsed.inside, `${path}.inside`);
+  return parsed;
+}
+
+function compileRegex(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+  try {
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+  } catch (error: any) {
+    throw new ToolError("INVALID_ARGUMENT", `Invalid selector regex ${pattern}: ${error.message}`);
+  }
+}
+
+function matchText(actual: string | null, expected: string, mode: TextMatch = "contains"): boolean {
+  if (actual === null) return false;
+  switch (mode) {
+    case "exact":
+      return actual === expected;
+    case "regex":
+      return compileRegex(expected).test(actual);
+    default:
+      return actual.toLowerCase().includes(expected.toLowerCase());
+  }
+}
+
+function matchesNode(node: UIElement, selector: ElementSelector): boolean {
+  if (selector.id !== undefined && node.id !== selector.id) return false;
+  if (selector.label !== undefined && !matchText(node.label, selector.label, selector.labelMatch)) return false;
+  if (selector.value !== undefined && !matchText(node.value, selector.value, selector.valueMatch)) return false;
+  if (selector.type !== undefined && node.type.toLowerCase() !== selector.type.toLowerCase()) return false;
+  if (selector.enabled !== undefined && node.enabled !== selector.enabled) return false;
+  return true;
+}
+
+function selectEntries(entries: ElementEntry[], selector: ElementSelector): ElementEntry[] {
+  let matches = entries.filter((entry) => matchesNode(entry.element, selector));
+  if (selector.inside) {
+    const containers = new Set(selectEntries(entries, selector.inside).map((entry) => entry.node));
+    matches = matches.filter((entry) => entry.ancestors.some((a) => containers.has(a)));
+  }
+  if (selector.index !== undefined) {
+    matches = matches.slice(selector.index, selector.index + 1);
+  }
+  return matches;
+}
+
+export function selectElements(tree: ElementNode[], selector: ElementSelector): UIElement[] {
+  return selectEntries(walkEntries(tree), selector).map((entry) => entry.element);
+}
+
+export function describeSelector(selector: ElementSelector): string {
+  return JSON.stringify(selector);
+}
+
+function describeCandidate(el: UIElement, i: number): string {
+  const { x, y, width, height } = el.frame;
+  const value = el.value !== null ? ` value="${el.value}"` : "";
+  const enabled = el.enabled ? "" : " (disabled)";
+  return `  [${i}] ${el.id} ${el.type} "${el.label ?? ""}"${value} frame=(${x}, ${y}, ${width}x${height})${enabled}`;
+}
+
+// Resolve a selector to exactly one element, with actionable errors otherwise
+export function selectOne(tree: ElementNode[], selector: ElementSelector): UIElement {
+  const matches = selectElements(tree, selector);
+  if (matches.length === 0) {
+    throw new ToolError(
+      "ELEMENT_NOT_FOUND",
+      `No element matches selector ${describeSelector(selector)}. Use describe_screen to see all available elements and their labels, or use find_elements to search with a looser selector.`
+    );
+  }
+  if (matches.length > 1) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Selector ${describeSelector(selector)} is ambiguous: ${matches.length} elements match.\n` +
+        matches.map(describeCandidate).join("\n") +
+        `\nNarrow it down with id, type, labelMatch: "exact", inside, or index (0-${matches.length - 1}).`
+    );
+  }
+  return matches[0];
+}
@@ -0,0 +1,177 @@
+import * as idb from "./idb.js";
+import { ToolError } from "./errors.js";
+import { claimSimulator, currentClient, DEFAULT_LEASE_MINUTES, getLease, leasedByOther, leaseError, leaseSimulator, type Lease } from "./clients.js";
+import type { Simulator } from "./types.js";
+
+// Which simulator a tool call targets. The simulator list is cached between calls
+// and refreshed after boot/shutdown or when a name or UDID isn't found in it.
+// Each client has its own selection, and a simulator another client holds is
+// never picked for it (see clients.ts).
+
+export interface SimulatorTarget {
+  udid?: string;
+  // Name with optional OS, e.g. "iPhone 16" or "iPhone 16 / iOS 18.2"
+  simulator?: string;
+}
+
+export interface SessionInfo extends Simulator {
+  selected: boolean;
+  // Tool calls resolved to this simulator
+  calls: number;
+  lastUsed: string | null;
+  // Who holds the simulator: "you" or the other client's name
+  lease: { holder: string; reserved: boolean; expiresAt: string } | null;
+}
+
+let cachedSimulators: Simulator[] | null = null;
+// Client ID -> selected UDID
+const selected = new Map<string, string>();
+const usage = new Map<string, { calls: number; lastUsed: number }>();
+
+export async function getSimulators(refresh = false): Promise<Simulator[]> {
+  if (refresh || !cachedSimulators) cachedSimulators = await idb.listSimulators();
+  return cachedSimulators;
+}
+
+// Call after anything that changes simulator state
+export function invalidateSimulators(): void {
+  cachedSimulators = null;
+}
+
+function normalizeOs(version: string): string {
+  return version.toLowerCase().replace(/^ios\s*/, "").trim();
+}
+
+function describe(sim: Simulator): string {
+  return `${sim.name} / ${sim.os_version} (${sim.udid}, ${sim.state})`;
+}
+
+function matchName(simulators: Simulator[], spec: string): Simulator[] {
+  const [name, os] = spec.split("/").map((part) => part.trim());
+  return simulators.filter(
+    (sim) => sim.name.toLowerCase() === name.toLowerCase() && (!os || normalizeOs(sim.os_version) === normalizeOs(os))
+  );
+}
+
+// Resolve a name, preferring booted devices when the name alone is ambiguous
+async function findByName(spec: string): Promise<Simulator> {
+  let matches = matchName(await getSimulators(), spec);
+  if (matches.length === 0) matches = matchName(await getSimulators(true), spec);
+  if (matches.length === 0) {
+    throw new ToolError("INVALID_ARGUMENT", `No simulator named "${spec}". Use list_simulators to see names and OS versions, e.g. "iPhone 16 / iOS 18.2".`);
+  }
+  const booted = matches.filter((sim) => sim.state === "Booted");
+  if (matches.length > 1 && booted.length === 1) return booted[0];
+  if (matches.length > 1) {
+    throw new ToolError(
+      "INVALID_ARGUMENT",
+      `Simulator name "${spec}" is ambiguous: ${matches.length} simulators match.\n` +
+        matches.map((sim) => `  ${describe(sim)}`).join("\n") +
+        `\nAdd the OS version ("${matches[0].name} / ${matches[0].os_version}") or pass udid.`
+    );
+  }
+  return matches[0];
+}
+
+async function findByUdid(udid: string): Promise<Simulator> {
+  const sim = (await getSimulators()).find((s) => s.udid === udid) ?? (await getSimulators(true)).find((s) => s.udid === udid);
+  if (!sim) throw new ToolError("INVALID_ARGUMENT", `No simulator with UDID ${udid}. Use list_simulators to find available simulators.`);
+  return sim;
+}
+
+function touch(udid: string): string {
+  claimSimulator(udid);
+  const entry = usage.get(udid) ?? { calls: 0, lastUsed: 0 };
+  usage.set(udid, { calls: entry.calls + 1, lastUsed: Date.now() });
+  return udid;
+}
+
+// UDID for a tool call: explicit udid, then simulator name, then the selected
+// simulator, then the only booted one. Several booted and none selected is an error.
+export async function resolveUdid(target: SimulatorTarget = {}): Promise<string> {
+  if (target.udid) return touch(target.udid);
+  if (target.simulator) return touch((await findByName(target.simulator)).udid);
+  const selectedUdid = getSelectedUdid();
+  if (selectedUdid) return touch(selectedUdid);
+
+  let booted = (await getSimulators()).filter((sim) => sim.state === "Booted");
+  // The cache may predate a boot done outside this server
+  if (booted.length === 0) booted = (await getSimulators(true)).filter((sim) => sim.state === "Booted");
+  if (booted.length === 0) throw idb.noBootedSimulatorError();
+  // Simulators other clients hold are not candidates
+  const free = booted.filter((sim) => !leasedByOther(sim.udid));
+  if (free.length === 0) throw leaseError(leasedByOther(booted[0].udid)!);
+  if (free.length === 1) return touch(free[0].udid);
+  throw new ToolError(
+    "INVALID_ARGUMENT",
+    `${free.length} simulators are booted and none is selected:\n` +
+      free.map((sim) => `  ${describe(sim)}`).join("\n") +
+      `\nUse select_simulator to pick one, or pass udid or simulator (e.g. "${free[0].name} / ${free[0].os_version}").`
+  );
+}
+
+// Make a simulator the default target for calls without udid or simulator
+export async function selectSimulator(target: SimulatorTarget): Promise<Simulator> {
+  const sim = target.udid ? await findByUdid(target.udid) : target.simulator ? await findByName(target.simulator) : null;
+  if (!sim) throw new ToolError("INVALID_ARGUMENT", "select_simulator needs udid or simulator");
+  const other = leasedByOther(sim.udid);
+  if (other) throw leaseError(other);
+  selected.set(currentClient().id, sim.udid);
+  return sim;
+}
+
+export function clearSelection(): void {
+  selected.delete(currentClient().id);
+}
+
+export function getSelectedUdid(): string | null {
+  return selected.get(currentClient().id) ?? null;
+}
+
+// Reserve a simulator for the calling client and select it: the given one, else
+// the selected one, else the first booted simulator no other client holds
+export async function reserveSimulator(target: SimulatorTarget, minutes = DEFAULT_LEASE_MINUTES): Promise<{ simulator: Simulator; lease: Lease }> {
+  let sim: Simulator | undefined;
+  if (target.udid) sim = await findByUdid(target.udid);
+  else if (target.simulator) sim = await findByName(target.simulator);
+  else {
+    const selectedUdid = getSelectedUdid();
+    const simulators = await getSimulators(true);
+    sim = simulators.find((s) => s.udid === selectedUdid) ?? simulators.find((s) => s.state === "Booted" && !leasedByOther(s.udid));
+    if (!sim) {
+      const booted = simulators.filter((s) => s.state === "Booted");
+      if (booted.length === 0) throw idb.noBootedSimulatorError();
+      throw leaseError(leasedByOther(booted[0].udid)!);
+    }
+  }
+  const lease = leaseSimulator(sim.udid, minutes);
+  selected.set(currentClient().id, sim.udid);
+  return { simulator: sim, lease };
+}
+
+// Forget a client's selection, e.g. when its session ends
+export function forgetClient(clientId: string): void {
+  selected.delete(clientId);
+}
+
+// Booted simulators plus any selected or used one, with usage stats
+export async function listSessions(): Promise<SessionInfo[]> {
+  const simulators = await getSimulators(true);
+  const selectedUdid = getSelectedUdid();
+  const client = currentClient();
+  return simulators
+    .filter((sim) => sim.state === "Booted" || sim.udid === selectedUdid || usage.has(sim.udid))
+    .map((sim) => {
+      const entry = usage.get(sim.udid);
+      const lease = getLease(sim.udid);
+      return {
+        ...sim,
+        selected: sim.udid === selectedUdid,
+        calls: entry?.calls ?? 0,
+        lastUsed: entry ? new Date(entry.lastUsed).toISOString() : null,
+        lease: lease
+          ? { holder: lease.owner === client.id ? "you" : lease.ownerName, reserved: lease.reserved, expiresAt: new Date(lease.expiresAt).toISOString() }
+          : null,
+      };
+    });
+}
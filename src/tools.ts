@@ -0,0 +1,2135 @@
+import * as fs from "fs";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import * as idb from "./idb.js";
+import { annotateScreenshot, getMark } from "./annotate.js";
+import { AUDIT_RULES, auditScreen, auditSession, formatAuditMarkdown, noteScreen, setScreenCollection, type AuditReport, type AuditRule } from "./audit.js";
+import {
+  clearSelection,
+  getSelectedUdid,
+  getSimulators,
+  invalidateSimulators,
+  listSessions,
+  reserveSimulator,
+  resolveUdid,
+  selectSimulator,
+} from "./session.js";
+import { claimSimulator, DEFAULT_LEASE_MINUTES, MAX_LEASE_MINUTES, releaseSimulator } from "./clients.js";
+import { elementAtPoint, elementCenter, findNode, flattenElements, toTreeJson, type ElementNode } from "./elements.js";
+import { captureScreenshot, type CropRegion, type ImageFormat } from "./screenshot.js";
+import { compareScreenshot, saveBaseline, type IgnoreRegion } from "./baseline.js";
+import { exportSession, type ExportFormat } from "./codegen.js";
+import {
+  clearCrashes,
+  CRASH_CHECKED_TOOLS,
+  crashCheckEnabled,
+  formatCrashSummary,
+  getCrash,
+  listCrashes,
+  newCrashes,
+  primeCrashWatch,
+} from "./crash.js";
+import {
+  getRecordedActions,
+  isRecording,
+  recordAction,
+  RECORDED_TOOLS,
+  startRecording,
+  stopRecording,
+  type RecordedElement,
+  type RecordedTarget,
+} from "./recorder.js";
+import {
+  addContacts,
+  addMedia,
+  applyFixture,
+  clearKeychain,
+  CONTACT_SCHEMA,
+  loadFixture,
+  LOCATION_SCHEMA,
+  parseFixture,
+  PERMISSION_ACTIONS,
+  PRIVACY_SERVICES,
+  setLocation,
+  setPermissions,
+  type Contact,
+  type LocationSpec,
+} from "./fixtures.js";
+import { loadFlow, parseFlow, runFlow } from "./flow.js";
+import { fillField, fillForm, findField } from "./forms.js";
+import { describeScrollFailure, edgeSwipe, scrollToElement, type Edge, type ScrollDirection, type ScrollResult } from "./gestures.js";
+import { pressKey, pressKeys } from "./keyboard.js";
+import { observeAfter, OBSERVE_PROPERTIES, OBSERVED_TOOLS, snapshotScreen, withoutObserveArgs } from "./observe.js";
+import { resolveOutputPath } from "./output.js";
+import { LOG_LEVELS, readLogs, startLogCapture, stopLogCapture, type LogLevel } from "./logs.js";
+import { startVideoRecording, stopVideoRecording } from "./video.js";
+import { waitFor, type WaitCondition } from "./wait.js";
+import { checkSelector, selectElements, selectOne, SELECTOR_SCHEMA, type ElementSelector } from "./selector.js";
+import { validateArguments, ValidationError, type JsonSchema } from "./validate.js";
+import { toToolError, ToolError } from "./errors.js";
+import type { PermissionAction, UIElement } from "./types.js";
+
+// Argument patterns. Values are passed to idb as argv, these just reject obvious garbage early.
+const UDID_PATTERN = "^[A-Za-z0-9][A-Za-z0-9-]*$";
+const BUNDLE_ID_PATTERN = "^[A-Za-z0-9_][A-Za-z0-9._-]*$";
+const URL_PATTERN = "^[A-Za-z][A-Za-z0-9+.-]*:";
+const NAME_PATTERN = "^[A-Za-z0-9][A-Za-z0-9._-]*$";
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+}
+
+// Tool definitions with AI-agent-friendly descriptions
+export const tools: ToolDefinition[] = [
+  {
+    name: "list_simulators",
+    description: "List all available iOS simulators with their current state. Returns array of simulators with name, udid, state (Booted/Shutdown), type, and os_version. Use this first to find simulator UDIDs for other commands.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "boot_simulator",
+    description: "Boot an iOS simulator by UDID. Simulator must be booted before you can interact with it. Use list_simulators first to find available UDIDs. Returns confirmation message on success.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID from list_simulators (e.g., 'FFD39627-3B87-4E21-B773-3AD45DA1B7A5')",
+        },
+      },
+      required: ["udid"],
+    },
+  },
+  {
+    name: "shutdown_simulator",
+    description: "Shutdown a running iOS simulator by UDID. Use when done testing to free system resources.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID to shutdown",
+        },
+      },
+      required: ["udid"],
+    },
+  },
+  {
+    name: "select_simulator",
+    description: "Choose the simulator that tools target when called without udid. Needed when several simulators are booted. Select by UDID or by name with optional OS version, e.g. 'iPhone 16' or 'iPhone 16 / iOS 18.2'. Pass clear: true to go back to the only booted simulator.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID from list_simulators",
+        },
+        simulator: {
+          type: "string",
+          description: "Simulator name, optionally with OS version after '/', e.g. 'iPhone 16 / iOS 18.2'",
+          minLength: 1,
+        },
+        clear: {
+          type: "boolean",
+          description: "Clear the selection instead",
+        },
+      },
+    },
+  },
+  {
+    name: "list_sessions",
+    description: "List booted and previously used simulators with which one is selected, how many tool calls went to each, when it was last used, and which client holds it.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "lease_simulator",
+    description: "Reserve a simulator so no other client connected to this server can use it, and select it. Without udid or simulator, takes the selected simulator or the first booted one that is free. Using a simulator already holds it while in use; lease it to keep it across pauses. Calling again extends the lease.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID to reserve",
+        },
+        minutes: {
+          type: "integer",
+          minimum: 1,
+          maximum: MAX_LEASE_MINUTES,
+          description: `How long to hold it (default ${DEFAULT_LEASE_MINUTES})`,
+        },
+      },
+    },
+  },
+  {
+    name: "release_simulator",
+    description: "Give up your lease on a simulator so other clients can use it. Without udid or simulator, releases every simulator you hold.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID to release",
+        },
+      },
+    },
+  },
+  {
+    name: "screenshot",
+    description: "Take a screenshot of the simulator screen. Returns base64-encoded PNG image. Use this to see the current UI state before interacting. If no udid provided, uses the selected simulator or the only booted one. To save tokens, pass maxWidth or scale to downscale, crop to a region or element, grayscale, or format 'jpeg'; the response then also reports the area shown and pixelsPerPoint, so point = region origin + pixel / pixelsPerPoint.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        maxWidth: {
+          type: "integer",
+          description: "Downscale so the image is at most this many pixels wide (e.g. 400). Never upscales.",
+          minimum: 16,
+        },
+        scale: {
+          type: "number",
+          description: "Resize factor for the image, e.g. 0.5 for half size",
+          minimum: 0.05,
+          maximum: 1,
+        },
+        crop: {
+          type: "object",
+          description: "Area to keep: a rectangle in points {x, y, width, height}, or {selector} to crop to one element",
+          properties: {
+            x: { type: "number", minimum: 0 },
+            y: { type: "number", minimum: 0 },
+            width: { type: "number", minimum: 1 },
+            height: { type: "number", minimum: 1 },
+            selector: SELECTOR_SCHEMA,
+          },
+          additionalProperties: false,
+        },
+        grayscale: {
+          type: "boolean",
+          description: "Drop color",
+        },
+        format: {
+          type: "string",
+          description: "'png' (default, lossless) or 'jpeg' (much smaller)",
+          enum: ["png", "jpeg"],
+        },
+        quality: {
+          type: "integer",
+          description: "JPEG quality 1-100 (default 80)",
+          minimum: 1,
+          maximum: 100,
+        },
+      },
+    },
+  },
+  {
+    name: "annotated_screenshot",
+    description: "Take a screenshot with a numbered box drawn over every element from describe_screen (set-of-marks). Returns the image plus a legend mapping each mark to its element ID, type, label and center in points. Use tap with mark to tap a numbered element instead of estimating coordinates.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+      },
+    },
+  },
+  {
+    name: "launch_app",
+    description: "Launch an app on the simulator by bundle ID. App must be installed on the simulator. Use list_apps to find installed bundle IDs. Returns confirmation on success.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "App bundle identifier (e.g., 'com.apple.mobilesafari', 'com.example.myapp')",
+        },
+      },
+      required: ["bundleId"],
+    },
+  },
+  {
+    name: "terminate_app",
+    description: "Terminate a running app on the simulator. Use to close an app without shutting down the simulator.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Bundle ID of app to terminate (e.g., 'com.apple.mobilesafari')",
+        },
+      },
+      required: ["bundleId"],
+    },
+  },
+  {
+    name: "tap",
+    description: "Tap at x,y coordinates on the simulator screen, at the center of an element by ID, or at a numbered mark from annotated_screenshot. Coordinates are in POINTS (not pixels). Use describe_screen or find_elements to get element IDs and coordinates, or get_screen_size to understand the coordinate system.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        x: {
+          type: "number",
+          description: "X coordinate in points (0 = left edge)",
+          minimum: 0,
+        },
+        y: {
+          type: "number",
+          description: "Y coordinate in points (0 = top edge)",
+          minimum: 0,
+        },
+        element: {
+          type: "string",
+          description: "Element ID from describe_screen (e.g. 'e1f3a09c'), instead of x/y",
+        },
+        mark: {
+          type: "integer",
+          description: "Mark number from the last annotated_screenshot, instead of x/y",
+          minimum: 1,
+        },
+      },
+    },
+  },
+  {
+    name: "swipe",
+    description: "Swipe from one point to another on the simulator. Use for scrolling (swipe up to scroll down), dismissing, or navigating. Coordinates are in POINTS.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        startX: {
+          type: "number",
+          description: "Starting X coordinate in points",
+          minimum: 0,
+        },
+        startY: {
+          type: "number",
+          description: "Starting Y coordinate in points",
+          minimum: 0,
+        },
+        endX: {
+          type: "number",
+          description: "Ending X coordinate in points",
+          minimum: 0,
+        },
+        endY: {
+          type: "number",
+          description: "Ending Y coordinate in points",
+          minimum: 0,
+        },
+        duration: {
+          type: "number",
+          description: "Swipe duration in milliseconds (default: 300, range: 100-5000). Slower swipes for precise control.",
+          minimum: 100,
+          maximum: 5000,
+        },
+      },
+      required: ["startX", "startY", "endX", "endY"],
+    },
+  },
+  {
+    name: "long_press",
+    description: "Touch and hold at x,y, an element ID or an annotated screenshot mark, e.g. to open a context menu or start editing a list. Coordinates are in POINTS.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        x: {
+          type: "number",
+          description: "X coordinate in points (0 = left edge)",
+          minimum: 0,
+        },
+        y: {
+          type: "number",
+          description: "Y coordinate in points (0 = top edge)",
+          minimum: 0,
+        },
+        element: {
+          type: "string",
+          description: "Element ID from describe_screen (e.g. 'e1f3a09c'), instead of x/y",
+        },
+        mark: {
+          type: "integer",
+          description: "Mark number from the last annotated_screenshot, instead of x/y",
+          minimum: 1,
+        },
+        duration: {
+          type: "number",
+          description: "How long to hold in milliseconds (default 1000)",
+          minimum: 100,
+          maximum: 10000,
+        },
+      },
+    },
+  },
+  {
+    name: "double_tap",
+    description: "Double tap at x,y, an element ID or an annotated screenshot mark, e.g. to zoom a map or image. Coordinates are in POINTS.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        x: {
+          type: "number",
+          description: "X coordinate in points (0 = left edge)",
+          minimum: 0,
+        },
+        y: {
+          type: "number",
+          description: "Y coordinate in points (0 = top edge)",
+          minimum: 0,
+        },
+        element: {
+          type: "string",
+          description: "Element ID from describe_screen (e.g. 'e1f3a09c'), instead of x/y",
+        },
+        mark: {
+          type: "integer",
+          description: "Mark number from the last annotated_screenshot, instead of x/y",
+          minimum: 1,
+        },
+      },
+    },
+  },
+  {
+    name: "drag_and_drop",
+    description: "Touch down at 'from', hold, then move to 'to' and release. The hold is what reorderable lists and drag and drop need to pick an item up; a plain swipe would scroll instead. Each point is {x, y}, {element} or {mark}.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        from: {
+          type: "object",
+          description: "Where to pick up: {x, y} in points, {element: 'e1f3a09c'} or {mark: 3}",
+          properties: {
+            x: {
+              type: "number",
+              description: "X coordinate in points (0 = left edge)",
+              minimum: 0,
+            },
+            y: {
+              type: "number",
+              description: "Y coordinate in points (0 = top edge)",
+              minimum: 0,
+            },
+            element: {
+              type: "string",
+              description: "Element ID from describe_screen (e.g. 'e1f3a09c'), instead of x/y",
+            },
+            mark: {
+              type: "integer",
+              description: "Mark number from the last annotated_screenshot, instead of x/y",
+              minimum: 1,
+            },
+          },
+          additionalProperties: false,
+        },
+        to: {
+          type: "object",
+          description: "Where to drop, same forms as from",
+          properties: {
+            x: {
+              type: "number",
+              description: "X coordinate in points (0 = left edge)",
+              minimum: 0,
+            },
+            y: {
+              type: "number",
+              description: "Y coordinate in points (0 = top edge)",
+              minimum: 0,
+            },
+            element: {
+              type: "string",
+              description: "Element ID from describe_screen (e.g. 'e1f3a09c'), instead of x/y",
+            },
+            mark: {
+              type: "integer",
+              description: "Mark number from the last annotated_screenshot, instead of x/y",
+              minimum: 1,
+            },
+          },
+          additionalProperties: false,
+        },
+        holdDuration: {
+          type: "number",
+          description: "Milliseconds to hold before moving, and again before releasing (default 800)",
+          minimum: 100,
+          maximum: 5000,
+        },
+      },
+      required: ["from", "to"],
+    },
+  },
+  {
+    name: "edge_swipe",
+    description: "Swipe in from a screen edge: 'left' navigates back in a navigation stack, 'top' opens Notification Center, 'bottom' goes home (on devices without a home button), 'right' is the reverse of 'left'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        edge: {
+          type: "string",
+          enum: ["left", "right", "top", "bottom"],
+          description: "Edge to swipe in from (default 'left', back navigation)",
+        },
+      },
+    },
+  },
+  {
+    name: "scroll_to_element",
+    description: "Scroll until an element is fully on screen: swipes inside the scroll container and searches the accessibility tree again after each swipe. Stops early when a swipe no longer changes the screen (end of the list). Returns {found, swipes, endReached, element, viewport}; the element's frame is ready for tap.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        label: {
+          type: "string",
+          description: "Label to search for (case-insensitive, partial match); shorthand for selector.label",
+        },
+        selector: SELECTOR_SCHEMA,
+        direction: {
+          type: "string",
+          enum: ["down", "up", "left", "right"],
+          description: "Which way to scroll: 'down' (default) reveals content below, by swiping up",
+        },
+        maxSwipes: {
+          type: "integer",
+          description: "Give up after this many swipes (default 10)",
+          minimum: 1,
+          maximum: 50,
+        },
+        container: {
+          ...SELECTOR_SCHEMA,
+          description: "Selector for the scroll view to swipe in (default: the largest ScrollView, Table or CollectionView on screen)",
+        },
+      },
+    },
+  },
+  {
+    name: "type_text",
+    description: "Type text into the currently focused text field. A text field must be focused first (tap on it). For special keys like Enter, use press_key instead. To focus, clear, type and check a field in one call, use fill_field.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        text: {
+          type: "string",
+          description: "Text to type (supports unicode, emojis)",
+        },
+      },
+      required: ["text"],
+    },
+  },
+  {
+    name: "fill_field",
+    description: "Fill a text field in one call: tap it to focus, delete its current value, type the text, then read the field back and check the value matches. Secure fields are checked by length, and their text is never echoed back. Reports autocorrect changes, lost focus or leftover text as an error.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        label: {
+          type: "string",
+          description: "Field label (case-insensitive, partial match); text inputs are preferred over other elements with the same label",
+        },
+        selector: SELECTOR_SCHEMA,
+        text: {
+          type: "string",
+          description: "Text to enter",
+        },
+        clear: {
+          type: "boolean",
+          description: "Delete the current value before typing (default true)",
+        },
+        submit: {
+          type: "boolean",
+          description: "Press return after typing (default false)",
+        },
+        verify: {
+          type: "boolean",
+          description: "Read the value back and report a mismatch as an error (default true)",
+        },
+      },
+      required: ["text"],
+    },
+  },
+  {
+    name: "fill_form",
+    description: "Fill several text fields in order with fill_field, e.g. {\"Email\": \"user@test.com\", \"Password\": \"secret\"}. Stops at the first field that fails verification. With submit, return is pressed after the last field.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        fields: {
+          type: "object",
+          description: "Field label -> text, filled in the given order",
+        },
+        clear: {
+          type: "boolean",
+          description: "Delete the current value before typing (default true)",
+        },
+        submit: {
+          type: "boolean",
+          description: "Press return after typing (default false)",
+        },
+        verify: {
+          type: "boolean",
+          description: "Read the value back and report a mismatch as an error (default true)",
+        },
+      },
+      required: ["fields"],
+    },
+  },
+  {
+    name: "press_key",
+    description: "Press a keyboard key or key combo (US layout). Use enter/return to submit forms, delete/backspace to erase, escape to cancel, tab to move focus, arrow keys for pickers, or any single character. Combos hold modifiers: 'cmd+a' selects all, 'shift+tab' moves focus back. Combos need a direct companion connection (IOS_SIM_COMPANION); the idb CLI fails them with UNSUPPORTED.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        key: {
+          type: "string",
+          description: "A single character ('a', 'A', '7', '?'), a key name ('enter', 'return', 'tab', 'space', 'delete', 'backspace', 'forwarddelete', 'escape', 'up', 'down', 'left', 'right', 'home', 'end', 'pageup', 'pagedown', 'f1'-'f12'), or a combo with cmd, ctrl, alt or shift, e.g. 'cmd+a', 'shift+tab'",
+          minLength: 1,
+        },
+      },
+      required: ["key"],
+    },
+  },
+  {
+    name: "press_keys",
+    description: "Press several keys or combos in order, e.g. ['cmd+a', 'delete'] to clear a text field or ['down', 'down', 'enter'] to pick from a list. Every key is checked before any is pressed. Combos need a direct companion connection (IOS_SIM_COMPANION); without one the first combo fails with UNSUPPORTED, after the keys before it were pressed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        keys: {
+          type: "array",
+          description: "Keys in press_key format",
+          items: { type: "string", minLength: 1 },
+        },
+      },
+      required: ["keys"],
+    },
+  },
+  {
+    name: "press_button",
+    description: "Press a physical device button. Home button goes to home screen, lock toggles screen lock, siri activates Siri, apple_pay triggers Apple Pay.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        button: {
+          type: "string",
+          description: "Button to press",
+          enum: ["home", "lock", "siri", "apple_pay"],
+        },
+      },
+      required: ["button"],
+    },
+  },
+  {
+    name: "open_url",
+    description: "Open a URL in the simulator. Opens in the default handler - http/https URLs open in Safari, custom URL schemes open their registered apps (e.g., 'myapp://path').",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        url: {
+          type: "string",
+          pattern: URL_PATTERN,
+          description: "URL to open (e.g., 'https://example.com' or 'myapp://deeplink')",
+        },
+      },
+      required: ["url"],
+    },
+  },
+  {
+    name: "list_apps",
+    description: "List all installed apps on the simulator. Returns JSON array of {bundleId, name, installType ('system' or 'user'), running, architectures}. Use this to find bundle IDs for launch_app and terminate_app.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        installType: {
+          type: "string",
+          description: "Only list 'user' (installed by you) or 'system' apps",
+          enum: ["user", "system"],
+        },
+      },
+    },
+  },
+  {
+    name: "install_app",
+    description: "Install an app build on the simulator from a .app directory (simulator build, e.g. DerivedData/.../Debug-iphonesimulator/MyApp.app) or an .ipa file. Replaces an installed app with the same bundle ID. Returns the installed bundle ID.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        appPath: {
+          type: "string",
+          description: "Local path to the .app directory or .ipa file",
+          minLength: 1,
+        },
+      },
+      required: ["appPath"],
+    },
+  },
+  {
+    name: "uninstall_app",
+    description: "Uninstall an app and its data from the simulator.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Bundle ID of app to uninstall",
+        },
+      },
+      required: ["bundleId"],
+    },
+  },
+  {
+    name: "push_file",
+    description: "Copy a local file into an app's data container, e.g. to seed a database or fixture before launch. The file keeps its name inside remoteDir.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Bundle ID of the app whose container receives the file",
+        },
+        localPath: {
+          type: "string",
+          description: "Local file to copy",
+          minLength: 1,
+        },
+        remoteDir: {
+          type: "string",
+          description: "Directory inside the data container (default 'Documents'), e.g. 'Library/Preferences'",
+        },
+      },
+      required: ["bundleId", "localPath"],
+    },
+  },
+  {
+    name: "pull_file",
+    description: "Copy a file out of an app's data container, e.g. a database or preferences plist, and return its local path and size.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Bundle ID of the app whose container holds the file",
+        },
+        remotePath: {
+          type: "string",
+          description: "File path inside the data container, e.g. 'Library/Preferences/com.example.app.plist'",
+          minLength: 1,
+        },
+        localPath: {
+          type: "string",
+          description: "Where to write the file (default: a new temporary directory). Over HTTP, a path inside IOS_SIM_OUTPUT_DIR.",
+        },
+      },
+      required: ["bundleId", "remotePath"],
+    },
+  },
+  {
+    name: "list_files",
+    description: "List entries in a directory of an app's data container (Documents, Library, tmp, ...).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Bundle ID of the app whose container to list",
+        },
+        path: {
+          type: "string",
+          description: "Directory inside the data container (default: container root)",
+        },
+      },
+      required: ["bundleId"],
+    },
+  },
+  {
+    name: "set_location",
+    description: "Set the simulated GPS location, or play back a route: pass route (2+ waypoints) to move along it at speed meters per second, one location update per second, in the background. Setting a fixed location stops a playing route. If a route stopped early because a location update failed, the next call reports the error.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        ...LOCATION_SCHEMA.properties,
+      },
+    },
+  },
+  {
+    name: "set_permission",
+    description: "Grant, revoke or reset privacy permissions of an app, so permission prompts don't appear (grant) or the denied path can be tested (revoke). Revoking may terminate the app.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Bundle ID of the app",
+        },
+        services: {
+          type: "array",
+          description: "Privacy services, e.g. [\"photos\", \"location\"]",
+          items: { type: "string", enum: PRIVACY_SERVICES },
+        },
+        action: {
+          type: "string",
+          enum: PERMISSION_ACTIONS,
+          description: "grant, revoke, or reset (ask again on next use)",
+        },
+      },
+      required: ["bundleId", "services", "action"],
+    },
+  },
+  {
+    name: "add_media",
+    description: "Add local photos and videos (jpg, png, heic, gif, mov, mp4, m4v) to the simulator's Photos library. .vcf files are imported into Contacts.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        paths: {
+          type: "array",
+          description: "Local files to add",
+          items: { type: "string", minLength: 1 },
+        },
+      },
+      required: ["paths"],
+    },
+  },
+  {
+    name: "add_contacts",
+    description: "Add contacts to the simulator's address book.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        contacts: {
+          type: "array",
+          description: "Contacts, e.g. [{firstName: \"Ada\", lastName: \"Lovelace\", phones: [\"+44 20 7946 0000\"], emails: [\"ada@example.com\"]}]",
+          items: CONTACT_SCHEMA,
+        },
+      },
+      required: ["contacts"],
+    },
+  },
+  {
+    name: "clear_keychain",
+    description: "Delete everything in the simulator's keychain, e.g. saved logins and tokens, for a signed-out start.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+      },
+    },
+  },
+  {
+    name: "apply_fixture",
+    description: "Set up the simulator environment in one call from a JSON fixture: {location, permissions: {bundleId: {service: grant|revoke|reset}}, media: [paths], contacts: [...], clearKeychain}. Steps run in that order: keychain, permissions, media, contacts, location. Provide either 'path' to a fixture file (media paths are relative to it) or the fixture object in 'fixture'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        path: {
+          type: "string",
+          description: "Path to a .json fixture file",
+        },
+        fixture: {
+          type: "object",
+          description: "Fixture object, e.g. {\"location\": {\"latitude\": 51.5, \"longitude\": -0.12}, \"permissions\": {\"com.example.app\": {\"photos\": \"grant\"}}}",
+        },
+      },
+    },
+  },
+  {
+    name: "get_screen_size",
+    description: "Get simulator screen dimensions in both pixels and points, plus scale factor. Coordinates for tap/swipe use POINTS. Returns: { pixels: {width, height}, points: {width, height}, scale }",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+      },
+    },
+  },
+  {
+    name: "describe_screen",
+    description: "Get all interactive UI elements on the current screen with their accessibility labels, types, and frame coordinates. Returns array of elements with: id, type, label, value, frame {x, y, width, height}, enabled. Element IDs can be passed to tap, describe_point and selectors. Use mode 'tree' for the full nested hierarchy including containers, cells, navigation and tab bars, plus raw AX fields (identifier, role, roleDescription, traits). Coordinates are in POINTS.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        mode: {
+          type: "string",
+          description: "Output format: 'list' (default, flat list of labeled/interactive elements) or 'tree' (every node, nested)",
+          enum: ["list", "tree"],
+        },
+        element: {
+          type: "string",
+          description: "Only describe the subtree rooted at this element ID",
+        },
+      },
+    },
+  },
+  {
+    name: "describe_point",
+    description: "Get accessibility info for the UI element at specific coordinates, or at the center of an element by ID. Use to identify what element is at a particular location. Coordinates are in POINTS.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        x: {
+          type: "number",
+          description: "X coordinate in points",
+          minimum: 0,
+        },
+        y: {
+          type: "number",
+          description: "Y coordinate in points",
+          minimum: 0,
+        },
+        element: {
+          type: "string",
+          description: "Element ID from describe_screen, instead of x/y",
+        },
+      },
+    },
+  },
+  {
+    name: "accessibility_audit",
+    description: "Check the current screen's accessibility tree for problems: controls and images without labels (missing-label), tap targets under 44x44 pt (small-target), elements off-screen (off-screen), controls overlapping a sibling control (overlap), several controls with the same label (duplicate-label) and disabled controls without a hint (disabled-no-hint). Each finding has a severity, rule ID, element and frame. With scope \"session\", audits every screen collected since start_session_recording(audit: true).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        scope: {
+          type: "string",
+          enum: ["screen", "session"],
+          description: "\"screen\" (default) audits the current screen; \"session\" audits every screen collected during session recording",
+        },
+        format: {
+          type: "string",
+          enum: ["json", "markdown"],
+          description: "Report format (default: json)",
+        },
+        rules: {
+          type: "array",
+          items: { type: "string", enum: [...AUDIT_RULES] },
+          description: "Only run these rules (default: all)",
+        },
+        path: {
+          type: "string",
+          description: "Also write the report to this file. Over HTTP, a path inside IOS_SIM_OUTPUT_DIR.",
+        },
+      },
+    },
+  },
+  {
+    name: "find_elements",
+    description: "Search for UI elements by accessibility label or a selector. 'label' is a case-insensitive partial match; 'selector' adds exact/regex matching on label and value, type and enabled filters, nth-match index, and ancestry ('inside'). Returns array of matching elements with type, label, value, and frame coordinates. Use this to find elements, then tap_element or tap using the frame coordinates.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        label: {
+          type: "string",
+          description: "Text to search for in element labels (case-insensitive, partial match). Shorthand for selector.label.",
+        },
+        selector: SELECTOR_SCHEMA,
+      },
+    },
+  },
+  {
+    name: "tap_element",
+    description: "Find a single element by label or selector and tap its center. Easier than find_elements + tap when you know the element's label. Throws error if no element matches, or if several match (the error lists every candidate) - narrow the selector with type, labelMatch: 'exact', inside, or index.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        label: {
+          type: "string",
+          description: "Accessibility label to search for and tap (case-insensitive, partial match). Shorthand for selector.label.",
+        },
+        selector: SELECTOR_SCHEMA,
+      },
+    },
+  },
+  {
+    name: "wait_for",
+    description: "Wait until the UI reaches a state instead of polling with screenshot/describe_screen. Conditions: 'exists' (element matching label/selector appears), 'not_exists' (element disappears), 'enabled' (element becomes enabled), 'value' (element has the given value), 'stable' (screen tree stops changing). Use after launch_app, tap or open_url. Returns { satisfied, elapsedMs, polls, observed }; on timeout returns an error with the last observed elements so you can see why the wait failed. Failed screen reads are retried until the timeout; the last one is reported as lastError.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        condition: {
+          type: "string",
+          description: "Condition to wait for",
+          enum: ["exists", "not_exists", "enabled", "value", "stable"],
+        },
+        label: {
+          type: "string",
+          description: "Accessibility label to watch (case-insensitive, partial match). A label or selector is required for every condition except 'stable'.",
+        },
+        selector: SELECTOR_SCHEMA,
+        value: {
+          type: "string",
+          description: "Expected element value for the 'value' condition (exact match)",
+        },
+        timeout: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds (default: 10000, range: 0-120000)",
+          minimum: 0,
+          maximum: 120000,
+        },
+        interval: {
+          type: "number",
+          description: "Poll interval in milliseconds (default: 500, range: 50-10000)",
+          minimum: 50,
+          maximum: 10000,
+        },
+      },
+      required: ["condition"],
+    },
+  },
+  {
+    name: "run_flow",
+    description: "Run a declarative YAML or JSON flow: a list of steps (launchApp, terminateApp, openUrl, tap, tapElement, typeText, fillField, swipe, longPress, doubleTap, dragAndDrop, edgeSwipe, scrollToElement, pressKey, pressKeys, pressButton, waitFor, screenshot, assert) with variables, per-step timeout, retry and onFailure: screenshot. Stops at the first failing step. Returns a report with pass/fail, duration and output for every step. Provide either 'path' to a flow file or the flow text in 'flow'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the flow's udid, then the selected or only booted simulator)",
+        },
+        path: {
+          type: "string",
+          description: "Path to a .yaml/.yml/.json flow file",
+        },
+        flow: {
+          type: "string",
+          description: "Flow source (YAML or JSON), e.g. \"steps:\\n  - launchApp: com.example.app\\n  - assert: Welcome\"",
+        },
+        vars: {
+          type: "object",
+          description: "Variables substituted for ${name} in step arguments, overriding the flow's vars",
+        },
+        artifactsDir: {
+          type: "string",
+          description: "Directory for failure screenshots (default: OS temp directory). Over HTTP, a directory inside IOS_SIM_OUTPUT_DIR.",
+        },
+      },
+    },
+  },
+  {
+    name: "save_baseline",
+    description: "Save the current screen as a named visual baseline for compare_screenshot. Baselines are stored per device type and OS version (from list_simulators) under IOS_SIM_BASELINE_DIR (default ./baselines). Overwrites an existing baseline with the same name.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        name: {
+          type: "string",
+          pattern: NAME_PATTERN,
+          description: "Baseline name (letters, digits, '.', '_', '-'), e.g. 'login-screen'",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "compare_screenshot",
+    description: "Compare the current screen against a baseline saved with save_baseline. Returns mismatch percentage, changed pixel count and a diff image (changed pixels red, anti-aliasing differences yellow, ignored regions blue). Fails when the mismatch exceeds threshold. Use ignoreRegions to mask dynamic content like the status bar clock.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        name: {
+          type: "string",
+          pattern: NAME_PATTERN,
+          description: "Baseline name passed to save_baseline",
+        },
+        threshold: {
+          type: "number",
+          description: "Maximum percentage of changed pixels that still passes (default: 0.1, range: 0-100)",
+          minimum: 0,
+          maximum: 100,
+        },
+        colorThreshold: {
+          type: "number",
+          description: "Per-pixel color sensitivity from 0 (exact) to 1 (default: 0.1)",
+          minimum: 0,
+          maximum: 1,
+        },
+        ignoreRegions: {
+          type: "array",
+          description: "Regions to leave out: either a rect {x, y, width, height} in POINTS or {selector} masking every matching element",
+          items: {
+            type: "object",
+            properties: {
+              x: { type: "number", minimum: 0 },
+              y: { type: "number", minimum: 0 },
+              width: { type: "number", minimum: 0 },
+              height: { type: "number", minimum: 0 },
+              selector: SELECTOR_SCHEMA,
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "start_log_capture",
+    description: "Start capturing the simulator's device log in the background. Lines are kept in a ring buffer (oldest dropped first) until stop_log_capture, and can be read at any time with read_logs. Use this before reproducing a problem, e.g. a tap that seems to do nothing. Calling it again while capturing is a no-op.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bufferSize: {
+          type: "integer",
+          description: "Maximum lines kept (default 5000)",
+          minimum: 100,
+          maximum: 100000,
+        },
+      },
+    },
+  },
+  {
+    name: "stop_log_capture",
+    description: "Stop capturing the device log. Lines already captured stay readable with read_logs until the next start_log_capture.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+      },
+    },
+  },
+  {
+    name: "read_logs",
+    description: "Read captured device log lines, filtered. By default returns only lines captured since the previous read_logs call, so repeated calls show what happened in between. Returns {entries: [{seq, timestamp, level, process, pid, subsystem, category, message}], cursor, truncated, dropped, capturing}.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        process: {
+          type: "string",
+          description: "Process name (e.g. 'SpringBoard', 'MyApp') or PID",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Only lines from this app's process or from subsystems starting with the bundle ID",
+        },
+        subsystem: {
+          type: "string",
+          description: "Subsystem prefix, e.g. 'com.apple.UIKit'",
+        },
+        level: {
+          type: "string",
+          description: "Minimum level",
+          enum: LOG_LEVELS,
+        },
+        regex: {
+          type: "string",
+          description: "Case-insensitive JavaScript regex the message must match, e.g. 'error|fail'",
+        },
+        since: {
+          type: "string",
+          description: "'last' (default): lines since the previous read_logs call; 'all': everything still buffered",
+          enum: ["last", "all"],
+        },
+        cursor: {
+          type: "integer",
+          description: "Read lines after this cursor from an earlier read_logs result, instead of since",
+          minimum: 0,
+        },
+        limit: {
+          type: "integer",
+          description: "Return at most this many of the newest matching lines (default 200)",
+          minimum: 1,
+          maximum: 5000,
+        },
+      },
+    },
+  },
+  {
+    name: "list_crashes",
+    description: "List crash reports on the simulator, oldest first. Returns [{name, bundleId, process, timestamp}]. Use get_crash with a name for the exception and stack. Set IOS_SIM_CRASH_CHECK=1 to have interaction tools report new crashes automatically.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Only crashes of this app",
+        },
+      },
+    },
+  },
+  {
+    name: "get_crash",
+    description: "Get a crash report parsed into {process, bundleId, timestamp, exceptionType, reason, crashedThread, topFrames}. Pass raw: true to also get the full report text.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        name: {
+          type: "string",
+          description: "Crash report name from list_crashes",
+          minLength: 1,
+        },
+        raw: {
+          type: "boolean",
+          description: "Include the full report text (can be long)",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "clear_crashes",
+    description: "Delete crash reports from the simulator, e.g. before a test run so list_crashes only shows new ones.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        bundleId: {
+          type: "string",
+          pattern: BUNDLE_ID_PATTERN,
+          description: "Only delete crashes of this app (default: all)",
+        },
+      },
+    },
+  },
+  {
+    name: "start_recording",
+    description: "Start recording the simulator screen to an MP4 in the background. Call stop_recording to finish it and get the file path. One recording per simulator; the recording stops by itself after maxDuration seconds.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+        name: {
+          type: "string",
+          description: "Prefix for the file name, e.g. 'checkout-bug'",
+          maxLength: 100,
+        },
+        maxDuration: {
+          type: "integer",
+          description: "Stop automatically after this many seconds (default 300)",
+          minimum: 1,
+          maximum: 3600,
+        },
+      },
+    },
+  },
+  {
+    name: "stop_recording",
+    description: "Stop the screen recording and finalize the video. Returns {path, startedAt, durationMs, bytes}.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        udid: {
+          type: "string",
+          pattern: UDID_PATTERN,
+          description: "Simulator UDID (optional - uses the selected simulator, or the only booted one, if not provided)",
+        },
+      },
+    },
+  },
+  {
+    name: "start_session_recording",
+    description: "Start recording mutating tool calls (tap, tap_element, swipe, long_press, double_tap, drag_and_drop, edge_swipe, scroll_to_element, type_text, fill_field, fill_form, press_key, press_keys, press_button, open_url, launch_app, terminate_app) along with the element each one hit. Use export_session afterwards to turn the recording into a replayable flow, Maestro YAML, or an XCUITest method.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        clear: {
+          type: "boolean",
+          description: "Discard any previous recording (default: true). Set false to append.",
+        },
+        audit: {
+          type: "boolean",
+          description: "Also collect each screen visited, for accessibility_audit with scope \"session\". Reads the screen after every recorded action.",
+        },
+      },
+    },
+  },
+  {
+    name: "stop_session_recording",
+    description: "Stop recording tool calls. The recording is kept for export_session. Returns the number of recorded actions.",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "export_session",
+    description: "Export the recorded session as code. 'flow' is a JSON flow for run_flow, 'maestro' is a Maestro YAML flow, 'xcuitest' is a Swift XCUITest method. Taps are written as label-based element queries where the tapped element has a label or identifier, falling back to coordinates. A step the format can't express, such as drag_and_drop or a cmd+a key combo in Maestro, fails the export with UNSUPPORTED.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          description: "Output format",
+          enum: ["flow", "maestro", "xcuitest"],
+        },
+        name: {
+          type: "string",
+          description: "Flow or test name (default: 'Recorded Session')",
+        },
+        path: {
+          type: "string",
+          description: "Also write the output to this file. Over HTTP, a path inside IOS_SIM_OUTPUT_DIR.",
+        },
+      },
+      required: ["format"],
+    },
+  },
+];
+
+// Every tool with an optional udid can also target a simulator by name. Arguments
+// no tool declares are rejected, so a misspelled option fails instead of being ignored.
+const SIMULATOR_PROPERTY: JsonSchema = {
+  type: "string",
+  description: "Simulator name instead of udid, optionally with OS version, e.g. 'iPhone 16 / iOS 18.2'",
+  minLength: 1,
+};
+for (const tool of tools) {
+  const { properties, required } = tool.inputSchema;
+  if (properties?.udid && !required?.includes("udid") && !properties.simulator) properties.simulator = SIMULATOR_PROPERTY;
+  if (properties && OBSERVED_TOOLS.includes(tool.name)) Object.assign(properties, OBSERVE_PROPERTIES);
+  tool.inputSchema.additionalProperties = false;
+}
+
+// Helper to get UDID with actionable error, from udid or simulator arguments
+export async function getUdid(args?: Record<string, unknown>): Promise<string> {
+  return await resolveUdid({ udid: args?.udid as string | undefined, simulator: args?.simulator as string | undefined });
+}
+
+// Resolve a point from x/y, an element ID or an annotated_screenshot mark
+async function getPoint(tool: string, udid: string, args: Record<string, unknown> | undefined, path = ""): Promise<{ x: number; y: number }> {
+  if (args?.mark !== undefined) {
+    return getMark(udid, args.mark as number).center;
+  }
+  if (args?.element !== undefined) {
+    return elementCenter(await idb.getElementById(udid, args.element as string));
+  }
+  if (args?.x === undefined || args?.y === undefined) {
+    throw new ValidationError(tool, [{ path: `${path}x`, message: "and y are required unless element or mark is given" }]);
+  }
+  return { x: args.x as number, y: args.y as number };
+}
+
+// Combine the `label` shorthand and `selector` argument of element tools
+function getSelector(tool: string, args: Record<string, unknown> | undefined): ElementSelector | undefined {
+  const selector = args?.selector === undefined ? undefined : checkSelector(tool, args.selector);
+  const label = args?.label as string | undefined;
+  if (label === undefined) return selector;
+  return { ...selector, label };
+}
+
+function requireSelector(tool: string, args: Record<string, unknown> | undefined): ElementSelector {
+  const selector = getSelector(tool, args);
+  if (!selector) {
+    throw new ValidationError(tool, [{ path: "label", message: "or selector is required" }]);
+  }
+  return selector;
+}
+
+// screenshot arguments that switch to in-process processing
+const SCREENSHOT_OPTIONS = ["maxWidth", "scale", "crop", "grayscale", "format", "quality"];
+
+// Element a mutating tool call acts on, resolved before it runs, for the session recorder
+// The element a recorded call acted on, with an exact selector for it
+function recordedTarget(tree: ElementNode[], node: UIElement, point?: { x: number; y: number }): RecordedTarget {
+  const full = findNode(tree, node.id)!;
+  const element: RecordedElement = { type: full.type, label: full.label, value: full.value, identifier: full.identifier, frame: full.frame };
+  if (!full.label) return { point: point ?? elementCenter(full), element };
+
+  // Exact label + type, with an index only when that is still ambiguous
+  const selector: ElementSelector = { label: full.label, labelMatch: "exact", type: full.type };
+  const matches = selectElements(tree, selector);
+  if (matches.length > 1) selector.index = matches.findIndex((m) => m.id === full.id);
+  return { point: point ?? elementCenter(full), element, selector };
+}
+
+// Recorded tools whose target is resolved before they run
+const TARGETED_TOOLS = ["tap", "tap_element", "swipe", "long_press", "double_tap", "drag_and_drop", "fill_field", "fill_form"];
+
+// `output` is the call's result, for scroll_to_element: its element is only on screen afterwards
+async function resolveTarget(name: string, udid: string, args: Record<string, unknown> | undefined, output?: string): Promise<RecordedTarget> {
+  try {
+    let point: { x: number; y: number } | undefined;
+    if (["tap", "long_press", "double_tap"].includes(name)) point = await getPoint(name, udid, args);
+    if (name === "swipe") point = { x: args?.startX as number, y: args?.startY as number };
+    if (name === "drag_and_drop") {
+      const from = await getPoint(name, udid, args?.from as Record<string, unknown>, "from.");
+      return { point: from, end: await getPoint(name, udid, args?.to as Record<string, unknown>, "to.") };
+    }
+
+    const tree = await idb.describeTree(udid);
+    if (name === "scroll_to_element") {
+      const found = findNode(tree, (JSON.parse(output!) as ScrollResult).element!.id);
+      return found ? recordedTarget(tree, found) : {};
+    }
+    if (name === "fill_field") return recordedTarget(tree, findField(tree, requireSelector(name, args)));
+    if (name === "fill_form") {
+      return { fields: Object.keys((args?.fields ?? {}) as object).map((label) => recordedTarget(tree, findField(tree, { label }))) };
+    }
+    const node = name === "tap_element" ? selectOne(tree, requireSelector(name, args)) : point ? elementAtPoint(tree, point.x, point.y) : null;
+    // Hitting only the app root means empty space: keep raw coordinates
+    if (!node || node.type === "Application") return { point };
+    return recordedTarget(tree, node, point);
+  } catch {
+    return {};
+  }
+}
+
+// Append summaries of crash reports written since the last check (IOS_SIM_CRASH_CHECK)
+async function attachCrashes(udid: string, result: CallToolResult): Promise<CallToolResult> {
+  try {
+    const crashes = await newCrashes(udid);
+    if (crashes.length === 0) return result;
+    return { ...result, content: [...result.content, ...crashes.map((c) => ({ type: "text" as const, text: formatCrashSummary(c) }))] };
+  } catch {
+    // Crash checking must never turn a successful call into a failure
+    return result;
+  }
+}
+
+// Append the UI delta for observe mode. The action already happened, so a failed
+// observation is reported next to its output rather than as an error.
+async function attachDelta(udid: string, before: UIElement[] | null, args: Record<string, unknown> | undefined, result: CallToolResult): Promise<CallToolResult> {
+  let text: string;
+  try {
+    if (!before) throw new ToolError("UNKNOWN", "the screen could not be read before the action");
+    const delta = await observeAfter(udid, before, { stableMs: args?.stableMs as number | undefined, timeout: args?.observeTimeout as number | undefined });
+    text = `UI delta: ${JSON.stringify(delta, null, 2)}`;
+  } catch (error: any) {
+    text = `UI delta unavailable: ${error.message}`;
+  }
+  return { ...result, content: [...result.content, { type: "text", text }] };
+}
+
+// Dispatch a tool call. Errors are returned as error results, never thrown.
+export async function callTool(name: string, args: Record<string, unknown> | undefined): Promise<CallToolResult> {
+  try {
+    const tool = tools.find((t) => t.name === name);
+    if (tool) {
+      validateArguments(name, args, tool.inputSchema);
+    }
+
+    const recording = isRecording() && RECORDED_TOOLS.includes(name);
+    const checkCrashes = crashCheckEnabled() && CRASH_CHECKED_TOOLS.includes(name);
+    const observing = args?.observe === true && OBSERVED_TOOLS.includes(name);
+    if (!recording && !checkCrashes && !observing) {
+      return await runTool(name, args);
+    }
+
+    const udid = await getUdid(args);
+    if (checkCrashes) await primeCrashWatch(udid);
+    let target = recording && TARGETED_TOOLS.includes(name) ? await resolveTarget(name, udid, args) : {};
+    const before = observing ? await snapshotScreen(udid).catch(() => null) : null;
+    let result = await runTool(name, args);
+    if (recording && !result.isError) {
+      const output = result.content.map((c) => (c.type === "text" ? c.text : "")).join("\n");
+      if (name === "scroll_to_element") target = await resolveTarget(name, udid, args, output);
+      recordAction(name, withoutObserveArgs(args || {}), udid, target, output);
+      await noteScreen(udid);
+    }
+    if (observing && !result.isError) result = await attachDelta(udid, before, args, result);
+    return checkCrashes ? await attachCrashes(udid, result) : result;
+  } catch (error) {
+    const failure = toToolError(error);
+    const result = errorResult(failure);
+    if (failure instanceof ValidationError) {
+      result.structuredContent = { ...result.structuredContent, error: "validation", tool: failure.tool, issues: failure.issues };
+    }
+    return result;
+  }
+}
+
+// Failed call with the error code, hint and whether retrying may help in the structured content
+function errorResult(error: ToolError, text = `Error: ${error.message}`): CallToolResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: { code: error.code, message: error.message, hint: error.hint, retryable: error.retryable },
+    isError: true,
+  };
+}
+
+async function runTool(name: string, args: Record<string, unknown> | undefined): Promise<CallToolResult> {
+  switch (name) {
+    case "list_simulators":
+      return { content: [{ type: "text", text: JSON.stringify(await getSimulators(true), null, 2) }] };
+
+    case "boot_simulator": {
+      claimSimulator(args?.udid as string);
+      const text = await idb.bootSimulator(args?.udid as string);
+      invalidateSimulators();
+      return { content: [{ type: "text", text }] };
+    }
+
+    case "shutdown_simulator": {
+      claimSimulator(args?.udid as string);
+      const text = await idb.shutdownSimulator(args?.udid as string);
+      invalidateSimulators();
+      if (getSelectedUdid() === args?.udid) clearSelection();
+      return { content: [{ type: "text", text }] };
+    }
+
+    case "select_simulator": {
+      if (args?.clear) {
+        clearSelection();
+        return { content: [{ type: "text", text: "Cleared the selected simulator" }] };
+      }
+      const sim = await selectSimulator({ udid: args?.udid as string | undefined, simulator: args?.simulator as string | undefined });
+      const warning = sim.state === "Booted" ? "" : ` It is ${sim.state}; boot it with boot_simulator before interacting.`;
+      return { content: [{ type: "text", text: `Selected ${sim.name} / ${sim.os_version} (${sim.udid}).${warning}` }] };
+    }
+
+    case "list_sessions":
+      return { content: [{ type: "text", text: JSON.stringify(await listSessions(), null, 2) }] };
+
+    case "lease_simulator": {
+      const target = { udid: args?.udid as string | undefined, simulator: args?.simulator as string | undefined };
+      const { simulator, lease } = await reserveSimulator(target, args?.minutes as number | undefined);
+      const warning = simulator.state === "Booted" ? "" : ` It is ${simulator.state}; boot it with boot_simulator before interacting.`;
+      return {
+        content: [{ type: "text", text: `Leased and selected ${simulator.name} / ${simulator.os_version} (${simulator.udid}) until ${new Date(lease.expiresAt).toISOString()}.${warning}` }],
+      };
+    }
+
+    case "release_simulator": {
+      const udid = args?.udid !== undefined || args?.simulator !== undefined ? await getUdid(args) : undefined;
+      const released = releaseSimulator(udid);
+      if (udid && getSelectedUdid() === udid) clearSelection();
+      return { content: [{ type: "text", text: released.length > 0 ? `Released ${released.join(", ")}` : "No simulators were leased" }] };
+    }
+
+    case "screenshot": {
+      const udid = await getUdid(args);
+      const options = SCREENSHOT_OPTIONS.some((key) => args?.[key] !== undefined);
+      if (!options) {
+        return { content: [{ type: "image", data: await idb.takeScreenshot(udid), mimeType: "image/png" }] };
+      }
+      const crop = args?.crop as CropRegion | undefined;
+      const { data, mimeType, ...info } = await captureScreenshot(udid, {
+        maxWidth: args?.maxWidth as number | undefined,
+        scale: args?.scale as number | undefined,
+        crop: crop?.selector ? { ...crop, selector: checkSelector(name, crop.selector, "crop.selector") } : crop,
+        grayscale: args?.grayscale as boolean | undefined,
+        format: args?.format as ImageFormat | undefined,
+        quality: args?.quality as number | undefined,
+      });
+      return {
+        content: [
+          { type: "image", data, mimeType },
+          { type: "text", text: JSON.stringify(info) },
+        ],
+      };
+    }
+
+    case "annotated_screenshot": {
+      const udid = await getUdid(args);
+      const { image, legend } = await annotateScreenshot(udid);
+      return {
+        content: [
+          { type: "image", data: image, mimeType: "image/png" },
+          { type: "text", text: JSON.stringify(legend, null, 2) },
+        ],
+      };
+    }
+
+    case "launch_app": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.launchApp(udid, args?.bundleId as string) }] };
+    }
+
+    case "terminate_app": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.terminateApp(udid, args?.bundleId as string) }] };
+    }
+
+    case "tap": {
+      const udid = await getUdid(args);
+      const { x, y } = await getPoint(name, udid, args);
+      return { content: [{ type: "text", text: await idb.tap(udid, x, y) }] };
+    }
+
+    case "swipe": {
+      const udid = await getUdid(args);
+      return {
+        content: [{
+          type: "text",
+          text: await idb.swipe(udid, args?.startX as number, args?.startY as number, args?.endX as number, args?.endY as number, args?.duration as number),
+        }],
+      };
+    }
+
+    case "fill_field": {
+      const udid = await getUdid(args);
+      const result = await fillField(udid, requireSelector(name, args), args?.text as string, {
+        clear: args?.clear as boolean | undefined,
+        submit: args?.submit as boolean | undefined,
+        verify: args?.verify as boolean | undefined,
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }], isError: result.problem !== undefined };
+    }
+
+    case "fill_form": {
+      const udid = await getUdid(args);
+      const fields = args?.fields as Record<string, unknown>;
+      const invalid = Object.keys(fields).filter((label) => typeof fields[label] !== "string");
+      if (invalid.length > 0) {
+        throw new ValidationError(name, invalid.map((label) => ({ path: `fields.${label}`, message: "must be a string" })));
+      }
+      const results = await fillForm(udid, fields as Record<string, string>, {
+        clear: args?.clear as boolean | undefined,
+        submit: args?.submit as boolean | undefined,
+        verify: args?.verify as boolean | undefined,
+      });
+      const failed = results.some((r) => r.problem !== undefined);
+      return { content: [{ type: "text", text: JSON.stringify(results, null, 2) }], isError: failed };
+    }
+
+    case "long_press": {
+      const udid = await getUdid(args);
+      const { x, y } = await getPoint(name, udid, args);
+      return { content: [{ type: "text", text: await idb.longPress(udid, x, y, (args?.duration as number | undefined) ?? 1000) }] };
+    }
+
+    case "double_tap": {
+      const udid = await getUdid(args);
+      const { x, y } = await getPoint(name, udid, args);
+      return { content: [{ type: "text", text: await idb.doubleTap(udid, x, y) }] };
+    }
+
+    case "drag_and_drop": {
+      const udid = await getUdid(args);
+      const from = await getPoint(name, udid, args?.from as Record<string, unknown>, "from.");
+      const to = await getPoint(name, udid, args?.to as Record<string, unknown>, "to.");
+      const hold = (args?.holdDuration as number | undefined) ?? 800;
+      return { content: [{ type: "text", text: await idb.drag(udid, from.x, from.y, to.x, to.y, hold) }] };
+    }
+
+    case "edge_swipe": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await edgeSwipe(udid, (args?.edge as Edge | undefined) ?? "left") }] };
+    }
+
+    case "scroll_to_element": {
+      const udid = await getUdid(args);
+      const selector = requireSelector(name, args);
+      const direction = (args?.direction as ScrollDirection | undefined) ?? "down";
+      const container = args?.container === undefined ? undefined : checkSelector(name, args.container, "container");
+      const result = await scrollToElement(udid, selector, {
+        direction,
+        maxSwipes: args?.maxSwipes as number | undefined,
+        container,
+      });
+      const text = JSON.stringify(result, null, 2);
+      if (result.found) return { content: [{ type: "text", text }] };
+      const message = describeScrollFailure(selector, result, direction);
+      return errorResult(new ToolError("ELEMENT_NOT_FOUND", message), `${message}\n${text}`);
+    }
+
+    case "type_text": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.typeText(udid, args?.text as string) }] };
+    }
+
+    case "press_key": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await pressKey(udid, args?.key as string) }] };
+    }
+
+    case "press_keys": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await pressKeys(udid, args?.keys as string[]) }] };
+    }
+
+    case "press_button": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.pressButton(udid, args?.button as string) }] };
+    }
+
+    case "open_url": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.openUrl(udid, args?.url as string) }] };
+    }
+
+    case "list_apps": {
+      const udid = await getUdid(args);
+      const installType = args?.installType as string | undefined;
+      const apps = (await idb.listApps(udid)).filter((app) => !installType || app.installType === installType);
+      return { content: [{ type: "text", text: JSON.stringify(apps, null, 2) }] };
+    }
+
+    case "install_app": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.installApp(udid, args?.appPath as string) }] };
+    }
+
+    case "uninstall_app": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.uninstallApp(udid, args?.bundleId as string) }] };
+    }
+
+    case "push_file": {
+      const udid = await getUdid(args);
+      const remoteDir = (args?.remoteDir as string | undefined) ?? "Documents";
+      return { content: [{ type: "text", text: await idb.pushFile(udid, args?.bundleId as string, args?.localPath as string, remoteDir) }] };
+    }
+
+    case "pull_file": {
+      const udid = await getUdid(args);
+      const localPath = args?.localPath !== undefined ? resolveOutputPath(args.localPath as string, "localPath") : undefined;
+      const result = await idb.pullFile(udid, args?.bundleId as string, args?.remotePath as string, localPath);
+      return { content: [{ type: "text", text: JSON.stringify(result) }] };
+    }
+
+    case "list_files": {
+      const udid = await getUdid(args);
+      const entries = await idb.listFiles(udid, args?.bundleId as string, args?.path as string | undefined);
+      return { content: [{ type: "text", text: JSON.stringify(entries, null, 2) }] };
+    }
+
+    case "set_location": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await setLocation(udid, (args ?? {}) as LocationSpec) }] };
+    }
+
+    case "set_permission": {
+      const udid = await getUdid(args);
+      const result = await setPermissions(udid, args?.bundleId as string, args?.services as string[], args?.action as PermissionAction);
+      return { content: [{ type: "text", text: result }] };
+    }
+
+    case "add_media": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await addMedia(udid, args?.paths as string[]) }] };
+    }
+
+    case "add_contacts": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await addContacts(udid, args?.contacts as Contact[]) }] };
+    }
+
+    case "clear_keychain": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await clearKeychain(udid) }] };
+    }
+
+    case "apply_fixture": {
+      if ((args?.path === undefined) === (args?.fixture === undefined)) {
+        throw new ValidationError(name, [{ path: "path", message: "or fixture is required (but not both)" }]);
+      }
+      const fixture = args?.path !== undefined ? loadFixture(args.path as string) : parseFixture(args?.fixture);
+      const udid = await getUdid(args);
+      const applied = await applyFixture(udid, fixture);
+      return { content: [{ type: "text", text: applied.length > 0 ? applied.join("\n") : "Fixture is empty; nothing applied" }] };
+    }
+
+    case "get_screen_size": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: JSON.stringify(await idb.getScreenSize(udid)) }] };
+    }
+
+    case "describe_screen": {
+      const udid = await getUdid(args);
+      const tree = args?.element !== undefined ? [await idb.getElementById(udid, args.element as string)] : await idb.describeTree(udid);
+      const result = args?.mode === "tree" ? tree.map(toTreeJson) : flattenElements(tree);
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+
+    case "describe_point": {
+      const udid = await getUdid(args);
+      const { x, y } = await getPoint(name, udid, args);
+      return { content: [{ type: "text", text: await idb.describePoint(udid, x, y) }] };
+    }
+
+    case "accessibility_audit": {
+      const rules = args?.rules as AuditRule[] | undefined;
+      let reports: AuditReport[];
+      if (args?.scope === "session") {
+        reports = auditSession(rules);
+      } else {
+        reports = [await auditScreen(await getUdid(args), rules)];
+      }
+      const text = args?.format === "markdown" ? formatAuditMarkdown(reports) : JSON.stringify(args?.scope === "session" ? reports : reports[0], null, 2);
+      if (args?.path !== undefined) {
+        fs.writeFileSync(resolveOutputPath(args.path as string), text);
+      }
+      return { content: [{ type: "text", text }] };
+    }
+
+    case "find_elements": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: JSON.stringify(await idb.findElements(udid, requireSelector(name, args)), null, 2) }] };
+    }
+
+    case "tap_element": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: await idb.tapElement(udid, requireSelector(name, args)) }] };
+    }
+
+    case "wait_for": {
+      const udid = await getUdid(args);
+      const result = await waitFor(udid, {
+        condition: args?.condition as WaitCondition,
+        selector: getSelector(name, args),
+        value: args?.value as string | undefined,
+        timeout: args?.timeout as number | undefined,
+        interval: args?.interval as number | undefined,
+      });
+      const text = JSON.stringify(result, null, 2);
+      if (result.satisfied) return { content: [{ type: "text", text }] };
+      const failed = result.lastError !== undefined ? ` (${result.failedPolls} of ${result.polls} screen reads failed, the last with: ${result.lastError})` : "";
+      return errorResult(new ToolError("TIMEOUT", `wait_for condition '${result.condition}' not met after ${result.elapsedMs}ms${failed}`), text);
+    }
+
+    case "run_flow": {
+      if ((args?.path === undefined) === (args?.flow === undefined)) {
+        throw new ValidationError(name, [{ path: "path", message: "or flow is required (but not both)" }]);
+      }
+      const flow = args?.path !== undefined ? loadFlow(args.path as string) : parseFlow(args?.flow as string);
+      const result = await runFlow(flow, {
+        udid: args?.simulator !== undefined ? await getUdid(args) : (args?.udid as string | undefined),
+        vars: args?.vars as Record<string, string> | undefined,
+        artifactsDir: args?.artifactsDir !== undefined ? resolveOutputPath(args.artifactsDir as string, "artifactsDir") : undefined,
+      });
+      const text = JSON.stringify(result, null, 2);
+      const failed = result.steps.find((step) => step.status === "failed");
+      if (!failed) return { content: [{ type: "text", text }] };
+      return errorResult(new ToolError(failed.code ?? "UNKNOWN", `Flow '${result.name}' failed at step ${failed.index + 1} (${failed.name}): ${failed.error}`), text);
+    }
+
+    case "save_baseline": {
+      const udid = await getUdid(args);
+      const file = await saveBaseline(udid, args?.name as string);
+      return { content: [{ type: "text", text: `Saved baseline "${args?.name}" to ${file}` }] };
+    }
+
+    case "compare_screenshot": {
+      const udid = await getUdid(args);
+      const ignoreRegions = ((args?.ignoreRegions as IgnoreRegion[] | undefined) || []).map((region, i) =>
+        region.selector ? { ...region, selector: checkSelector(name, region.selector, `ignoreRegions[${i}].selector`) } : region
+      );
+      const { diffImage, ...result } = await compareScreenshot(udid, args?.name as string, {
+        threshold: args?.threshold as number | undefined,
+        colorThreshold: args?.colorThreshold as number | undefined,
+        ignoreRegions,
+      });
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(result, null, 2) },
+          { type: "image", data: diffImage, mimeType: "image/png" },
+        ],
+        isError: !result.passed,
+      };
+    }
+
+    case "start_log_capture": {
+      const udid = await getUdid(args);
+      const status = startLogCapture(udid, args?.bufferSize as number | undefined);
+      return { content: [{ type: "text", text: JSON.stringify(status, null, 2) }] };
+    }
+
+    case "stop_log_capture": {
+      const udid = await getUdid(args);
+      return { content: [{ type: "text", text: JSON.stringify(stopLogCapture(udid), null, 2) }] };
+    }
+
+    case "read_logs": {
+      const udid = await getUdid(args);
+      const bundleId = args?.bundleId as string | undefined;
+      // Log lines carry the executable name, not the bundle ID
+      const app = bundleId ? (await idb.listApps(udid)).find((a) => a.bundleId === bundleId) : undefined;
+      const result = readLogs(udid, {
+        process: args?.process as string | undefined,
+        bundleId,
+        appName: app?.name.replace(/\s+/g, ""),
+        subsystem: args?.subsystem as string | undefined,
+        level: args?.level as LogLevel | undefined,
+        regex: args?.regex as string | undefined,
+        since: (args?.cursor as number | undefined) ?? (args?.since as "last" | "all" | undefined),
+        limit: args?.limit as number | undefined,
+      });
+      return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+    }
+
+    case "list_crashes": {
+      const udid = await getUdid(args);
+      const crashes = await listCrashes(udid, args?.bundleId as string | undefined);
+      return { content: [{ type: "text", text: JSON.stringify(crashes, null, 2) }] };
+    }
+
+    case "get_crash": {
+      const udid = await getUdid(args);
+      const { summary, report } = await getCrash(udid, args?.name as string);
+      const content: CallToolResult["content"] = [{ type: "text", text: JSON.stringify(summary, null, 2) }];
+      if (args?.raw) content.push({ type: "text", text: report });
+      return { content };
+    }
+
+    case "clear_crashes": {
+      const udid = await getUdid(args);
+      const count = await clearCrashes(udid, args?.bundleId as string | undefined);
+      return { content: [{ type: "text", text: `Deleted ${count} crash report${count === 1 ? "" : "s"}` }] };
+    }
+
+    case "start_recording": {
+      const udid = await getUdid(args);
+      const file = startVideoRecording(udid, {
+        name: args?.name as string | undefined,
+        maxDuration: args?.maxDuration as number | undefined,
+      });
+      return { content: [{ type: "text", text: `Recording ${udid} to ${file}. Call stop_recording when done.` }] };
+    }
+
+    case "stop_recording": {
+      const udid = await getUdid(args);
+      const info = await stopVideoRecording(udid);
+      return { content: [{ type: "text", text: JSON.stringify(info, null, 2) }] };
+    }
+
+    case "start_session_recording": {
+      const clear = (args?.clear as boolean | undefined) ?? true;
+      startRecording(clear);
+      setScreenCollection(args?.audit === true, clear);
+      if (args?.audit === true) {
+        // Collect the starting screen too, when a simulator is already up
+        const udid = await getUdid(args).catch(() => null);
+        if (udid) await noteScreen(udid);
+        return { content: [{ type: "text", text: "Recording session and collecting screens. Call export_session or accessibility_audit(scope: \"session\") when done." }] };
+      }
+      return { content: [{ type: "text", text: "Recording session. Call export_session when done." }] };
+    }
+
+    case "stop_session_recording":
+      setScreenCollection(false);
+      return { content: [{ type: "text", text: `Stopped recording (${stopRecording()} actions recorded)` }] };
+
+    case "export_session": {
+      const actions = getRecordedActions();
+      if (actions.length === 0) {
+        throw new ToolError("PRECONDITION_FAILED", "Nothing recorded.", "Call start_session_recording, interact with the app, then export_session.");
+      }
+      const code = exportSession(actions, args?.format as ExportFormat, (args?.name as string | undefined) ?? "Recorded Session");
+      if (args?.path !== undefined) {
+        fs.writeFileSync(resolveOutputPath(args.path as string), code);
+      }
+      return { content: [{ type: "text", text: code }] };
+    }
+
+    default:
+      throw new ToolError("INVALID_ARGUMENT", `Unknown tool: ${name}`);
+  }
+}
@@ -0,0 +1,73 @@
+// Shared types
+export interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Simulator {
+  udid: string;
+  name: string;
+  state: string;
+  type: string;
+  os_version: string;
+}
+
+export interface UIElement {
+  // Stable ID derived from the element's position and attributes
+  id: string;
+  type: string;
+  label: string | null;
+  value: string | null;
+  frame: Frame;
+  enabled: boolean;
+}
+
+export interface ScreenSize {
+  pixels: { width: number; height: number };
+  points: { width: number; height: number };
+  scale: number;
+}
+
+// Installed app, parsed from `idb list-apps`
+export interface AppInfo {
+  bundleId: string;
+  name: string;
+  // "system" or "user"
+  installType: string;
+  running: boolean;
+  architectures: string[];
+}
+
+export interface Coordinate {
+  latitude: number;
+  longitude: number;
+}
+
+// Action for `simctl privacy`
+export type PermissionAction = "grant" | "revoke" | "reset";
+
+// Crash report listed by `idb crash list`
+export interface CrashLogInfo {
+  name: string;
+  bundleId: string | null;
+  process: string;
+  // Seconds since the epoch
+  timestamp: number;
+}
+
+// Accessibility node as emitted by `idb ui describe-all --nested`
+export interface RawAXNode {
+  type?: string;
+  role?: string;
+  role_description?: string;
+  help?: string | null;
+  AXLabel?: string | null;
+  AXValue?: string | null;
+  AXUniqueId?: string | null;
+  frame?: Frame;
+  enabled?: boolean;
+  children?: RawAXNode[];
+  [key: string]: unknown;
+}
@@ -0,0 +1,119 @@
+import { ToolError } from "./errors.js";
+
+// Validation of tool arguments against their declared inputSchema.
+// Supports the JSON Schema subset used by the tool definitions in index.ts.
+export interface JsonSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class ValidationError extends ToolError {
+  readonly tool: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(tool: string, issues: ValidationIssue[]) {
+    super(
+      "INVALID_ARGUMENT",
+      `Invalid arguments for ${tool}: ` + issues.map((i) => `${i.path || "arguments"} ${i.message}`).join("; ")
+    );
+    this.name = "ValidationError";
+    this.tool = tool;
+    this.issues = issues;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return (actual === "number" || actual === "integer") && Number.isFinite(value);
+  return actual === type;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function check(value: unknown, schema: JsonSchema, path: string, issues: ValidationIssue[]): void {
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path, message: `must be ${schema.type === "integer" || schema.type === "array" ? "an" : "a"} ${schema.type} (got ${typeOf(value)})` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => check(item, schema.items!, join(path, i), issues));
+  }
+
+  if (typeOf(value) === "object" && (schema.properties || schema.required)) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined) {
+        issues.push({ path: join(path, key), message: "is required" });
+      }
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      if (child === undefined) continue;
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        check(child, propSchema, join(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: join(path, key), message: "is not a recognized argument" });
+      }
+    }
+  }
+}
+
+// Throws ValidationError listing every violation
+export function validateArguments(tool: string, args: unknown, schema: JsonSchema, path = ""): void {
+  const issues: ValidationIssue[] = [];
+  check(args ?? {}, schema, path, issues);
+  if (issues.length > 0) {
+    throw new ValidationError(tool, issues);
+  }
+}
@@ -0,0 +1,149 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { getBackend, type VideoRecording } from "./backend.js";
+import { ToolError, toToolError } from "./errors.js";
+
+// Screen recordings, one background recording per simulator. Finished videos are
+// kept in IOS_SIM_RECORDING_DIR and pruned by count and age as recordings start and stop.
+
+export interface RecordingInfo {
+  udid: string;
+  path: string;
+  startedAt: string;
+  durationMs: number;
+  bytes: number;
+  // Stopped by maxDuration rather than stop_recording
+  autoStopped?: boolean;
+}
+
+interface ActiveRecording {
+  recording: VideoRecording;
+  path: string;
+  startedAt: number;
+  timer: NodeJS.Timeout;
+}
+
+export const DEFAULT_MAX_DURATION = 300;
+const DEFAULT_KEEP = 20;
+const DEFAULT_MAX_AGE_HOURS = 72;
+
+const active = new Map<string, ActiveRecording>();
+// Recordings that hit maxDuration, kept for the next stop_recording
+const autoStopped = new Map<string, RecordingInfo>();
+// Why finishing a recording at maxDuration failed, thrown by the next stop_recording
+const autoStopErrors = new Map<string, ToolError>();
+
+export function recordingDir(): string {
+  return path.resolve(process.env.IOS_SIM_RECORDING_DIR || path.join(os.tmpdir(), "ios-sim-recordings"));
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// Delete all but the newest IOS_SIM_RECORDING_KEEP videos and any older than
+// IOS_SIM_RECORDING_MAX_AGE_HOURS. Recordings in progress and finished ones not yet
+// returned by stop_recording are never touched. `spare` counts toward the kept
+// videos but is never deleted, whatever the limits.
+export function pruneVideoRecordings(dir = recordingDir(), spare: string[] = []): string[] {
+  if (!fs.existsSync(dir)) return [];
+  const keep = positiveNumber(process.env.IOS_SIM_RECORDING_KEEP, DEFAULT_KEEP);
+  const maxAge = positiveNumber(process.env.IOS_SIM_RECORDING_MAX_AGE_HOURS, DEFAULT_MAX_AGE_HOURS) * 3600 * 1000;
+  const inUse = new Set([...active.values(), ...autoStopped.values()].map((r) => r.path));
+  const videos = fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith(".mp4"))
+    .map((f) => path.join(dir, f))
+    .filter((f) => !inUse.has(f))
+    .map((f) => ({ file: f, mtime: fs.statSync(f).mtimeMs }))
+    .sort((a, b) => b.mtime - a.mtime);
+
+  const removed: string[] = [];
+  videos.forEach((video, i) => {
+    if (spare.includes(video.file)) return;
+    if (i >= keep || Date.now() - video.mtime > maxAge) {
+      fs.rmSync(video.file, { force: true });
+      removed.push(video.file);
+    }
+  });
+  return removed;
+}
+
+function slug(text: string): string {
+  return text.replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^-|-$/g, "");
+}
+
+export function startVideoRecording(udid: string, options: { name?: string; maxDuration?: number } = {}): string {
+  if (active.has(udid)) {
+    throw new ToolError("PRECONDITION_FAILED", `Already recording ${udid} to ${active.get(udid)!.path}.`, "Call stop_recording first.");
+  }
+  const dir = recordingDir();
+  fs.mkdirSync(dir, { recursive: true });
+  pruneVideoRecordings(dir);
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const file = path.join(dir, `${options.name ? `${slug(options.name)}-` : ""}${slug(udid)}-${stamp}.mp4`);
+  const recording = getBackend().recordVideo(udid, file);
+  const maxDuration = options.maxDuration ?? DEFAULT_MAX_DURATION;
+  // Don't let a forgotten recording fill the disk
+  const timer = setTimeout(() => {
+    finish(udid)
+      .then((info) => autoStopped.set(udid, { ...info, autoStopped: true }))
+      .catch((error) => autoStopErrors.set(udid, toToolError(error)));
+  }, maxDuration * 1000);
+  timer.unref();
+
+  autoStopped.delete(udid);
+  autoStopErrors.delete(udid);
+  active.set(udid, { recording, path: file, startedAt: Date.now(), timer });
+  return file;
+}
+
+async function finish(udid: string): Promise<RecordingInfo> {
+  const current = active.get(udid)!;
+  active.delete(udid);
+  clearTimeout(current.timer);
+  await current.recording.stop();
+  const durationMs = Date.now() - current.startedAt;
+  if (!fs.existsSync(current.path)) {
+    throw new ToolError(
+      "UNKNOWN",
+      `Recording stopped but no video was written to ${current.path}`,
+      "Check that IOS_SIM_RECORDING_DIR is writable and that idb record-video works for this simulator."
+    );
+  }
+  const bytes = fs.statSync(current.path).size;
+  // The video about to be returned survives even IOS_SIM_RECORDING_KEEP=0
+  pruneVideoRecordings(recordingDir(), [current.path]);
+  return { udid, path: current.path, startedAt: new Date(current.startedAt).toISOString(), durationMs, bytes };
+}
+
+export async function stopVideoRecording(udid: string): Promise<RecordingInfo> {
+  if (!active.has(udid)) {
+    const stopped = autoStopped.get(udid);
+    if (stopped) {
+      autoStopped.delete(udid);
+      return stopped;
+    }
+    const failed = autoStopErrors.get(udid);
+    if (failed) {
+      autoStopErrors.delete(udid);
+      throw new ToolError(failed.code, `Recording of ${udid} stopped at maxDuration, but finishing it failed: ${failed.message}`, failed.hint);
+    }
+    throw new ToolError("PRECONDITION_FAILED", `Not recording ${udid}.`, "Call start_recording first.");
+  }
+  return await finish(udid);
+}
+
+// Stop and finalize every recording, e.g. on server shutdown
+export async function stopAllVideoRecordings(): Promise<void> {
+  await Promise.allSettled([...active.keys()].map((udid) => finish(udid)));
+}
+
+// Last resort on process exit, when there is no time to wait
+export function killAllVideoRecordings(): void {
+  for (const current of active.values()) current.recording.kill();
+  active.clear();
+}
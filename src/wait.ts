@@ -0,0 +1,102 @@
+import { describeTree } from "./idb.js";
+import { ToolError } from "./errors.js";
+import { flattenElements } from "./elements.js";
+import { selectElements, type ElementSelector } from "./selector.js";
+import type { UIElement } from "./types.js";
+
+export type WaitCondition = "exists" | "not_exists" | "enabled" | "value" | "stable";
+
+export interface WaitOptions {
+  condition: WaitCondition;
+  // Element to watch; required except for "stable"
+  selector?: ElementSelector;
+  // Expected value for the "value" condition
+  value?: string;
+  // Milliseconds
+  timeout?: number;
+  interval?: number;
+}
+
+export interface WaitResult {
+  satisfied: boolean;
+  condition: WaitCondition;
+  selector?: ElementSelector;
+  elapsedMs: number;
+  polls: number;
+  // Matching elements from the last poll that read the screen, or the whole
+  // screen for "stable"
+  observed: UIElement[];
+  // Polls whose screen read failed, and the latest failure
+  failedPolls?: number;
+  lastError?: string;
+}
+
+export const DEFAULT_WAIT_TIMEOUT = 10000;
+export const DEFAULT_WAIT_INTERVAL = 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function check(condition: WaitCondition, matches: UIElement[], value?: string): boolean {
+  switch (condition) {
+    case "exists":
+      return matches.length > 0;
+    case "not_exists":
+      return matches.length === 0;
+    case "enabled":
+      return matches.some((el) => el.enabled);
+    case "value":
+      return matches.some((el) => (el.value ?? "") === value);
+    default:
+      return false;
+  }
+}
+
+// Poll describe_screen until the condition holds or the timeout expires. A failed
+// screen read, e.g. while an app launches, doesn't end the wait.
+export async function waitFor(udid: string, options: WaitOptions): Promise<WaitResult> {
+  const { condition, selector, value } = options;
+  const timeout = options.timeout ?? DEFAULT_WAIT_TIMEOUT;
+  const interval = options.interval ?? DEFAULT_WAIT_INTERVAL;
+
+  if (condition !== "stable" && !selector) {
+    throw new ToolError("INVALID_ARGUMENT", `wait_for condition '${condition}' requires a label or selector.`);
+  }
+  if (condition === "value" && value === undefined) {
+    throw new ToolError("INVALID_ARGUMENT", "wait_for condition 'value' requires a value to compare against.");
+  }
+
+  const start = Date.now();
+  let polls = 0;
+  let previous: string | null = null;
+  let observed: UIElement[] = [];
+  let failedPolls = 0;
+  let lastError: string | undefined;
+
+  while (true) {
+    polls++;
+    let satisfied = false;
+    try {
+      const tree = await describeTree(udid);
+      if (condition === "stable") {
+        observed = flattenElements(tree);
+        const snapshot = JSON.stringify(observed);
+        satisfied = snapshot === previous;
+        previous = snapshot;
+      } else {
+        observed = selectElements(tree, selector!);
+        satisfied = check(condition, observed, value);
+      }
+    } catch (error: any) {
+      failedPolls++;
+      lastError = error?.message ?? String(error);
+      // Stable means two reads in a row
+      previous = null;
+    }
+
+    const elapsedMs = Date.now() - start;
+    if (satisfied || elapsedMs >= timeout) {
+      return { satisfied, condition, selector, elapsedMs, polls, observed, ...(lastError !== undefined ? { failedPolls, lastError } : {}) };
+    }
+    await sleep(Math.min(interval, timeout - elapsedMs));
+  }
+}
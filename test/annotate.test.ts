@@ -0,0 +1,48 @@
+import { before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as idb from "../src/idb.js";
+import { flattenElements } from "../src/elements.js";
+import { decodePng } from "../src/png.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+before(async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+test("tap by mark needs an annotated screenshot first", async () => {
+  assert.match(textOf(await callTool("tap", { udid: UDID, mark: 1 })), /Call annotated_screenshot first/);
+});
+
+test("annotated_screenshot numbers every element and boxes it", async () => {
+  const result = await callTool("annotated_screenshot", { udid: UDID });
+  assert.equal(result.isError, undefined, textOf(result));
+  const legend = JSON.parse(textOf(result));
+  assert.deepEqual(
+    legend.map((m: any) => [m.mark, m.type, m.label]),
+    [
+      [1, "StaticText", "Sign In"],
+      [2, "TextField", "Email"],
+      [3, "SecureTextField", "Password"],
+      [4, "Button", "Sign In"],
+    ]
+  );
+  assert.deepEqual(legend[1].center, { x: 197, y: 222 });
+
+  const image = result.content[0];
+  assert.equal(image.type, "image");
+  const bitmap = decodePng(Buffer.from(image.type === "image" ? image.data : "", "base64"));
+  assert.deepEqual([bitmap.width, bitmap.height], [1179, 2556]);
+  // Left edge of the Email box, drawn in the second palette color
+  const at = (x: number, y: number) => [...bitmap.data.subarray((y * bitmap.width + x) * 4, (y * bitmap.width + x) * 4 + 3)];
+  assert.deepEqual(at(61, 680), [60, 180, 75]);
+  assert.deepEqual(at(600, 660), [255, 255, 255]);
+});
+
+test("tap with a mark taps that element", async () => {
+  assert.match(textOf(await callTool("tap", { udid: UDID, mark: 9 })), /No mark 9 .*marks 1-4/);
+  const result = await callTool("tap", { udid: UDID, mark: 4 });
+  assert.equal(result.isError, undefined, textOf(result));
+  assert.ok(flattenElements(await idb.describeTree(UDID)).some((e) => e.label === "Welcome"));
+});
@@ -0,0 +1,75 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-apps-"));
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  return textOf(result);
+};
+const error = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, true, textOf(result));
+  return textOf(result);
+};
+
+before(() => {
+  useFakeDevice();
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("install_app, list_apps and uninstall_app", async () => {
+  const app = path.join(dir, "Notes.app");
+  fs.mkdirSync(app);
+  fs.writeFileSync(
+    path.join(app, "Info.plist"),
+    "<plist><dict><key>CFBundleIdentifier</key><string>com.example.notes</string><key>CFBundleName</key><string>Notes</string></dict></plist>"
+  );
+
+  assert.match(await call("install_app", { appPath: app }), /Installed com\.example\.notes/);
+  const apps = JSON.parse(await call("list_apps", { installType: "user" }));
+  assert.deepEqual(apps.map((a: any) => [a.bundleId, a.name, a.running]), [
+    ["com.example.app", "Example", false],
+    ["com.example.notes", "Notes", false],
+  ]);
+
+  await call("uninstall_app", { bundleId: "com.example.notes" });
+  assert.doesNotMatch(await call("list_apps"), /com\.example\.notes/);
+  assert.match(await error("install_app", { appPath: path.join(dir, "Missing.app") }), /App not found/);
+  assert.match(await error("install_app", { appPath: path.join(app, "Info.plist") }), /expected an \.app directory or an \.ipa file/);
+});
+
+test("list_files and pull_file read the data container", async () => {
+  assert.deepEqual(JSON.parse(await call("list_files", { bundleId: "com.example.app" })), ["Library"]);
+  assert.deepEqual(JSON.parse(await call("list_files", { bundleId: "com.example.app", path: "Library/Preferences" })), ["com.example.app.json"]);
+
+  const target = path.join(dir, "pulled", "prefs.json");
+  const pulled = JSON.parse(await call("pull_file", { bundleId: "com.example.app", remotePath: "Library/Preferences/com.example.app.json", localPath: target }));
+  assert.equal(pulled.path, target);
+  assert.equal(fs.readFileSync(target, "utf8"), '{ "onboarded": true }\n');
+});
+
+test("push_file writes into Documents by default", async () => {
+  const local = path.join(dir, "seed.json");
+  fs.writeFileSync(local, "[]");
+  assert.match(await call("push_file", { bundleId: "com.example.app", localPath: local }), /com\.example\.app:Documents\/seed\.json$/);
+  assert.deepEqual(JSON.parse(await call("list_files", { bundleId: "com.example.app", path: "Documents" })), ["seed.json"]);
+
+  const pulled = JSON.parse(await call("pull_file", { bundleId: "com.example.app", remotePath: "Documents/seed.json" }));
+  assert.equal(fs.readFileSync(pulled.path, "utf8"), "[]");
+  fs.rmSync(path.dirname(pulled.path), { recursive: true, force: true });
+});
+
+test("container paths cannot leave the container", async () => {
+  assert.match(await error("list_files", { bundleId: "com.example.app", path: "../.." }), /'\.\.' is not allowed/);
+  assert.match(await error("pull_file", { bundleId: "com.example.app", remotePath: "Documents/missing.json" }), /No file Documents\/missing\.json/);
+});
@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { auditTree, formatAuditMarkdown } from "../src/audit.js";
+import { parseTree } from "../src/elements.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+const SCREEN = { x: 0, y: 0, width: 393, height: 852 };
+
+const button = (label: string | undefined, x: number, y: number, width = 100, height = 50, extra: object = {}) => ({
+  type: "Button",
+  ...(label ? { AXLabel: label } : {}),
+  frame: { x, y, width, height },
+  ...extra,
+});
+
+const tree = parseTree([
+  {
+    type: "Application",
+    AXLabel: "Example",
+    frame: SCREEN,
+    children: [
+      button(undefined, 10, 10, 20, 20),
+      button("OK", 100, 100),
+      button("ok", 100, 300),
+      button("Gone", 500, 100),
+      button("Save", 100, 500, 100, 50, { enabled: false }),
+      button("Behind", 150, 520),
+      {
+        type: "ScrollView",
+        frame: { x: 0, y: 600, width: 393, height: 252 },
+        children: [button("Below the fold", 100, 1200)],
+      },
+    ],
+  },
+]);
+
+test("auditTree reports each rule, errors first", () => {
+  const findings = auditTree(tree, SCREEN);
+  assert.deepEqual(
+    findings.map((f) => [f.severity, f.rule, f.element.label]),
+    [
+      ["error", "missing-label", null],
+      ["error", "off-screen", "Gone"],
+      ["warning", "overlap", "Behind"],
+      ["warning", "small-target", null],
+      ["warning", "duplicate-label", "OK"],
+      ["info", "disabled-no-hint", "Save"],
+    ]
+  );
+  const overlap = findings.find((f) => f.rule === "overlap")!;
+  assert.deepEqual(overlap.related, [findings.find((f) => f.rule === "disabled-no-hint")!.element.id]);
+  assert.equal(findings.find((f) => f.rule === "duplicate-label")!.related!.length, 1);
+});
+
+test("auditTree only runs the requested rules", () => {
+  assert.deepEqual(
+    auditTree(tree, SCREEN, ["small-target"]).map((f) => f.rule),
+    ["small-target"]
+  );
+});
+
+test("formatAuditMarkdown renders a table per screen", () => {
+  const findings = auditTree(tree, SCREEN, ["missing-label"]);
+  const markdown = formatAuditMarkdown([
+    { screen: "Example", udid: UDID, capturedAt: "2026-01-01T00:00:00.000Z", elements: 9, counts: { error: 1, warning: 0, info: 0 }, findings },
+  ]);
+  assert.match(markdown, /^# Accessibility audit\n\n## Example\n\n9 elements, 1 error\./);
+  assert.match(markdown, /\| error \| missing-label \| Button \(e[0-9a-f]+\) \| \(10, 10, 20x20\) \|/);
+});
+
+test("accessibility_audit audits the current screen", async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  const report = JSON.parse(textOf(await callTool("accessibility_audit", { udid: UDID })));
+  assert.equal(report.screen, "Example: Sign In");
+  assert.equal(report.elements, 5);
+  assert.deepEqual(report.counts, { error: 0, warning: 0, info: 0 });
+  assert.match(textOf(await callTool("accessibility_audit", { udid: UDID, format: "markdown" })), /## Example: Sign In\n\n5 elements, no issues\./);
+});
+
+test("accessibility_audit with scope session reports every screen visited while recording", async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  assert.match(textOf(await callTool("accessibility_audit", { scope: "session" })), /No screens collected/);
+
+  await callTool("start_session_recording", { audit: true });
+  await callTool("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+  await callTool("stop_session_recording", {});
+
+  const reports = JSON.parse(textOf(await callTool("accessibility_audit", { scope: "session" })));
+  assert.deepEqual(
+    reports.map((r: any) => r.screen),
+    ["Example: Sign In", "Example: Welcome"]
+  );
+});
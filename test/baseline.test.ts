@@ -0,0 +1,92 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { setBackend } from "../src/backend.js";
+import { diffImages } from "../src/imagediff.js";
+import { createBitmap, decodePng, encodePng, type Bitmap } from "../src/png.js";
+import { callTool } from "../src/tools.js";
+import { fakeDevice, textOf, UDID } from "./helpers.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-baselines-"));
+
+// The fake screen is 1179x2556 pixels at 3x; the Email field is at (20, 200) 353x44 points
+let screen: Bitmap;
+
+function paint(bitmap: Bitmap, x: number, y: number, width: number, height: number, rgba: number[]): void {
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      bitmap.data.set(rgba, (row * bitmap.width + col) * 4);
+    }
+  }
+}
+
+before(async () => {
+  process.env.IOS_SIM_BASELINE_DIR = dir;
+  const device = fakeDevice();
+  setBackend({ ...device, takeScreenshot: async () => encodePng(screen).toString("base64") });
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+after(() => {
+  delete process.env.IOS_SIM_BASELINE_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("PNGs round-trip through encodePng and decodePng", () => {
+  const bitmap = createBitmap(3, 2, [10, 20, 30, 255]);
+  paint(bitmap, 1, 1, 1, 1, [200, 0, 0, 128]);
+  assert.deepEqual(decodePng(encodePng(bitmap)), bitmap);
+});
+
+test("diffImages counts changed pixels outside ignored regions", () => {
+  const a = createBitmap(10, 10, [255, 255, 255, 255]);
+  const b = createBitmap(10, 10, [255, 255, 255, 255]);
+  paint(b, 0, 0, 5, 2, [0, 0, 0, 255]);
+  assert.equal(diffImages(a, a).diffPixels, 0);
+  assert.equal(diffImages(a, b).diffPixels, 10);
+  const ignored = diffImages(a, b, { ignore: [{ x: 0, y: 0, width: 5, height: 1 }] });
+  assert.equal(ignored.diffPixels, 5);
+  assert.equal(ignored.comparedPixels, 95);
+});
+
+test("save_baseline stores the screenshot per device", async () => {
+  screen = createBitmap(1179, 2556, [255, 255, 255, 255]);
+  const result = await callTool("save_baseline", { udid: UDID, name: "login" });
+  assert.equal(result.isError, undefined, textOf(result));
+  assert.ok(fs.existsSync(path.join(dir, "iPhone-16_iOS-18.2", "login.png")));
+});
+
+test("compare_screenshot passes on an unchanged screen", async () => {
+  const result = await callTool("compare_screenshot", { udid: UDID, name: "login" });
+  assert.equal(result.isError, false, textOf(result));
+  assert.equal(JSON.parse(textOf(result)).diffPixels, 0);
+  assert.equal(result.content[1].type, "image");
+});
+
+test("compare_screenshot fails on a change unless it is ignored", async () => {
+  screen = createBitmap(1179, 2556, [255, 255, 255, 255]);
+  paint(screen, 60, 600, 1059, 132, [255, 0, 0, 255]);
+
+  const changed = await callTool("compare_screenshot", { udid: UDID, name: "login" });
+  assert.equal(changed.isError, true);
+  const report = JSON.parse(textOf(changed));
+  assert.equal(report.passed, false);
+  assert.ok(report.mismatchPercent > 4 && report.mismatchPercent < 5, String(report.mismatchPercent));
+
+  const ignored = await callTool("compare_screenshot", {
+    udid: UDID,
+    name: "login",
+    ignoreRegions: [{ selector: { label: "Email", type: "TextField" } }],
+  });
+  assert.equal(ignored.isError, false, textOf(ignored));
+  assert.deepEqual(JSON.parse(textOf(ignored)).ignored, [{ x: 60, y: 600, width: 1059, height: 132 }]);
+});
+
+test("compare_screenshot explains missing baselines", async () => {
+  const result = await callTool("compare_screenshot", { udid: UDID, name: "nope" });
+  assert.match(textOf(result), /No baseline named "nope"/);
+  assert.equal(result.structuredContent?.code, "PRECONDITION_FAILED");
+  assert.match(String(result.structuredContent?.hint), /save_baseline first/);
+});
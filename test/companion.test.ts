@@ -0,0 +1,108 @@
+import { after, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http2 from "http2";
+import type { AddressInfo } from "net";
+import * as idb from "../src/idb.js";
+import { setBackend, type DeviceBackend } from "../src/backend.js";
+import { createCompanionBackend, parseCompanionAddresses } from "../src/companion.js";
+import { createStubCompanion } from "../src/companion-stub.js";
+import { flattenElements } from "../src/elements.js";
+import { GrpcChannel, GrpcStatus } from "../src/grpc.js";
+import { callTool } from "../src/tools.js";
+import { fakeDevice, textOf, UDID } from "./helpers.js";
+
+// Servers started by the tests, closed with their open connections at the end
+const servers: http2.Http2Server[] = [];
+const sessions = new Set<http2.ServerHttp2Session>();
+
+after(() => {
+  for (const session of sessions) session.destroy();
+  for (const server of servers) server.close();
+});
+
+async function listen(server: http2.Http2Server): Promise<string> {
+  servers.push(server);
+  server.on("session", (session) => sessions.add(session));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function screenLabels(): Promise<(string | null)[]> {
+  return flattenElements(await idb.describeTree(UDID)).map((el) => el.label);
+}
+
+// The fake device as the idb CLI, counting the UI actions that reach it
+function countingCli(device: DeviceBackend): { cli: DeviceBackend; calls: string[] } {
+  const calls: string[] = [];
+  const cli: DeviceBackend = {
+    ...device,
+    async tap(...args) {
+      calls.push("tap");
+      await device.tap(...args);
+    },
+    async typeText(...args) {
+      calls.push("typeText");
+      await device.typeText(...args);
+    },
+  };
+  return { cli, calls };
+}
+
+test("parseCompanionAddresses reads host:port and udid=host:port entries", () => {
+  assert.deepEqual(parseCompanionAddresses("localhost:10882, ABC-1=10.0.0.2:10883"), [
+    { address: "localhost:10882" },
+    { udid: "ABC-1", address: "10.0.0.2:10883" },
+  ]);
+  assert.throws(() => parseCompanionAddresses("localhost"), /Invalid IOS_SIM_COMPANION entry 'localhost'/);
+});
+
+test("UI calls round-trip through the companion", async () => {
+  const device = fakeDevice();
+  const address = await listen(createStubCompanion(device, UDID));
+  const { cli, calls } = countingCli(device);
+  setBackend(createCompanionBackend(cli, [{ udid: UDID, address }]));
+
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  assert.ok((await screenLabels()).includes("Email"));
+  for (const [name, args] of [
+    ["tap_element", { selector: { label: "Email", type: "TextField" } }],
+    ["type_text", { text: "user@test.com" }],
+    ["press_key", { key: "cmd+a" }],
+    ["tap_element", { selector: { label: "Sign In", type: "Button" } }],
+  ] as const) {
+    const result = await callTool(name, { udid: UDID, ...args });
+    assert.ok(!result.isError, `${name}: ${textOf(result)}`);
+  }
+  assert.ok((await screenLabels()).includes("Welcome"));
+  assert.deepEqual(calls, []);
+});
+
+test("an unreachable companion falls back to the CLI", async () => {
+  const { cli, calls } = countingCli(fakeDevice());
+  // Nothing listens on port 1
+  setBackend(createCompanionBackend(cli, [{ udid: UDID, address: "127.0.0.1:1" }]));
+  const result = await callTool("tap", { udid: UDID, x: 10, y: 10 });
+  assert.ok(!result.isError, textOf(result));
+  assert.deepEqual(calls, ["tap"]);
+});
+
+test("a connection dropped after the request was sent fails without falling back", async () => {
+  const server = http2.createServer();
+  server.on("stream", (stream) => stream.on("data", () => stream.session?.destroy()));
+  const address = await listen(server);
+  const { cli, calls } = countingCli(fakeDevice());
+  setBackend(createCompanionBackend(cli, [{ udid: UDID, address }]));
+
+  const result = await callTool("tap", { udid: UDID, x: 10, y: 10 });
+  assert.equal(result.isError, true);
+  assert.equal(result.structuredContent?.code, "UNKNOWN");
+  assert.match(textOf(result), /dropped during \/idb.CompanionService\/hid, which may have run/);
+  assert.match(String(result.structuredContent?.hint), /may have happened/);
+  assert.deepEqual(calls, []);
+});
+
+test("GrpcChannel reports refused connections as UNAVAILABLE", async () => {
+  await assert.rejects(new GrpcChannel("127.0.0.1:1").call("/idb.CompanionService/describe", [Buffer.alloc(0)], 2000), {
+    code: GrpcStatus.UNAVAILABLE,
+  });
+});
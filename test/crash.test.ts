@@ -0,0 +1,43 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  return textOf(result);
+};
+
+before(async () => {
+  process.env.IOS_SIM_CRASH_CHECK = "1";
+  useFakeDevice();
+  await call("launch_app", { bundleId: "com.example.app" });
+  await call("open_url", { url: "example://settings" });
+});
+
+after(() => {
+  delete process.env.IOS_SIM_CRASH_CHECK;
+});
+
+test("a call that crashes the app reports the crash", async () => {
+  const text = await call("tap_element", { label: "Reset Data" });
+  assert.match(text, /App crashed: Example \(com\.example\.app\) - EXC_BREAKPOINT/);
+  assert.match(text, /Reason: Fatal error: Unexpectedly found nil while unwrapping an Optional value/);
+  assert.doesNotMatch(await call("launch_app", { bundleId: "com.example.app" }), /App crashed/);
+});
+
+test("list_crashes, get_crash and clear_crashes", async () => {
+  const crashes = JSON.parse(await call("list_crashes", { bundleId: "com.example.app" }));
+  assert.equal(crashes.length, 1);
+  assert.deepEqual(JSON.parse(await call("list_crashes", { bundleId: "com.example.other" })), []);
+
+  const result = await callTool("get_crash", { udid: UDID, name: crashes[0].name, raw: true });
+  const summary = JSON.parse(textOf({ content: [result.content[0]] }));
+  assert.equal(summary.bundleId, "com.example.app");
+  assert.equal(summary.exceptionType, "EXC_BREAKPOINT (SIGTRAP)");
+  assert.equal(result.content.length, 2);
+
+  assert.equal(await call("clear_crashes"), "Deleted 1 crash report");
+  assert.deepEqual(JSON.parse(await call("list_crashes")), []);
+});
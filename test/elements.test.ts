@@ -0,0 +1,55 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { screenLabels, startServer, UDID, type TestServer } from "./helpers.js";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startServer();
+  await server.text("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+after(async () => {
+  await server.close();
+});
+
+async function elementId(label: string, type: string): Promise<string> {
+  const elements = JSON.parse(await server.text("describe_screen", { udid: UDID }));
+  return elements.find((e: any) => e.label === label && e.type === type).id;
+}
+
+test("describe_screen gives every element a stable ID", async () => {
+  const first = JSON.parse(await server.text("describe_screen", { udid: UDID }));
+  const second = JSON.parse(await server.text("describe_screen", { udid: UDID }));
+  assert.ok(first.every((e: any) => /^e[0-9a-f]{8}/.test(e.id)));
+  assert.equal(new Set(first.map((e: any) => e.id)).size, first.length);
+  assert.deepEqual(second.map((e: any) => e.id), first.map((e: any) => e.id));
+});
+
+test("describe_screen tree mode nests children and can start at an element", async () => {
+  const tree = JSON.parse(await server.text("describe_screen", { udid: UDID, mode: "tree" }));
+  assert.equal(tree.length, 1);
+  assert.equal(tree[0].type, "Application");
+  assert.deepEqual(tree[0].children.map((c: any) => c.label), ["Sign In", "Email", "Password", "Sign In"]);
+
+  const email = await elementId("Email", "TextField");
+  const subtree = JSON.parse(await server.text("describe_screen", { udid: UDID, element: email }));
+  assert.deepEqual(subtree.map((e: any) => e.label), ["Email"]);
+});
+
+test("describe_point and selectors accept element IDs", async () => {
+  const password = await elementId("Password", "SecureTextField");
+  assert.equal(JSON.parse(await server.text("describe_point", { udid: UDID, element: password })).AXLabel, "Password");
+  const found = JSON.parse(await server.text("find_elements", { udid: UDID, selector: { id: password } }));
+  assert.deepEqual(found.map((e: any) => e.label), ["Password"]);
+});
+
+test("tap by element ID", async () => {
+  await server.text("tap", { udid: UDID, element: await elementId("Sign In", "Button") });
+  assert.ok((await screenLabels(server)).includes("Welcome"));
+});
+
+test("unknown element IDs and missing coordinates are reported", async () => {
+  assert.match(await server.error("tap", { udid: UDID, element: "e00000000" }), /No element with ID "e00000000"/);
+  assert.match(await server.error("tap", { udid: UDID, x: 10 }), /x and y are required unless element/);
+});
@@ -0,0 +1,87 @@
+import { beforeEach, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { classifyMessage, toToolError, ToolError } from "../src/errors.js";
+import { callTool } from "../src/tools.js";
+import { startServer, textOf, UDID, useFakeDevice } from "./helpers.js";
+
+async function failure(name: string, args: Record<string, unknown> = {}): Promise<Record<string, any>> {
+  const result = await callTool(name, args);
+  assert.equal(result.isError, true, textOf(result));
+  return result.structuredContent!;
+}
+
+beforeEach(async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+test("classifyMessage recognizes idb and simctl failures", () => {
+  assert.equal(classifyMessage("Unable to boot device in current state: Shutdown"), "SIMULATOR_NOT_BOOTED");
+  assert.equal(classifyMessage("App com.example.missing is not installed"), "APP_NOT_INSTALLED");
+  assert.equal(classifyMessage("Failed to connect to companion at localhost:10882"), "COMPANION_UNREACHABLE");
+  assert.equal(classifyMessage("Deadline Exceeded"), "TIMEOUT");
+  assert.equal(classifyMessage("something else"), "UNKNOWN");
+});
+
+test("toToolError keeps ToolErrors and classifies the rest", () => {
+  const error = new ToolError("ELEMENT_NOT_FOUND", "gone");
+  assert.equal(toToolError(error), error);
+  assert.equal(toToolError(new Error("Simulator is not booted")).code, "SIMULATOR_NOT_BOOTED");
+  assert.equal(toToolError("timed out").retryable, true);
+  assert.equal(error.retryable, false);
+  assert.match(error.hint!, /describe_screen/);
+});
+
+test("failed calls carry the code, hint and retryable flag", async () => {
+  const notBooted = await failure("tap", { udid: "FAKE-IPAD-AIR", x: 1, y: 1 });
+  assert.equal(notBooted.code, "SIMULATOR_NOT_BOOTED");
+  assert.match(notBooted.hint, /boot_simulator/);
+  assert.equal(notBooted.retryable, false);
+
+  assert.equal((await failure("tap_element", { udid: UDID, label: "Nowhere" })).code, "ELEMENT_NOT_FOUND");
+  assert.equal((await failure("launch_app", { udid: UDID, bundleId: "com.example.missing" })).code, "APP_NOT_INSTALLED");
+  assert.equal((await failure("no_such_tool")).code, "INVALID_ARGUMENT");
+});
+
+test("calls made out of order are PRECONDITION_FAILED", async () => {
+  assert.equal((await failure("export_session", { format: "flow" })).code, "PRECONDITION_FAILED");
+  assert.equal((await failure("stop_recording", { udid: UDID })).code, "PRECONDITION_FAILED");
+  const audit = await failure("accessibility_audit", { scope: "session" });
+  assert.equal(audit.code, "PRECONDITION_FAILED");
+  assert.match(audit.hint, /start_session_recording with audit: true/);
+});
+
+test("validation failures are INVALID_ARGUMENT and keep their issues", async () => {
+  const result = await failure("swipe", { udid: UDID, startX: 0, startY: 0, endX: 1, endY: 1, duration: 50 });
+  assert.equal(result.code, "INVALID_ARGUMENT");
+  assert.equal(result.error, "validation");
+  assert.deepEqual(result.issues, [{ path: "duration", message: "must be >= 100" }]);
+});
+
+test("wait_for and run_flow failures report the failing condition and step", async () => {
+  const wait = await failure("wait_for", { udid: UDID, condition: "exists", label: "Nowhere", timeout: 100 });
+  assert.equal(wait.code, "TIMEOUT");
+  assert.equal(wait.retryable, true);
+
+  const flow = await failure("run_flow", {
+    flow: JSON.stringify({ name: "Missing", steps: [{ tapElement: { label: "Nowhere" } }] }),
+    udid: UDID,
+  });
+  assert.equal(flow.code, "ELEMENT_NOT_FOUND");
+  assert.match(flow.message, /Flow 'Missing' failed at step 1/);
+
+  const assertion = await failure("run_flow", { flow: JSON.stringify({ steps: [{ assert: { label: "Welcome" } }] }), udid: UDID });
+  assert.equal(assertion.code, "ASSERTION_FAILED");
+});
+
+test("a missing idb is IDB_NOT_FOUND", async () => {
+  const server = await startServer({ IOS_SIM_BACKEND: "idb", IDB_PATH: "/nonexistent/idb" });
+  try {
+    const result = await server.call("list_simulators");
+    assert.equal(result.isError, true);
+    assert.equal(result.structuredContent?.code, "IDB_NOT_FOUND");
+    assert.match(textOf(result), /idb was not found at '\/nonexistent\/idb'/);
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,94 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { screenLabels, startServer, UDID, type TestServer } from "./helpers.js";
+
+// Every device tool, end to end against the scripted device in examples/fake-device.json
+
+let server: TestServer;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("list_simulators lists the model's simulators", async () => {
+  const simulators = JSON.parse(await server.text("list_simulators"));
+  assert.deepEqual(
+    simulators.map((s: any) => [s.udid, s.state]),
+    [
+      ["FAKE-IPHONE-16", "Booted"],
+      ["FAKE-IPAD-AIR", "Shutdown"],
+    ]
+  );
+});
+
+test("boot_simulator and shutdown_simulator change the boot state", async () => {
+  await server.text("boot_simulator", { udid: "FAKE-IPAD-AIR" });
+  const state = async () => JSON.parse(await server.text("list_simulators")).find((s: any) => s.udid === "FAKE-IPAD-AIR").state;
+  assert.equal(await state(), "Booted");
+  await server.text("shutdown_simulator", { udid: "FAKE-IPAD-AIR" });
+  assert.equal(await state(), "Shutdown");
+});
+
+test("launch_app opens the app's first screen and list_apps shows it running", async () => {
+  await server.text("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  assert.ok((await screenLabels(server)).includes("Email"));
+  assert.match(await server.text("list_apps", { udid: UDID }), /"running": true/);
+});
+
+test("get_screen_size reports points and pixels", async () => {
+  const size = JSON.parse(await server.text("get_screen_size", { udid: UDID }));
+  assert.deepEqual(size.points, { width: 393, height: 852 });
+  assert.deepEqual(size.pixels, { width: 1179, height: 2556 });
+});
+
+test("screenshot returns a PNG", async () => {
+  const result = await server.call("screenshot", { udid: UDID });
+  const image = result.content[0];
+  assert.equal(image.type, "image");
+  assert.equal(image.mimeType, "image/png");
+  assert.equal(Buffer.from(image.data!, "base64").subarray(1, 4).toString(), "PNG");
+});
+
+test("describe_point and find_elements locate elements", async () => {
+  assert.equal(JSON.parse(await server.text("describe_point", { udid: UDID, x: 100, y: 220 })).AXLabel, "Email");
+  const found = JSON.parse(await server.text("find_elements", { udid: UDID, label: "Password" }));
+  assert.equal(found.length, 1);
+});
+
+test("tap focuses a field, type_text types into it and press_key deletes", async () => {
+  await server.text("tap", { udid: UDID, x: 100, y: 220 });
+  await server.text("type_text", { udid: UDID, text: "user@test.com" });
+  await server.text("press_key", { udid: UDID, key: "delete" });
+  assert.equal(JSON.parse(await server.text("describe_point", { udid: UDID, x: 100, y: 220 })).AXValue, "user@test.co");
+});
+
+test("swipe succeeds", async () => {
+  await server.text("swipe", { udid: UDID, startX: 200, startY: 600, endX: 200, endY: 200 });
+});
+
+test("tap_element follows the model's transitions", async () => {
+  await server.text("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+  assert.ok((await screenLabels(server)).includes("Welcome"));
+});
+
+test("open_url routes deep links", async () => {
+  await server.text("open_url", { udid: UDID, url: "example://settings" });
+  assert.ok((await screenLabels(server)).includes("Notifications"));
+});
+
+test("press_button home and terminate_app return to the home screen", async () => {
+  await server.text("press_button", { udid: UDID, button: "home" });
+  assert.deepEqual(await screenLabels(server), ["SpringBoard", "Example"]);
+  await server.text("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  await server.text("terminate_app", { udid: UDID, bundleId: "com.example.app" });
+  assert.ok((await screenLabels(server)).includes("SpringBoard"));
+  assert.doesNotMatch(await server.text("list_apps", { udid: UDID }), /"running": true/);
+});
+
+test("calls on a shut down simulator fail", async () => {
+  assert.match(await server.error("tap", { udid: "FAKE-IPAD-AIR", x: 1, y: 1 }), /not booted/);
+});
@@ -0,0 +1,133 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { setBackend } from "../src/backend.js";
+import { toVCard } from "../src/fixtures.js";
+import { callTool } from "../src/tools.js";
+import type { Coordinate } from "../src/types.js";
+import { fakeDevice, ROOT, textOf, UDID } from "./helpers.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-fixtures-"));
+
+// What reached the device
+const locations: Coordinate[] = [];
+const permissions: string[] = [];
+const media: string[] = [];
+let keychainClears = 0;
+// Makes the device refuse location updates
+let locationError: string | null = null;
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  return textOf(result);
+};
+const error = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, true, textOf(result));
+  return textOf(result);
+};
+
+before(() => {
+  const device = fakeDevice();
+  setBackend({
+    ...device,
+    async setLocation(udid, location) {
+      if (locationError) throw new Error(locationError);
+      locations.push(location);
+      await device.setLocation(udid, location);
+    },
+    async setPermission(udid, action, service, bundleId) {
+      permissions.push(`${action} ${service} ${bundleId}`);
+      await device.setPermission(udid, action, service, bundleId);
+    },
+    async addMedia(udid, files) {
+      media.push(...files.map((file) => fs.readFileSync(file, "utf8")));
+      await device.addMedia(udid, files);
+    },
+    async clearKeychain(udid) {
+      keychainClears++;
+      await device.clearKeychain(udid);
+    },
+  });
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("set_location sets a fixed location", async () => {
+  assert.equal(await call("set_location", { latitude: 37.33, longitude: -122.03 }), "Location set to 37.33, -122.03");
+  assert.deepEqual(locations.splice(0), [{ latitude: 37.33, longitude: -122.03 }]);
+  assert.match(await error("set_location", { latitude: 91, longitude: 0 }), /latitude/);
+});
+
+test("set_location plays a route to its last waypoint", async () => {
+  const route = [
+    { latitude: 51.5, longitude: -0.12 },
+    { latitude: 51.501, longitude: -0.12 },
+  ];
+  assert.match(await call("set_location", { route, speed: 1000 }), /^Playing route of 2 waypoints \(111 m\) at 1000 m\/s/);
+  await new Promise((resolve) => setTimeout(resolve, 1300));
+  assert.deepEqual(locations.splice(0), route);
+  assert.equal(await call("set_location", { latitude: 1, longitude: 2 }), "Location set to 1, 2");
+  locations.splice(0);
+});
+
+test("a route that fails in the background is reported by the next set_location", async () => {
+  const route = [
+    { latitude: 51.5, longitude: -0.12 },
+    { latitude: 51.6, longitude: -0.12 },
+  ];
+  assert.match(await call("set_location", { route }), /^Playing route/);
+  locationError = "Location simulation is not available";
+  await new Promise((resolve) => setTimeout(resolve, 1300));
+  locationError = null;
+  assert.equal(await call("set_location", { latitude: 1, longitude: 2 }), "Location set to 1, 2 (the previous route stopped early: Location simulation is not available)");
+  // Reported once
+  assert.equal(await call("set_location", { latitude: 1, longitude: 2 }), "Location set to 1, 2");
+  locations.splice(0);
+});
+
+test("set_permission grants services and rejects unknown ones", async () => {
+  assert.equal(await call("set_permission", { bundleId: "com.example.app", services: ["photos", "microphone"], action: "grant" }), "Granted photos, microphone for com.example.app");
+  assert.deepEqual(permissions.splice(0), ["grant photos com.example.app", "grant microphone com.example.app"]);
+  assert.match(await error("set_permission", { bundleId: "com.example.app", services: ["teleport"], action: "grant" }), /services\[0\] must be one of/);
+});
+
+test("add_media and add_contacts import files", async () => {
+  const photo = path.join(dir, "cat.png");
+  fs.writeFileSync(photo, "png");
+  assert.equal(await call("add_media", { paths: [photo] }), "Added 1 file to the simulator");
+  assert.match(await error("add_media", { paths: [path.join(dir, "notes.txt")] }), /Media file not found/);
+
+  assert.equal(await call("add_contacts", { contacts: [{ firstName: "Grace", lastName: "Hopper", phones: ["+1 555"] }] }), "Added 1 contact");
+  assert.match(media[1], /^BEGIN:VCARD\r\nVERSION:3\.0\r\nN:Hopper;Grace;;;\r\nFN:Grace Hopper\r\nTEL;TYPE=CELL:\+1 555\r\nEND:VCARD\r\n$/);
+  media.splice(0);
+});
+
+test("toVCard escapes separators and needs a name", () => {
+  assert.match(toVCard([{ organization: "Acme, Inc; Ltd" }]), /FN:Acme\\, Inc\\; Ltd/);
+  assert.throws(() => toVCard([{ phones: ["1"] }]), /contacts\[0\] needs a firstName, lastName or organization/);
+});
+
+test("clear_keychain resets the keychain", async () => {
+  assert.equal(await call("clear_keychain"), "Cleared the keychain");
+  assert.equal(keychainClears, 1);
+});
+
+test("apply_fixture applies every section in order", async () => {
+  const applied = await call("apply_fixture", { path: path.join(ROOT, "examples/fixture.json") });
+  assert.deepEqual(applied.split("\n").map((line) => line.split(" ")[0]), ["Cleared", "Granted", "Revoked", "Added", "Playing"]);
+  assert.equal(keychainClears, 2);
+  assert.deepEqual(permissions.splice(0), [
+    "grant photos com.example.app",
+    "grant location com.example.app",
+    "revoke contacts com.example.app",
+  ]);
+  await call("set_location", { latitude: 0, longitude: 0 });
+  assert.match(await error("apply_fixture", { fixture: { permissions: { "com.example.app": { photos: "allow" } } } }), /must be one of: grant, revoke, reset/);
+  assert.equal(await call("apply_fixture", { fixture: {} }), "Fixture is empty; nothing applied");
+});
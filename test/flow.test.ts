@@ -0,0 +1,133 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { promisify } from "util";
+import * as idb from "../src/idb.js";
+import { setBackend } from "../src/backend.js";
+import { flattenElements } from "../src/elements.js";
+import { loadFlow, parseFlow, runFlow } from "../src/flow.js";
+import { CLI, FAKE_MODEL, fakeDevice, ROOT, startServer, textOf, UDID, useFakeDevice, type TestServer } from "./helpers.js";
+
+const LOGIN_FLOW = path.join(ROOT, "examples/login-flow.yaml");
+const artifactsDir = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-flow-"));
+
+let server: TestServer;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+  fs.rmSync(artifactsDir, { recursive: true, force: true });
+});
+
+async function labels(): Promise<string[]> {
+  return flattenElements(await idb.describeTree(UDID)).map((e) => e.label ?? "").filter(Boolean);
+}
+
+test("the example login flow passes", async () => {
+  useFakeDevice();
+  const result = await runFlow(loadFlow(LOGIN_FLOW), { udid: UDID, artifactsDir });
+  assert.equal(result.passed, true, JSON.stringify(result.steps.filter((s) => s.status === "failed")));
+  assert.equal(result.name, "Login");
+  assert.equal(result.steps.length, 9);
+  assert.ok((await labels()).includes("Welcome"));
+});
+
+test("a failed assertion stops the flow and skips the rest", async () => {
+  useFakeDevice();
+  const flow = parseFlow(`
+steps:
+  - launchApp: com.example.app
+  - assert: { label: Welcome }
+    onFailure: screenshot
+  - tapElement: Sign In
+`);
+  const result = await runFlow(flow, { udid: UDID, artifactsDir });
+  assert.equal(result.passed, false);
+  assert.deepEqual(result.steps.map((s) => s.status), ["passed", "failed", "skipped"]);
+  assert.match(result.steps[1].error ?? "", /Assertion failed: 0 element\(s\)/);
+  assert.ok(fs.existsSync(result.steps[1].screenshot!));
+});
+
+test("retries repeat a failing step", async () => {
+  useFakeDevice();
+  const flow = parseFlow("steps:\n  - launchApp: com.example.app\n  - tapElement: { label: Register }\n    retry: 1\n");
+  const [, step] = (await runFlow(flow, { udid: UDID, artifactsDir })).steps;
+  assert.equal(step.status, "failed");
+  assert.equal(step.attempts, 2);
+  assert.match(step.error ?? "", /No element matches/);
+});
+
+test("a step that outlives its timeout fails", async () => {
+  const device = fakeDevice();
+  setBackend({
+    ...device,
+    async tap(udid, x, y) {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      await device.tap(udid, x, y);
+    },
+  });
+  const [step] = (await runFlow(parseFlow("steps:\n  - tap: { x: 10, y: 10 }\n    timeout: 50\n"), { udid: UDID, artifactsDir })).steps;
+  assert.equal(step.status, "failed");
+  assert.match(step.error ?? "", /timed out after 50ms/);
+});
+
+test("a timed-out step that completes late is not retried", async () => {
+  const device = fakeDevice();
+  let taps = 0;
+  setBackend({
+    ...device,
+    async tap(udid, x, y) {
+      taps++;
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      await device.tap(udid, x, y);
+    },
+  });
+  const flow = parseFlow("steps:\n  - tap: { x: 10, y: 10 }\n    timeout: 50\n    retry: 2\n");
+  const [step] = (await runFlow(flow, { udid: UDID, artifactsDir })).steps;
+  assert.equal(step.status, "failed");
+  assert.equal(step.attempts, 1);
+  assert.equal(taps, 1);
+});
+
+test("malformed flows are rejected before anything runs", () => {
+  assert.throws(() => parseFlow("steps:\n  - tapp: { x: 1, y: 1 }\n"), /unknown action 'tapp'/);
+  assert.throws(() => parseFlow("steps:\n  - tap: { x: 1, y: 1 }\n    launchApp: com.example.app\n"), /exactly one action/);
+  assert.throws(() => parseFlow("steps:\n  - tap: { x: 1, y: 1 }\n    retry: 11\n"), /retry/);
+  assert.throws(() => parseFlow("name: no steps\n"), /'steps' list/);
+});
+
+test("variables are interpolated and undefined ones fail their step", async () => {
+  useFakeDevice();
+  const flow = parseFlow("steps:\n  - launchApp: com.example.app\n  - tapElement: { label: Email, type: TextField }\n  - typeText: ${email}\n");
+  assert.equal((await runFlow(flow, { udid: UDID, vars: { email: "a@b.c" }, artifactsDir })).passed, true);
+  assert.equal((await idb.describeTree(UDID))[0].children[1].value, "a@b.c");
+
+  const [step] = (await runFlow(parseFlow("steps:\n  - typeText: ${missing}\n"), { udid: UDID, artifactsDir })).steps;
+  assert.equal(step.status, "failed");
+  assert.match(step.error ?? "", /Undefined flow variable \$\{missing\}/);
+});
+
+test("run_flow runs an inline flow over MCP", async () => {
+  const flow = "steps:\n  - launchApp: com.example.app\n  - assert: { label: Email }\n";
+  const result = JSON.parse(await server.text("run_flow", { udid: UDID, flow, artifactsDir }));
+  assert.equal(result.passed, true);
+
+  const failed = await server.call("run_flow", { udid: UDID, flow: "steps:\n  - assert: { label: Nowhere }\n", artifactsDir });
+  assert.equal(failed.isError, true);
+  assert.equal(JSON.parse(textOf(failed)).passed, false);
+  assert.match(await server.error("run_flow", { udid: UDID }), /path or flow is required/);
+});
+
+test("ios-sim-flow runs a flow file and exits 0 when it passes", async () => {
+  const { stdout } = await promisify(execFile)(process.execPath, [CLI, LOGIN_FLOW, "--udid", UDID, "--artifacts", artifactsDir], {
+    env: { ...process.env, IOS_SIM_BACKEND: "fake", IOS_SIM_FAKE_MODEL: FAKE_MODEL },
+  });
+  assert.match(stdout, /✓ 7\. Submit/);
+  assert.match(stdout, /PASSED: Login - 9\/9 steps/);
+});
@@ -0,0 +1,66 @@
+import { beforeEach, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as idb from "../src/idb.js";
+import { setBackend } from "../src/backend.js";
+import { parseFlow, runFlow } from "../src/flow.js";
+import { callTool } from "../src/tools.js";
+import { fakeDevice, textOf, UDID, useFakeDevice } from "./helpers.js";
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.ok(!result.isError, textOf(result));
+  return JSON.parse(textOf(result));
+};
+
+async function values(): Promise<(string | null)[]> {
+  return (await idb.describeTree(UDID))[0].children.slice(1, 3).map((field) => field.value);
+}
+
+beforeEach(async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+test("fill_field focuses, clears, types and verifies", async () => {
+  const first = await call("fill_field", { label: "Email", text: "old@test.com" });
+  assert.deepEqual([first.type, first.expected, first.actual, first.verified], ["TextField", "old@test.com", "old@test.com", true]);
+
+  const second = await call("fill_field", { label: "Email", text: "new@test.com" });
+  assert.equal(second.verified, true);
+  assert.deepEqual(await values(), ["new@test.com", null]);
+});
+
+test("fill_form fills fields in order, masks secure ones and submits", async () => {
+  const results = await call("fill_form", { fields: { Email: "user@test.com", Password: "secret" }, submit: true });
+  assert.deepEqual(
+    results.map((r: any) => [r.label, r.expected, r.verified]),
+    [
+      ["Email", "user@test.com", true],
+      ["Password", "••••••", true],
+    ]
+  );
+  assert.deepEqual(await values(), ["user@test.com", "••••••"]);
+});
+
+test("fill_field reports a value the app changed", async () => {
+  const device = fakeDevice();
+  setBackend({ ...device, typeText: (udid, text) => device.typeText(udid, text[0].toUpperCase() + text.slice(1)) });
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+
+  const result = await callTool("fill_field", { udid: UDID, label: "Email", text: "user@test.com" });
+  assert.equal(result.isError, true);
+  const body = JSON.parse(textOf(result));
+  assert.equal(body.actual, "User@test.com");
+  assert.match(body.problem, /autocorrect, autocapitalization or a formatter/);
+});
+
+test("fill_form rejects non-string values", async () => {
+  assert.match(textOf(await callTool("fill_form", { udid: UDID, fields: { Email: 42 } })), /fields\.Email must be a string/);
+});
+
+test("flows fill fields with fillField", async () => {
+  const flow = parseFlow("steps:\n  - fillField: { label: Password, text: hunter2, submit: true }\n");
+  const result = await runFlow(flow, { udid: UDID });
+  assert.equal(result.passed, true, result.steps[0].error);
+  assert.deepEqual(await values(), [null, "•••••••"]);
+});
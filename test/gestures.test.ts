@@ -0,0 +1,74 @@
+import { before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { setBackend } from "../src/backend.js";
+import { callTool } from "../src/tools.js";
+import { fakeDevice, textOf, UDID } from "./helpers.js";
+
+// Gestures as they reach the device
+const gestures: string[] = [];
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  return textOf(result);
+};
+
+before(async () => {
+  const device = fakeDevice();
+  setBackend({
+    ...device,
+    async tap(udid, x, y) {
+      gestures.push(`tap ${x},${y}`);
+      await device.tap(udid, x, y);
+    },
+    async longPress(udid, x, y, durationMs) {
+      gestures.push(`longPress ${x},${y} ${durationMs}`);
+      await device.longPress(udid, x, y, durationMs);
+    },
+    async drag(udid, startX, startY, endX, endY, holdMs) {
+      gestures.push(`drag ${startX},${startY} ${endX},${endY} ${holdMs}`);
+      await device.drag(udid, startX, startY, endX, endY, holdMs);
+    },
+    async swipe(udid, startX, startY, endX, endY, duration) {
+      gestures.push(`swipe ${startX},${startY} ${endX},${endY} ${duration}`);
+      await device.swipe(udid, startX, startY, endX, endY, duration);
+    },
+  });
+  await call("launch_app", { bundleId: "com.example.app" });
+});
+
+test("long_press and double_tap act on points and elements", async () => {
+  const [email] = JSON.parse(await call("find_elements", { selector: { type: "TextField" } }));
+  assert.equal(await call("long_press", { element: email.id, duration: 600 }), "Long pressed at (197, 222) for 600ms");
+  assert.equal(await call("double_tap", { x: 10, y: 20 }), "Double tapped at (10, 20)");
+  assert.deepEqual(gestures.splice(0), ["longPress 197,222 600", "tap 10,20", "tap 10,20"]);
+});
+
+test("drag_and_drop holds, then moves between two points", async () => {
+  const [password] = JSON.parse(await call("find_elements", { selector: { type: "SecureTextField" } }));
+  await call("drag_and_drop", { from: { x: 100, y: 100 }, to: { element: password.id } });
+  assert.deepEqual(gestures.splice(0), ["drag 100,100 197,282 800"]);
+  assert.match(textOf(await callTool("drag_and_drop", { udid: UDID, from: { x: 1 }, to: { x: 1, y: 1 } })), /from\.x and y are required/);
+});
+
+test("edge_swipe starts at the screen edge", async () => {
+  assert.equal(await call("edge_swipe", { edge: "left" }), "Swiped in from the left edge");
+  assert.equal(await call("edge_swipe", { edge: "bottom" }), "Swiped in from the bottom edge");
+  assert.deepEqual(gestures.splice(0), ["swipe 1,426 275,426 300", "swipe 197,851 197,341 300"]);
+});
+
+test("scroll_to_element swipes until the element is fully visible", async () => {
+  await call("open_url", { url: "example://settings" });
+  const result = JSON.parse(await call("scroll_to_element", { label: "Version 1.0" }));
+  assert.equal(result.found, true);
+  assert.equal(result.swipes, 2);
+  assert.deepEqual(result.viewport, { x: 0, y: 150, width: 393, height: 702 });
+  assert.ok(result.element.frame.y + result.element.frame.height <= 852);
+  assert.deepEqual(gestures.splice(0), ["swipe 197,677 197,325 500", "swipe 197,677 197,325 500"]);
+});
+
+test("scroll_to_element stops at the end of the content", async () => {
+  const result = await callTool("scroll_to_element", { udid: UDID, label: "Nowhere" });
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /reached the end of the content after 2 swipes\. Try direction "up"/);
+});
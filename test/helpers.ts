@@ -0,0 +1,90 @@
+import * as path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { setBackend, type DeviceBackend } from "../src/backend.js";
+import { createFakeBackend, loadFakeModel } from "../src/fake-backend.js";
+
+// Shared setup for the tests: the server, built next to them, runs as a child
+// process against the fake backend and is driven by an MCP client over stdio.
+// Modules that can be driven in-process use a fake device installed with useFakeDevice.
+// Tests run from dist/tests/test, so paths are resolved from the repository root.
+
+export const ROOT = path.resolve(__dirname, "../../..");
+export const FAKE_MODEL = path.join(ROOT, "examples/fake-device.json");
+export const SERVER = path.resolve(__dirname, "../src/index.js");
+export const CLI = path.resolve(__dirname, "../src/cli.js");
+export const UDID = "FAKE-IPHONE-16";
+
+export interface ToolResult {
+  content: { type: string; text?: string; data?: string; mimeType?: string }[];
+  isError?: boolean;
+  structuredContent?: Record<string, any>;
+}
+
+export interface TestServer {
+  client: Client;
+  call(name: string, args?: Record<string, unknown>): Promise<ToolResult>;
+  // Text of a call that must succeed
+  text(name: string, args?: Record<string, unknown>): Promise<string>;
+  // Text of a call that must fail
+  error(name: string, args?: Record<string, unknown>): Promise<string>;
+  close(): Promise<void>;
+}
+
+export function textOf(result: ToolResult): string {
+  return result.content.map((c) => c.text ?? "").join("\n");
+}
+
+// Start a server on a fresh fake device. env is added to the server's environment.
+export async function startServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER],
+    env: { ...(process.env as Record<string, string>), IOS_SIM_BACKEND: "fake", IOS_SIM_FAKE_MODEL: FAKE_MODEL, ...env },
+    stderr: "ignore",
+  });
+  const client = new Client({ name: "tests", version: "1.0.0" });
+  await client.connect(transport);
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => (await client.callTool({ name, arguments: args })) as ToolResult;
+  return {
+    client,
+    call,
+    async text(name, args) {
+      const result = await call(name, args);
+      if (result.isError) throw new Error(`${name} failed: ${textOf(result)}`);
+      return textOf(result);
+    },
+    async error(name, args) {
+      const result = await call(name, args);
+      if (!result.isError) throw new Error(`${name} succeeded: ${textOf(result)}`);
+      return textOf(result);
+    },
+    close: () => client.close(),
+  };
+}
+
+// Labels on the current screen, from describe_screen
+export async function screenLabels(server: TestServer, udid = UDID): Promise<string[]> {
+  const labels: string[] = [];
+  const walk = (nodes: any[]) => {
+    for (const node of nodes) {
+      const label = node.AXLabel ?? node.label;
+      if (label) labels.push(label);
+      if (node.children) walk(node.children);
+    }
+  };
+  walk(JSON.parse(await server.text("describe_screen", { udid })));
+  return labels;
+}
+
+export function fakeDevice(): DeviceBackend {
+  return createFakeBackend(loadFakeModel(FAKE_MODEL));
+}
+
+// Install a fresh fake device as the backend in-process tool calls go to
+export function useFakeDevice(): DeviceBackend {
+  const device = fakeDevice();
+  setBackend(device);
+  return device;
+}
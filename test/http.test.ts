@@ -0,0 +1,139 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "child_process";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { leaseSimulator, releaseSimulator, runAsClient } from "../src/clients.js";
+import { listSessions, resolveUdid } from "../src/session.js";
+import { callTool } from "../src/tools.js";
+import { FAKE_MODEL, SERVER, textOf, UDID, useFakeDevice, type ToolResult } from "./helpers.js";
+
+// HTTP mode: bearer auth and simulator leases between clients
+
+const TOKEN = "test-token";
+let child: ChildProcess;
+let url: string;
+
+before(async () => {
+  child = spawn(process.execPath, [SERVER, "--http", "--port", "0"], {
+    env: { ...process.env, IOS_SIM_BACKEND: "fake", IOS_SIM_FAKE_MODEL: FAKE_MODEL, IOS_SIM_HTTP_TOKEN: TOKEN },
+    stdio: ["ignore", "ignore", "pipe"],
+  });
+  url = await new Promise((resolve, reject) => {
+    let stderr = "";
+    child.stderr!.on("data", (chunk) => {
+      stderr += chunk;
+      const match = stderr.match(/listening on (http:\S+)/);
+      if (match) resolve(match[1]);
+    });
+    child.on("exit", () => reject(new Error(`server exited: ${stderr}`)));
+  });
+});
+
+after(() => {
+  child.kill();
+});
+
+interface HttpClient {
+  client: Client;
+  transport: StreamableHTTPClientTransport;
+  call(tool: string, args?: object): Promise<ToolResult>;
+}
+
+async function connect(name: string): Promise<HttpClient> {
+  const transport = new StreamableHTTPClientTransport(new URL(url), { requestInit: { headers: { authorization: `Bearer ${TOKEN}` } } });
+  const client = new Client({ name, version: "1.0.0" });
+  await client.connect(transport);
+  return { client, transport, call: async (tool, args = {}) => (await client.callTool({ name: tool, arguments: { ...args } })) as ToolResult };
+}
+
+// End the session, which releases what the client holds, so tests don't leak leases
+async function disconnect({ client, transport }: HttpClient): Promise<void> {
+  if (transport.sessionId) await transport.terminateSession();
+  await client.close();
+}
+
+test("requests without the bearer token are refused", async () => {
+  const initialize = { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "x", version: "1" } } };
+  for (const authorization of [undefined, "Bearer wrong", TOKEN]) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", accept: "application/json, text/event-stream", ...(authorization ? { authorization } : {}) },
+      body: JSON.stringify(initialize),
+    });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get("www-authenticate") ?? "", /^Bearer/);
+  }
+});
+
+test("a leased simulator is refused to other clients until the lease is released", async () => {
+  const alice = await connect("alice");
+  const bob = await connect("bob");
+  try {
+    assert.ok(!(await alice.call("lease_simulator", { udid: UDID, minutes: 5 })).isError);
+
+    const refused = await bob.call("tap", { udid: UDID, x: 1, y: 1 });
+    assert.equal(refused.isError, true);
+    assert.equal(refused.structuredContent?.code, "SIMULATOR_LEASED");
+    assert.match(textOf(refused), /in use by another client \(alice\)/);
+    const sessions = JSON.parse(textOf(await bob.call("list_sessions")));
+    assert.equal(sessions.find((s: any) => s.udid === UDID).lease.holder, "alice");
+
+    assert.ok(!(await alice.call("release_simulator")).isError);
+    assert.ok(!(await bob.call("tap", { udid: UDID, x: 1, y: 1 })).isError);
+  } finally {
+    await disconnect(alice);
+    await disconnect(bob);
+  }
+});
+
+test("ending a session releases its simulators", async () => {
+  const alice = await connect("alice");
+  const bob = await connect("bob");
+  try {
+    await alice.call("lease_simulator", { udid: UDID });
+    await alice.transport.terminateSession();
+    assert.ok(!(await bob.call("tap", { udid: UDID, x: 1, y: 1 })).isError);
+  } finally {
+    await disconnect(alice);
+    await disconnect(bob);
+  }
+});
+
+test("clients are only offered simulators nobody else holds", async () => {
+  useFakeDevice();
+  const alice = { id: "a", name: "alice" };
+  const bob = { id: "b", name: "bob" };
+  // Alice uses the only booted simulator, which holds it for her
+  assert.equal(await runAsClient(alice, () => resolveUdid()), UDID);
+  await assert.rejects(
+    runAsClient(bob, () => resolveUdid()),
+    (error: any) => error.code === "SIMULATOR_LEASED"
+  );
+  assert.equal((await runAsClient(alice, () => listSessions()))[0].lease?.holder, "you");
+  assert.equal(runAsClient(alice, () => leaseSimulator(UDID, 10)).reserved, true);
+  assert.deepEqual(runAsClient(alice, () => releaseSimulator()), [UDID]);
+});
+
+test("session recordings and audit screens are kept per client", async () => {
+  useFakeDevice();
+  const alice = { id: "rec-a", name: "alice" };
+  const bob = { id: "rec-b", name: "bob" };
+  await runAsClient(alice, async () => {
+    await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+    await callTool("start_session_recording", { audit: true });
+    assert.ok(!(await callTool("tap", { udid: UDID, x: 100, y: 220 })).isError);
+  });
+
+  await runAsClient(bob, async () => {
+    assert.match(textOf(await callTool("stop_session_recording", {})), /\(0 actions recorded\)/);
+    assert.match(textOf(await callTool("export_session", { format: "flow" })), /Nothing recorded/);
+    assert.match(textOf(await callTool("accessibility_audit", { scope: "session" })), /No screens collected/);
+  });
+
+  await runAsClient(alice, async () => {
+    await callTool("stop_session_recording", {});
+    assert.match(textOf(await callTool("export_session", { format: "flow" })), /tap/);
+    assert.equal(JSON.parse(textOf(await callTool("accessibility_audit", { scope: "session" }))).length, 1);
+  });
+});
@@ -0,0 +1,61 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { startServer, textOf, UDID, type TestServer } from "./helpers.js";
+
+// The idb backend against a stand-in idb that records the argv it was given,
+// one NUL-separated line per call
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-idb-"));
+const log = path.join(dir, "argv.log");
+const idbPath = path.join(dir, "idb");
+
+let server: TestServer;
+
+before(async () => {
+  fs.writeFileSync(idbPath, `#!/bin/sh\nprintf '%s\\0' "$@" >> "${log}"\nprintf '\\n' >> "${log}"\n`, { mode: 0o755 });
+  server = await startServer({ IOS_SIM_BACKEND: "idb", IDB_PATH: idbPath });
+});
+
+after(async () => {
+  await server.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function lastArgv(): string[] {
+  const lines = fs.readFileSync(log, "utf8").trimEnd().split("\n");
+  return lines[lines.length - 1].split("\0").slice(0, -1);
+}
+
+test("type_text passes shell metacharacters to idb verbatim", async () => {
+  const text = `a; touch ${path.join(dir, "pwned")} && echo "$HOME" $(id) \`id\``;
+  await server.text("type_text", { udid: UDID, text });
+  assert.deepEqual(lastArgv(), ["ui", "text", "--udid", UDID, "--", text]);
+  assert.equal(fs.existsSync(path.join(dir, "pwned")), false);
+});
+
+test("open_url passes the URL as a single argument", async () => {
+  const url = "example://settings?a=1&b=2|x";
+  await server.text("open_url", { udid: UDID, url });
+  assert.deepEqual(lastArgv(), ["open", "--udid", UDID, "--", url]);
+});
+
+test("values starting with a dash come after the -- separator", async () => {
+  await server.text("type_text", { udid: UDID, text: "--help" });
+  assert.deepEqual(lastArgv(), ["ui", "text", "--udid", UDID, "--", "--help"]);
+});
+
+test("press_keys sends runs of plain keys as one key sequence", async () => {
+  await server.text("press_keys", { udid: UDID, keys: ["h", "i", "enter"] });
+  assert.deepEqual(lastArgv(), ["ui", "key-sequence", "11", "12", "40", "--udid", UDID]);
+});
+
+test("key combos are refused, since the CLI cannot hold modifiers", async () => {
+  const result = await server.call("press_key", { udid: UDID, key: "cmd+a" });
+  assert.equal(result.isError, true);
+  assert.match(textOf(result), /cannot hold modifier keys/);
+  assert.equal(result.structuredContent?.code, "UNSUPPORTED");
+  assert.match(String(result.structuredContent?.hint), /IOS_SIM_COMPANION/);
+});
@@ -0,0 +1,70 @@
+import { before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as idb from "../src/idb.js";
+import { nameForKey, parseKey, textForKey } from "../src/keyboard.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  return textOf(result);
+};
+
+async function emailValue(): Promise<string | null> {
+  return (await idb.describeTree(UDID))[0].children[1].value;
+}
+
+before(async () => {
+  useFakeDevice();
+  await call("launch_app", { bundleId: "com.example.app" });
+  await call("tap", { x: 100, y: 220 });
+});
+
+test("parseKey maps characters, names and combos to HID codes", () => {
+  assert.deepEqual(parseKey("a"), { spec: "a", keycode: 4, modifiers: [] });
+  assert.deepEqual(parseKey("A"), { spec: "A", keycode: 4, modifiers: [225], text: "A" });
+  assert.deepEqual(parseKey("PageDown"), { spec: "PageDown", keycode: 78, modifiers: [] });
+  assert.deepEqual(parseKey("f5"), { spec: "f5", keycode: 62, modifiers: [] });
+  assert.deepEqual(parseKey("cmd+shift+z"), { spec: "cmd+shift+z", keycode: 29, modifiers: [227, 225] });
+  assert.deepEqual(parseKey("ctrl+?"), { spec: "ctrl+?", keycode: 56, modifiers: [224, 225] });
+  assert.deepEqual(parseKey("cmd++"), { spec: "cmd++", keycode: 46, modifiers: [227, 225] });
+});
+
+test("parseKey rejects unknown keys and dangling combos", () => {
+  assert.throws(() => parseKey("hyper+a"), /Unknown key 'hyper' in 'hyper\+a'/);
+  assert.throws(() => parseKey("f13"), /Unknown key 'f13'/);
+  assert.throws(() => parseKey("cmd+"), /no key after the last '\+'/);
+});
+
+test("textForKey and nameForKey describe a parsed key", () => {
+  assert.equal(textForKey(parseKey("a")), "a");
+  assert.equal(textForKey(parseKey("shift+a")), "A");
+  assert.equal(textForKey(parseKey("?")), "?");
+  assert.equal(textForKey(parseKey("space")), " ");
+  assert.equal(textForKey(parseKey("cmd+a")), null);
+  assert.equal(textForKey(parseKey("enter")), null);
+  assert.equal(nameForKey(parseKey("return").keycode), "enter");
+  assert.equal(nameForKey(parseKey("arrowup").keycode), "up");
+  assert.equal(nameForKey(parseKey("a").keycode), null);
+});
+
+test("press_key types single keys into the focused field", async () => {
+  await call("type_text", { text: "abc" });
+  assert.equal(await call("press_key", { key: "backspace" }), "Pressed backspace");
+  assert.equal(await emailValue(), "ab");
+});
+
+test("press_keys runs combos in order", async () => {
+  assert.equal(await call("press_keys", { keys: ["cmd+a", "delete"] }), "Pressed cmd+a, delete");
+  assert.equal(await emailValue(), null);
+  await call("type_text", { text: "old" });
+  await call("press_keys", { keys: ["cmd+a"] });
+  await call("type_text", { text: "new" });
+  assert.equal(await emailValue(), "new");
+});
+
+test("press_keys checks every key before pressing any", async () => {
+  assert.match(textOf(await callTool("press_keys", { udid: UDID, keys: ["delete", "nope"] })), /Unknown key 'nope'/);
+  assert.equal(await emailValue(), "new");
+});
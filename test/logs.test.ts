@@ -0,0 +1,64 @@
+import { before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { parseLogLine } from "../src/logs.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  return JSON.parse(textOf(result));
+};
+
+const messages = (result: { entries: { message: string }[] }) => result.entries.map((e) => e.message);
+
+before(() => {
+  useFakeDevice();
+});
+
+test("parseLogLine reads ndjson and keeps other lines as messages", () => {
+  const entry = parseLogLine(
+    JSON.stringify({ timestamp: "t", messageType: "Error", processImagePath: "/a/b/Example", processID: 7, subsystem: "com.example.app", eventMessage: "boom" }),
+    3
+  );
+  assert.deepEqual(entry, { seq: 3, timestamp: "t", level: "error", process: "Example", pid: 7, subsystem: "com.example.app", category: undefined, message: "boom" });
+  assert.equal(parseLogLine("Filtering the log data", 4).message, "Filtering the log data");
+});
+
+test("read_logs needs a capture", async () => {
+  const result = await callTool("read_logs", { udid: UDID });
+  assert.match(textOf(result), /No log capture for FAKE-IPHONE-16/);
+  assert.equal(result.structuredContent?.code, "PRECONDITION_FAILED");
+  assert.match(String(result.structuredContent?.hint), /Call start_log_capture first/);
+});
+
+test("captured lines are read once by default, or all again with since", async () => {
+  const status = await call("start_log_capture", { bufferSize: 100 });
+  assert.equal(status.capturing, true);
+
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  await callTool("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+  await callTool("open_url", { udid: UDID, url: "nowhere://" });
+
+  const first = await call("read_logs");
+  assert.ok(messages(first).includes("Login succeeded"));
+  assert.deepEqual(messages(await call("read_logs")), []);
+  assert.equal((await call("read_logs", { since: "all" })).entries.length, first.entries.length);
+  assert.deepEqual(messages(await call("read_logs", { cursor: first.cursor - 1 })), ["No handler for nowhere://"]);
+});
+
+test("read_logs filters by app, level and regex", async () => {
+  assert.deepEqual(messages(await call("read_logs", { since: "all", level: "error" })), ["No handler for nowhere://"]);
+  assert.deepEqual(messages(await call("read_logs", { since: "all", regex: "^login" })), ["Login succeeded"]);
+  const fromApp = await call("read_logs", { since: "all", bundleId: "com.example.app" });
+  assert.ok(fromApp.entries.every((e: any) => e.process === "Example"));
+  assert.equal((await call("read_logs", { since: "all", limit: 1 })).entries.length, 1);
+});
+
+test("stop_log_capture keeps the buffer readable", async () => {
+  const status = await call("stop_log_capture");
+  assert.equal(status.capturing, false);
+  const result = await call("read_logs", { since: "all" });
+  assert.equal(result.capturing, false);
+  assert.ok(result.entries.length > 0);
+});
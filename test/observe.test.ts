@@ -0,0 +1,78 @@
+import { beforeEach, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { diffScreens, snapshotScreen } from "../src/observe.js";
+import { getRecordedActions } from "../src/recorder.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+import type { UIElement } from "../src/types.js";
+
+const element = (id: string, label: string, value: string | null = null, y = 0): UIElement => ({
+  id,
+  type: "Button",
+  label,
+  value,
+  frame: { x: 0, y, width: 100, height: 44 },
+  enabled: true,
+});
+
+function deltaOf(text: string): any {
+  const match = /UI delta: (\{[\s\S]*\})$/.exec(text);
+  assert.ok(match, text);
+  return JSON.parse(match[1]);
+}
+
+beforeEach(async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+test("diffScreens matches elements by ID", () => {
+  const before = [element("a", "Keep", "1"), element("b", "Moves"), element("c", "Gone")];
+  const after = [element("a", "Keep", "2"), element("b", "Moves", null, 50), element("d", "New")];
+  const delta = diffScreens(before, after);
+  assert.equal(delta.screenChanged, true);
+  assert.deepEqual(delta.added, [{ id: "d", type: "Button", label: "New" }]);
+  assert.deepEqual(delta.removed, [{ id: "c", type: "Button", label: "Gone" }]);
+  assert.deepEqual(delta.changed[0].value, { from: "1", to: "2" });
+  assert.deepEqual(delta.changed[1].frame!.to.y, 50);
+  assert.equal(diffScreens(before, before).screenChanged, false);
+});
+
+test("diffScreens caps each list", () => {
+  const after = Array.from({ length: 30 }, (_, i) => element(`e${i}`, `Item ${i}`));
+  const delta = diffScreens([], after);
+  assert.equal(delta.added.length, 25);
+  assert.deepEqual(delta.omitted, { added: 5, removed: 0, changed: 0 });
+});
+
+test("observe on tap_element reports the new screen once it settles", async () => {
+  const result = await callTool("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" }, observe: true, stableMs: 100 });
+  assert.ok(!result.isError, textOf(result));
+  const delta = deltaOf(textOf(result));
+  assert.equal(delta.settled, true);
+  assert.ok(delta.added.some((el: any) => el.label === "Welcome"));
+  assert.ok(delta.removed.some((el: any) => el.label === "Email"));
+});
+
+test("observe on type_text reports the changed value", async () => {
+  await callTool("tap", { udid: UDID, x: 100, y: 220 });
+  const result = await callTool("type_text", { udid: UDID, text: "hi", observe: true, stableMs: 100 });
+  const delta = deltaOf(textOf(result));
+  assert.deepEqual(delta.added, []);
+  assert.deepEqual(
+    delta.changed.map((c: any) => [c.label, c.value]),
+    [["Email", { from: null, to: "hi" }]]
+  );
+});
+
+test("without observe the result has no delta", async () => {
+  assert.doesNotMatch(textOf(await callTool("tap", { udid: UDID, x: 100, y: 220 })), /UI delta/);
+  assert.equal((await snapshotScreen(UDID)).find((el) => el.label === "Email")!.type, "TextField");
+});
+
+test("observe options are not recorded", async () => {
+  await callTool("start_session_recording", {});
+  await callTool("tap", { udid: UDID, x: 100, y: 220, observe: true, stableMs: 100 });
+  await callTool("stop_session_recording", {});
+  assert.deepEqual(Object.keys(getRecordedActions()[0].args).sort(), ["x", "y"]);
+});
@@ -0,0 +1,107 @@
+import { after, afterEach, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runAsClient } from "../src/clients.js";
+import { resolveOutputPath } from "../src/output.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+// Paths clients choose for files the server writes
+
+const remote = { id: "remote", name: "remote client" };
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-output-"));
+
+afterEach(() => {
+  delete process.env.IOS_SIM_OUTPUT_DIR;
+});
+
+after(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("the local client may write anywhere", () => {
+  assert.equal(resolveOutputPath("report.md"), path.resolve("report.md"));
+  assert.equal(resolveOutputPath("/tmp/x/report.md"), "/tmp/x/report.md");
+});
+
+test("HTTP clients may not write files without IOS_SIM_OUTPUT_DIR", () => {
+  assert.throws(() => runAsClient(remote, () => resolveOutputPath("report.md")), (error: any) => {
+    assert.equal(error.code, "INVALID_ARGUMENT");
+    assert.match(error.message, /HTTP clients can't write files on the server, so path is not allowed/);
+    assert.match(error.hint, /IOS_SIM_OUTPUT_DIR/);
+    return true;
+  });
+});
+
+test("with IOS_SIM_OUTPUT_DIR, paths must stay inside it", () => {
+  process.env.IOS_SIM_OUTPUT_DIR = dir;
+  fs.symlinkSync(os.tmpdir(), path.join(dir, "link"));
+  const realDir = fs.realpathSync(dir);
+  for (const client of [remote, { id: "local", name: "local" }]) {
+    runAsClient(client, () => {
+      assert.equal(path.relative(realDir, fs.realpathSync(path.dirname(resolveOutputPath("reports/a.md")))), "reports");
+      for (const escape of ["../a.md", "/etc/passwd", "link/a.md", "."]) {
+        assert.throws(() => resolveOutputPath(escape, "localPath"), /localPath must be a file inside IOS_SIM_OUTPUT_DIR/);
+      }
+    });
+  }
+});
+
+test("tools that write files check the path", async () => {
+  useFakeDevice();
+  await runAsClient(remote, async () => {
+    await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+    const refused = await callTool("accessibility_audit", { udid: UDID, path: path.join(dir, "audit.json") });
+    assert.equal(refused.isError, true);
+    assert.match(textOf(refused), /path is not allowed/);
+
+    process.env.IOS_SIM_OUTPUT_DIR = dir;
+    assert.ok(!(await callTool("accessibility_audit", { udid: UDID, path: "audit.json" })).isError);
+    assert.ok(fs.existsSync(path.join(dir, "audit.json")));
+    assert.match(textOf(await callTool("pull_file", { udid: UDID, bundleId: "com.example.app", remotePath: "Library/Preferences/com.example.app.json", localPath: "../x" })), /must be a file inside/);
+  });
+});
+
+test("flow screenshot steps check their path", async () => {
+  useFakeDevice();
+  await runAsClient(remote, async () => {
+    const flow = (file: string) => `steps:\n  - screenshot: { path: ${JSON.stringify(file)} }\n`;
+    const refused = await callTool("run_flow", { udid: UDID, flow: flow(path.join(dir, "shot.png")) });
+    assert.equal(refused.isError, true);
+    assert.match(textOf(refused), /path is not allowed/);
+
+    process.env.IOS_SIM_OUTPUT_DIR = dir;
+    assert.match(textOf(await callTool("run_flow", { udid: UDID, flow: flow("../shot.png") })), /must be a file inside IOS_SIM_OUTPUT_DIR/);
+    assert.ok(!(await callTool("run_flow", { udid: UDID, flow: flow("shots/login.png") })).isError);
+    assert.ok(fs.existsSync(path.join(dir, "shots/login.png")));
+  });
+});
+
+test("run_flow artifactsDir can't leave the output directory", async () => {
+  useFakeDevice();
+  const failing = "steps:\n  - assert: { label: Nowhere }\n    onFailure: screenshot\n";
+  await runAsClient(remote, async () => {
+    await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-outside-"));
+    try {
+      const refused = await callTool("run_flow", { udid: UDID, flow: failing, artifactsDir: outside });
+      assert.equal(refused.structuredContent?.code, "INVALID_ARGUMENT");
+      assert.match(textOf(refused), /artifactsDir is not allowed/);
+
+      process.env.IOS_SIM_OUTPUT_DIR = dir;
+      for (const escape of [outside, "../artifacts", "link/artifacts"]) {
+        assert.match(textOf(await callTool("run_flow", { udid: UDID, flow: failing, artifactsDir: escape })), /artifactsDir must be a file inside IOS_SIM_OUTPUT_DIR/);
+      }
+      assert.deepEqual(fs.readdirSync(outside), []);
+
+      const result = await callTool("run_flow", { udid: UDID, flow: failing, artifactsDir: "artifacts" });
+      assert.equal(result.structuredContent?.code, "ASSERTION_FAILED");
+      const [step] = JSON.parse(textOf(result)).steps;
+      assert.equal(path.dirname(step.screenshot), path.join(dir, "artifacts"));
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
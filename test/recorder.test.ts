@@ -0,0 +1,224 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { setBackend } from "../src/backend.js";
+import { parseFlow } from "../src/flow.js";
+import { parseKey } from "../src/keyboard.js";
+import { callTool } from "../src/tools.js";
+import { fakeDevice, startServer, textOf, UDID, useFakeDevice, type TestServer } from "./helpers.js";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startServer();
+  await server.text("start_session_recording");
+  await server.text("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  await server.text("tap", { udid: UDID, x: 100, y: 220 });
+  await server.text("type_text", { udid: UDID, text: "user@test.com" });
+  await server.text("describe_screen", { udid: UDID });
+  await server.text("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+  await server.text("stop_session_recording");
+  // Not recorded: recording has stopped
+  await server.text("press_button", { udid: UDID, button: "home" });
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("export_session writes a flow that replays the session", async () => {
+  const flow = JSON.parse(await server.text("export_session", { format: "flow", name: "Login" }));
+  assert.equal(flow.name, "Login");
+  assert.deepEqual(flow.steps, [
+    { launchApp: "com.example.app" },
+    { tapElement: { label: "Email", labelMatch: "exact", type: "TextField" } },
+    { typeText: "user@test.com" },
+    { tapElement: { label: "Sign In", labelMatch: "exact", type: "Button" } },
+  ]);
+  const result = JSON.parse(await server.text("run_flow", { udid: UDID, flow: JSON.stringify(flow) }));
+  assert.equal(result.passed, true);
+});
+
+test("export_session writes Maestro YAML", async () => {
+  const yaml = await server.text("export_session", { format: "maestro" });
+  assert.equal(
+    yaml,
+    "appId: com.example.app\n---\n- launchApp:\n    appId: com.example.app\n- tapOn: Email\n- inputText: user@test.com\n- tapOn: Sign In\n"
+  );
+});
+
+test("export_session writes an XCUITest method", async () => {
+  const swift = await server.text("export_session", { format: "xcuitest", name: "login flow" });
+  assert.match(swift, /^func testLoginFlow\(\) throws \{/);
+  assert.match(swift, /var app = XCUIApplication\(bundleIdentifier: "com.example.app"\)/);
+  assert.match(swift, /app\.textFields\["Email"\]\.tap\(\)/);
+  assert.match(swift, /app\.textFields\["Email"\]\.typeText\("user@test.com"\)/);
+  assert.match(swift, /app\.buttons\["Sign In"\]\.tap\(\)/);
+  assert.doesNotMatch(swift, /press\(\.home\)/);
+});
+
+test("export_session needs a recording", async () => {
+  await server.text("start_session_recording");
+  assert.match(await server.error("export_session", { format: "flow" }), /Nothing recorded/);
+  await server.text("stop_session_recording");
+});
+
+test("fill_field and fill_form are recorded, exported and their screens audited", async () => {
+  const device = fakeDevice();
+  const enter = parseKey("enter").keycode;
+  // Return submits the login form, as it does in most apps
+  setBackend({
+    ...device,
+    async pressKey(udid, keycode, modifiers) {
+      await device.pressKey(udid, keycode, modifiers);
+      if (keycode === enter) await device.tap(udid, 197, 425);
+    },
+  });
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  // Not recorded: gives the field a value to clear
+  await callTool("fill_field", { udid: UDID, label: "Email", text: "old@test.com" });
+
+  await callTool("start_session_recording", { audit: true });
+  for (const [name, args] of [
+    ["fill_field", { label: "Email", text: "user@test.com" }],
+    ["fill_form", { fields: { Password: "secret" }, submit: true }],
+  ] as const) {
+    const result = await callTool(name, { udid: UDID, ...args });
+    assert.ok(!result.isError, `${name}: ${textOf(result)}`);
+  }
+  await callTool("stop_session_recording", {});
+
+  const reports = JSON.parse(textOf(await callTool("accessibility_audit", { scope: "session" })));
+  assert.deepEqual(
+    reports.map((r: any) => r.screen),
+    ["Example: Sign In", "Example: Welcome"]
+  );
+
+  const flow = JSON.parse(textOf(await callTool("export_session", { format: "flow" })));
+  assert.deepEqual(flow.steps, [
+    { fillField: { label: "Email", labelMatch: "exact", type: "TextField", text: "user@test.com" } },
+    { fillField: { label: "Password", labelMatch: "exact", type: "SecureTextField", text: "secret", submit: true } },
+  ]);
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  assert.equal(JSON.parse(textOf(await callTool("run_flow", { udid: UDID, flow: JSON.stringify(flow) }))).passed, true);
+
+  assert.equal(
+    textOf(await callTool("export_session", { format: "maestro" })),
+    "appId: com.example.app\n---\n- tapOn: Email\n- eraseText: 12\n- inputText: user@test.com\n- tapOn: Password\n- inputText: secret\n- pressKey: Enter\n"
+  );
+
+  const swift = textOf(await callTool("export_session", { format: "xcuitest" }));
+  for (const line of [
+    'app.textFields["Email"].tap()',
+    'app.textFields["Email"].typeText(String(repeating: XCUIKeyboardKey.delete.rawValue, count: 12))',
+    'app.textFields["Email"].typeText("user@test.com")',
+    'XCTAssertEqual(app.textFields["Email"].value as? String, "user@test.com")',
+    'app.secureTextFields["Password"].typeText("secret")',
+    'XCTAssertEqual((app.secureTextFields["Password"].value as? String)?.count, 6)',
+    'app.secureTextFields["Password"].typeText("\\n")',
+  ]) {
+    assert.ok(swift.includes(`    ${line}\n`), `missing ${line} in\n${swift}`);
+  }
+});
+
+test("gestures are recorded and exported, or refused by formats that can't express them", async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  await callTool("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+  await callTool("tap_element", { udid: UDID, label: "Settings", selector: { type: "Button" } });
+
+  const record = async (calls: [string, Record<string, unknown>][]) => {
+    await callTool("start_session_recording", {});
+    for (const [name, args] of calls) {
+      const result = await callTool(name, { udid: UDID, ...args });
+      assert.ok(!result.isError, `${name}: ${textOf(result)}`);
+    }
+    await callTool("stop_session_recording", {});
+  };
+  const exported = async (format: string) => textOf(await callTool("export_session", { format }));
+
+  await record([
+    ["long_press", { x: 100, y: 222, duration: 1500 }],
+    ["double_tap", { x: 100, y: 222 }],
+    ["scroll_to_element", { label: "Privacy Policy" }],
+    ["edge_swipe", { edge: "left" }],
+  ]);
+  const flow = JSON.parse(await exported("flow"));
+  assert.deepEqual(flow.steps, [
+    { longPress: { x: 100, y: 222, duration: 1500 } },
+    { doubleTap: { x: 100, y: 222 } },
+    { scrollToElement: { label: "Privacy Policy" } },
+    { edgeSwipe: "left" },
+  ]);
+  assert.equal(parseFlow(JSON.stringify(flow)).steps.length, 4);
+  assert.equal(
+    await exported("maestro"),
+    "appId: com.example.app\n---\n- longPressOn: Notifications\n- doubleTapOn: Notifications\n" +
+      "- scrollUntilVisible:\n    element: Privacy Policy\n    direction: DOWN\n" +
+      "- swipe:\n    start: 0%,50%\n    end: 70%,50%\n    duration: 300\n"
+  );
+  const swift = await exported("xcuitest");
+  for (const line of [
+    'app.switches["Notifications"].press(forDuration: 1.5)',
+    'app.switches["Notifications"].doubleTap()',
+    'for _ in 0..<10 where !app.buttons["Privacy Policy"].isHittable { app.swipeUp() }',
+    'XCTAssertTrue(app.buttons["Privacy Policy"].isHittable)',
+    "app.coordinate(withNormalizedOffset: CGVector(dx: 0, dy: 0.5)).press(forDuration: 0.05, thenDragTo: app.coordinate(withNormalizedOffset: CGVector(dx: 0.7, dy: 0.5)))",
+  ]) {
+    assert.ok(swift.includes(`    ${line}\n`), `missing ${line} in\n${swift}`);
+  }
+
+  await record([
+    ["drag_and_drop", { from: { x: 100, y: 222 }, to: { x: 100, y: 600 } }],
+    ["scroll_to_element", { label: "Version 1.0", container: { type: "ScrollView" } }],
+  ]);
+  assert.deepEqual(JSON.parse(await exported("flow")).steps, [
+    { dragAndDrop: { from: { x: 100, y: 222 }, to: { x: 100, y: 600 } } },
+    { scrollToElement: { label: "Version 1.0", container: { type: "ScrollView" } } },
+  ]);
+  const maestro = await callTool("export_session", { format: "maestro" });
+  assert.equal(maestro.structuredContent?.code, "UNSUPPORTED");
+  assert.match(textOf(maestro), /Step 1 \(drag_and_drop\) can't be exported to Maestro: Maestro has no press-and-hold drag/);
+  assert.match(String(maestro.structuredContent?.hint), /Export as flow/);
+  assert.match(await exported("xcuitest"), /Step 2 \(scroll_to_element\) can't be exported to XCUITest: it can't scroll inside a given container/);
+});
+
+test("key presses and combos are recorded and exported, or refused by Maestro", async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  await callTool("start_session_recording", {});
+  for (const [name, args] of [
+    ["tap_element", { selector: { label: "Email", type: "TextField" } }],
+    ["type_text", { text: "old" }],
+    ["press_keys", { keys: ["cmd+a", "delete"] }],
+    ["press_key", { key: "escape" }],
+  ] as const) {
+    const result = await callTool(name, { udid: UDID, ...args });
+    assert.ok(!result.isError, `${name}: ${textOf(result)}`);
+  }
+  await callTool("stop_session_recording", {});
+
+  const flow = JSON.parse(textOf(await callTool("export_session", { format: "flow" })));
+  assert.deepEqual(flow.steps.slice(2), [{ pressKeys: ["cmd+a", "delete"] }, { pressKey: "escape" }]);
+  assert.deepEqual(parseFlow(JSON.stringify(flow)).steps[2].params, { keys: ["cmd+a", "delete"] });
+
+  const swift = textOf(await callTool("export_session", { format: "xcuitest" }));
+  for (const line of [
+    'app.typeKey("a", modifierFlags: [.command])',
+    "app.typeText(XCUIKeyboardKey.delete.rawValue)",
+    "app.typeKey(.escape, modifierFlags: [])",
+  ]) {
+    assert.ok(swift.includes(`    ${line}\n`), `missing ${line} in\n${swift}`);
+  }
+
+  const maestro = await callTool("export_session", { format: "maestro" });
+  assert.equal(maestro.structuredContent?.code, "UNSUPPORTED");
+  assert.match(textOf(maestro), /Step 3 \(press_keys\) can't be exported to Maestro: Maestro can't press key combos like 'cmd\+a'/);
+
+  await callTool("start_session_recording", {});
+  assert.ok(!(await callTool("press_keys", { udid: UDID, keys: ["A", "space", "delete", "enter"] })).isError);
+  await callTool("stop_session_recording", {});
+  assert.equal(
+    textOf(await callTool("export_session", { format: "maestro" })),
+    'appId: com.example.app\n---\n- inputText: A\n- inputText: " "\n- pressKey: Backspace\n- pressKey: Enter\n'
+  );
+});
@@ -0,0 +1,91 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { getPrompt, PROMPTS } from "../src/prompts.js";
+import { createResourceWatcher, listResources, readResource, SIMULATORS_URI } from "../src/resources.js";
+import { callTool } from "../src/tools.js";
+import { startServer, UDID, useFakeDevice } from "./helpers.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitUntil(check: () => boolean, timeout = 2000): Promise<void> {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeout) throw new Error("condition not met");
+    await sleep(20);
+  }
+}
+
+test("listResources has the simulator list and each booted simulator's resources", async () => {
+  useFakeDevice();
+  const uris = (await listResources()).map((r) => r.uri);
+  assert.deepEqual(uris, [SIMULATORS_URI, `sim://${UDID}/screen/tree`, `sim://${UDID}/screenshot/latest`, `sim://${UDID}/apps`]);
+});
+
+test("readResource returns the tree, a screenshot and the app list", async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+
+  const [tree] = (await readResource(`sim://${UDID}/screen/tree`)).contents as { text: string }[];
+  assert.match(tree.text, /"label": "Email"/);
+  const [screenshot] = (await readResource(`sim://${UDID}/screenshot/latest`)).contents as { mimeType: string; blob: string }[];
+  assert.equal(screenshot.mimeType, "image/png");
+  assert.equal(Buffer.from(screenshot.blob, "base64").subarray(1, 4).toString(), "PNG");
+  const [apps] = (await readResource(`sim://${UDID}/apps`)).contents as { text: string }[];
+  assert.ok(JSON.parse(apps.text).some((app: any) => app.bundleId === "com.example.app"));
+
+  await assert.rejects(readResource(`sim://${UDID}/logs`), /Unknown resource sim:\/\/FAKE-IPHONE-16\/logs/);
+});
+
+test("the watcher reports screen changes and boot changes", async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+  const updated: string[] = [];
+  let listChanged = 0;
+  const watcher = createResourceWatcher(
+    (uri) => updated.push(uri),
+    () => listChanged++,
+    50
+  );
+  try {
+    await watcher.subscribe(`sim://${UDID}/screen/tree`);
+    await sleep(120);
+    assert.deepEqual(updated, []);
+
+    await callTool("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+    await waitUntil(() => updated.length > 0);
+    assert.deepEqual(updated, [`sim://${UDID}/screen/tree`]);
+
+    await callTool("boot_simulator", { udid: "FAKE-IPAD-AIR" });
+    await waitUntil(() => listChanged > 0);
+  } finally {
+    watcher.stop();
+  }
+});
+
+test("getPrompt fills in the arguments and checks required ones", () => {
+  assert.deepEqual(
+    PROMPTS.map((p) => p.name),
+    ["explore_app", "fill_login_form", "verify_deep_link"]
+  );
+  const { messages } = getPrompt("verify_deep_link", { url: "example://settings", expect: "Notifications" });
+  assert.match((messages[0].content as { text: string }).text, /open_url with url "example:\/\/settings"[\s\S]*label "Notifications"/);
+  assert.throws(() => getPrompt("verify_deep_link"), /requires url/);
+  assert.throws(() => getPrompt("nope"), /Unknown prompt 'nope'/);
+});
+
+test("resources and prompts are served over MCP", async () => {
+  const server = await startServer();
+  try {
+    const { resources } = await server.client.listResources();
+    assert.ok(resources.some((r) => r.uri === SIMULATORS_URI));
+    const { contents } = await server.client.readResource({ uri: SIMULATORS_URI });
+    assert.match((contents[0] as { text: string }).text, /FAKE-IPAD-AIR/);
+    const { resourceTemplates } = await server.client.listResourceTemplates();
+    assert.equal(resourceTemplates.length, 3);
+
+    assert.equal((await server.client.listPrompts()).prompts.length, 3);
+    await assert.rejects(server.client.getPrompt({ name: "explore_app" }), (error: any) => error.code === -32602 && error.data.code === "INVALID_ARGUMENT");
+  } finally {
+    await server.close();
+  }
+});
@@ -0,0 +1,49 @@
+import { before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { decodePng } from "../src/png.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+before(async () => {
+  useFakeDevice();
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+async function screenshot(args: Record<string, unknown>) {
+  const result = await callTool("screenshot", { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  const [image] = result.content;
+  assert.equal(image.type, "image");
+  return { image: image.type === "image" ? image : null!, info: JSON.parse(textOf(result)) };
+}
+
+test("screenshot without options is the raw PNG", async () => {
+  const result = await callTool("screenshot", { udid: UDID });
+  assert.equal(result.content.length, 1);
+  const image = result.content[0];
+  const bitmap = decodePng(Buffer.from(image.type === "image" ? image.data : "", "base64"));
+  assert.deepEqual([bitmap.width, bitmap.height], [1179, 2556]);
+});
+
+test("maxWidth downscales and reports pixels per point", async () => {
+  const { image, info } = await screenshot({ maxWidth: 393 });
+  const bitmap = decodePng(Buffer.from(image.data, "base64"));
+  assert.deepEqual([bitmap.width, bitmap.height], [393, 852]);
+  assert.deepEqual([info.width, info.height, info.pixelsPerPoint], [393, 852, 1]);
+  assert.deepEqual(info.region, { x: 0, y: 0, width: 393, height: 852 });
+});
+
+test("crop to an element keeps only its frame", async () => {
+  const { info } = await screenshot({ crop: { selector: { label: "Email", type: "TextField" } }, maxWidth: 353 });
+  assert.deepEqual(info.region, { x: 20, y: 200, width: 353, height: 44 });
+  assert.deepEqual([info.width, info.height, info.pixelsPerPoint], [353, 44, 1]);
+  assert.match(textOf(await callTool("screenshot", { udid: UDID, crop: { x: 500, y: 0, width: 10, height: 10 } })), /outside the screen/);
+});
+
+test("jpeg output is a JPEG", async () => {
+  const { image, info } = await screenshot({ format: "jpeg", quality: 50, grayscale: true, maxWidth: 200 });
+  assert.equal(image.mimeType, "image/jpeg");
+  const bytes = Buffer.from(image.data, "base64");
+  assert.deepEqual([...bytes.subarray(0, 3)], [0xff, 0xd8, 0xff]);
+  assert.equal(info.bytes, bytes.length);
+});
@@ -0,0 +1,64 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import { parseTree, type ElementNode } from "../src/elements.js";
+import { checkSelector, selectElements, selectOne } from "../src/selector.js";
+import { FAKE_MODEL, screenLabels, startServer, UDID, type TestServer } from "./helpers.js";
+
+// The login screen of the fake app: a "Sign In" title, Email and Password fields
+// and a "Sign In" button
+const login: ElementNode[] = parseTree(JSON.parse(fs.readFileSync(FAKE_MODEL, "utf8")).screens.login.elements);
+
+test("label matches contain, case-insensitively, by default", () => {
+  assert.deepEqual(
+    selectElements(login, { label: "sign in" }).map((e) => e.type),
+    ["StaticText", "Button"]
+  );
+});
+
+test("type, exact and regex matching narrow the selection", () => {
+  assert.equal(selectOne(login, { label: "Sign In", type: "button" }).type, "Button");
+  assert.equal(selectOne(login, { label: "/^pass/i", labelMatch: "regex" }).label, "Password");
+  assert.equal(selectElements(login, { label: "sign in", labelMatch: "exact" }).length, 0);
+});
+
+test("index and inside pick among matches", () => {
+  assert.equal(selectOne(login, { label: "Sign In", index: 1 }).type, "Button");
+  assert.equal(selectOne(login, { type: "TextField", inside: { label: "Example", type: "Application" } }).label, "Email");
+});
+
+test("selectOne reports missing and ambiguous matches", () => {
+  assert.throws(() => selectOne(login, { label: "Register" }), /No element matches/);
+  assert.throws(() => selectOne(login, { label: "Sign In" }), /2 elements match[\s\S]*index \(0-1\)/);
+});
+
+test("checkSelector rejects unknown fields and bad regexes", () => {
+  assert.throws(() => checkSelector("tap_element", { lable: "Email" }), /lable/);
+  assert.throws(() => checkSelector("tap_element", { label: "(", labelMatch: "regex" }), /Invalid selector regex/);
+});
+
+let server: TestServer;
+
+before(async () => {
+  server = await startServer();
+  await server.text("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("find_elements takes a selector", async () => {
+  const found = JSON.parse(await server.text("find_elements", { udid: UDID, selector: { type: "SecureTextField" } }));
+  assert.deepEqual(found.map((e: any) => e.label), ["Password"]);
+});
+
+test("tap_element refuses an ambiguous label and taps the selected element", async () => {
+  assert.match(await server.error("tap_element", { udid: UDID, label: "Sign In" }), /ambiguous/);
+  await server.text("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+  assert.ok((await screenLabels(server)).includes("Welcome"));
+});
+
+test("element tools need a label or selector", async () => {
+  assert.match(await server.error("tap_element", { udid: UDID }), /label or selector is required/);
+});
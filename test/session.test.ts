@@ -0,0 +1,55 @@
+import { before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { callTool } from "../src/tools.js";
+import { textOf, useFakeDevice } from "./helpers.js";
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, args);
+  assert.equal(result.isError, undefined, textOf(result));
+  return textOf(result);
+};
+const error = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, args);
+  assert.equal(result.isError, true, textOf(result));
+  return textOf(result);
+};
+
+before(() => {
+  useFakeDevice();
+});
+
+test("calls without a udid go to the only booted simulator", async () => {
+  await call("launch_app", { bundleId: "com.example.app" });
+  assert.match(await call("list_apps", { udid: "FAKE-IPHONE-16" }), /"running": true/);
+});
+
+test("simulator names target a device, with or without the OS version", async () => {
+  assert.match(await call("list_apps", { simulator: "iphone 16" }), /"running": true/);
+  assert.match(await call("list_apps", { simulator: "iPhone 16 / 18.2" }), /"running": true/);
+  assert.match(await error("list_apps", { simulator: "iPhone 99" }), /No simulator named "iPhone 99"/);
+});
+
+test("several booted simulators need a selection", async () => {
+  await call("boot_simulator", { udid: "FAKE-IPAD-AIR" });
+  assert.match(await error("list_apps"), /2 simulators are booted and none is selected[\s\S]*select_simulator/);
+
+  assert.match(await call("select_simulator", { simulator: "iPad Air / iOS 18.2" }), /Selected iPad Air \/ iOS 18\.2 \(FAKE-IPAD-AIR\)\.$/);
+  assert.doesNotMatch(await call("list_apps"), /"running": true/);
+  await call("list_apps");
+
+  const sessions = JSON.parse(await call("list_sessions"));
+  assert.deepEqual(
+    sessions.map((s: any) => [s.udid, s.selected, s.calls]),
+    [
+      ["FAKE-IPHONE-16", false, 4],
+      ["FAKE-IPAD-AIR", true, 2],
+    ]
+  );
+});
+
+test("shutting down the selected simulator clears the selection", async () => {
+  await call("shutdown_simulator", { udid: "FAKE-IPAD-AIR" });
+  assert.match(await call("list_apps"), /"running": true/);
+  assert.match(await call("select_simulator", { udid: "FAKE-IPAD-AIR" }), /It is Shutdown; boot it/);
+  assert.match(await call("select_simulator", { clear: true }), /Cleared/);
+});
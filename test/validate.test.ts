@@ -0,0 +1,62 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { ValidationError, validateArguments, type JsonSchema } from "../src/validate.js";
+import { startServer, UDID, type TestServer } from "./helpers.js";
+
+const schema: JsonSchema = {
+  type: "object",
+  properties: {
+    udid: { type: "string", pattern: "^[A-Za-z0-9-]+$" },
+    x: { type: "number", minimum: 0 },
+    key: { type: "string", enum: ["enter", "delete"] },
+  },
+  required: ["x"],
+};
+
+test("validateArguments accepts arguments matching the schema", () => {
+  validateArguments("tap", { udid: UDID, x: 10, key: "enter" }, schema);
+});
+
+test("validateArguments reports every issue", () => {
+  assert.throws(
+    () => validateArguments("tap", { udid: "bad udid", key: "space" }, schema),
+    (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.deepEqual(error.issues.map((i) => i.path).sort(), ["key", "udid", "x"]);
+      return true;
+    }
+  );
+});
+
+let server: TestServer;
+
+before(async () => {
+  server = await startServer();
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("tools reject out-of-range arguments with structured issues", async () => {
+  const result = (await server.client.callTool({
+    name: "swipe",
+    arguments: { udid: UDID, startX: 200, startY: 600, endX: 200, endY: 200, duration: 50 },
+  })) as any;
+  assert.equal(result.isError, true);
+  assert.equal(result.structuredContent.error, "validation");
+  assert.equal(result.structuredContent.tool, "swipe");
+  assert.deepEqual(result.structuredContent.issues, [{ path: "duration", message: "must be >= 100" }]);
+});
+
+test("tools reject missing arguments and bad enum values", async () => {
+  assert.match(await server.error("tap", { udid: UDID, x: 10 }), /y/);
+  assert.match(await server.error("press_key", { udid: UDID, key: "f13" }), /key/);
+  assert.match(await server.error("launch_app", { udid: UDID, bundleId: "com.example.app; rm -rf /" }), /bundleId/);
+});
+
+test("tools reject arguments they don't declare", async () => {
+  const result = await server.call("swipe", { udid: UDID, startX: 200, startY: 600, endX: 200, endY: 200, duraton: 500 });
+  assert.equal(result.isError, true);
+  assert.deepEqual(result.structuredContent?.issues, [{ path: "duraton", message: "is not a recognized argument" }]);
+});
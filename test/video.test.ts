@@ -0,0 +1,91 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { setBackend } from "../src/backend.js";
+import { callTool } from "../src/tools.js";
+import { textOf, UDID, useFakeDevice } from "./helpers.js";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ios-sim-videos-"));
+
+const call = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, undefined, textOf(result));
+  return textOf(result);
+};
+const error = async (name: string, args: Record<string, unknown> = {}) => {
+  const result = await callTool(name, { udid: UDID, ...args });
+  assert.equal(result.isError, true, textOf(result));
+  return textOf(result);
+};
+
+const videos = () => fs.readdirSync(dir).filter((f) => f.endsWith(".mp4"));
+
+before(() => {
+  process.env.IOS_SIM_RECORDING_DIR = dir;
+  useFakeDevice();
+});
+
+after(() => {
+  delete process.env.IOS_SIM_RECORDING_DIR;
+  delete process.env.IOS_SIM_RECORDING_KEEP;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("start_recording and stop_recording write a video", async () => {
+  assert.match(await call("start_recording", { name: "login test" }), /Call stop_recording when done/);
+  assert.match(await error("start_recording"), /Already recording/);
+
+  const info = JSON.parse(await call("stop_recording"));
+  assert.equal(path.dirname(info.path), dir);
+  assert.match(path.basename(info.path), /^login-test-FAKE-IPHONE-16-.*\.mp4$/);
+  assert.equal(info.bytes, 20);
+  assert.equal(info.autoStopped, undefined);
+  assert.match(await error("stop_recording"), /Not recording FAKE-IPHONE-16/);
+});
+
+test("recordings stop by themselves after maxDuration", async () => {
+  await call("start_recording", { maxDuration: 1 });
+  await new Promise((resolve) => setTimeout(resolve, 1200));
+  const info = JSON.parse(await call("stop_recording"));
+  assert.equal(info.autoStopped, true);
+  assert.match(await error("stop_recording"), /Not recording/);
+});
+
+test("old recordings are pruned to IOS_SIM_RECORDING_KEEP", async () => {
+  assert.equal(videos().length, 2);
+  process.env.IOS_SIM_RECORDING_KEEP = "1";
+  await call("start_recording");
+  const info = JSON.parse(await call("stop_recording"));
+  assert.deepEqual(videos(), [path.basename(info.path)]);
+});
+
+test("the recording being returned survives IOS_SIM_RECORDING_KEEP=0", async () => {
+  process.env.IOS_SIM_RECORDING_KEEP = "0";
+  await call("start_recording");
+  const info = JSON.parse(await call("stop_recording"));
+  assert.ok(fs.existsSync(info.path));
+  assert.deepEqual(videos(), [path.basename(info.path)]);
+});
+
+test("a recording that fails to finish at maxDuration reports why on stop_recording", async () => {
+  const device = useFakeDevice();
+  setBackend({
+    ...device,
+    recordVideo(udid, file) {
+      const recording = device.recordVideo(udid, file);
+      return {
+        async stop() {
+          recording.kill();
+          throw new Error("idb record-video exited with code 1");
+        },
+        kill: recording.kill,
+      };
+    },
+  });
+  await call("start_recording", { maxDuration: 1 });
+  await new Promise((resolve) => setTimeout(resolve, 1200));
+  assert.match(await error("stop_recording"), /Recording of FAKE-IPHONE-16 stopped at maxDuration, but finishing it failed: idb record-video exited with code 1/);
+  assert.match(await error("stop_recording"), /Not recording/);
+});
@@ -0,0 +1,85 @@
+import { after, before, test } from "node:test";
+import * as assert from "node:assert/strict";
+import { setBackend } from "../src/backend.js";
+import { callTool } from "../src/tools.js";
+import { fakeDevice, startServer, textOf, UDID, type TestServer } from "./helpers.js";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startServer();
+  await server.text("launch_app", { udid: UDID, bundleId: "com.example.app" });
+});
+
+after(async () => {
+  await server.close();
+});
+
+test("wait_for exists is satisfied by an element on screen", async () => {
+  const result = JSON.parse(await server.text("wait_for", { udid: UDID, condition: "exists", label: "email" }));
+  assert.equal(result.satisfied, true);
+  assert.equal(result.polls, 1);
+  assert.equal(result.observed[0].label, "Email");
+});
+
+test("wait_for value compares the element's value", async () => {
+  await server.text("tap", { udid: UDID, x: 100, y: 220 });
+  await server.text("type_text", { udid: UDID, text: "a@b.c" });
+  const result = JSON.parse(await server.text("wait_for", { udid: UDID, condition: "value", label: "Email", value: "a@b.c" }));
+  assert.equal(result.satisfied, true);
+});
+
+test("wait_for stable needs two identical polls", async () => {
+  const result = JSON.parse(await server.text("wait_for", { udid: UDID, condition: "stable", interval: 50 }));
+  assert.equal(result.satisfied, true);
+  assert.equal(result.polls, 2);
+});
+
+test("wait_for not_exists after navigating away", async () => {
+  await server.text("tap_element", { udid: UDID, selector: { label: "Sign In", type: "Button" } });
+  const result = JSON.parse(await server.text("wait_for", { udid: UDID, condition: "not_exists", label: "Password" }));
+  assert.equal(result.satisfied, true);
+});
+
+test("wait_for times out with the last observation", async () => {
+  const result = await server.call("wait_for", { udid: UDID, condition: "exists", label: "Nowhere", timeout: 200, interval: 50 });
+  assert.equal(result.isError, true);
+  const body = JSON.parse(textOf(result));
+  assert.equal(body.satisfied, false);
+  assert.ok(body.polls > 1);
+  assert.ok(body.elapsedMs >= 200);
+  assert.deepEqual(body.observed, []);
+});
+
+test("wait_for requires a label for element conditions", async () => {
+  assert.match(await server.error("wait_for", { udid: UDID, condition: "exists" }), /requires a label/);
+});
+
+test("wait_for keeps polling through failed screen reads", async () => {
+  const device = fakeDevice();
+  let reads = 0;
+  // The first three reads fail, as while an app is still launching
+  setBackend({
+    ...device,
+    async describeScreen(udid) {
+      if (++reads <= 3) throw new Error("Accessibility tree unavailable");
+      return device.describeScreen(udid);
+    },
+  });
+  await callTool("launch_app", { udid: UDID, bundleId: "com.example.app" });
+
+  const found = JSON.parse(textOf(await callTool("wait_for", { udid: UDID, condition: "exists", label: "Email", interval: 50 })));
+  assert.equal(found.satisfied, true);
+  assert.equal(found.polls, 4);
+  assert.equal(found.failedPolls, 3);
+  assert.equal(found.observed[0].label, "Email");
+
+  reads = 0;
+  const result = await callTool("wait_for", { udid: UDID, condition: "exists", label: "Nowhere", timeout: 300, interval: 50 });
+  assert.equal(result.structuredContent?.code, "TIMEOUT");
+  assert.match(String(result.structuredContent?.message), /3 of \d+ screen reads failed, the last with: Accessibility tree unavailable/);
+  const body = JSON.parse(textOf(result));
+  assert.equal(body.failedPolls, 3);
+  assert.equal(body.lastError, "Accessibility tree unavailable");
+  assert.deepEqual(body.observed, []);
+});